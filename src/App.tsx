@@ -5,6 +5,17 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import Index from "./pages/Index";
+import DivisaoRede from "./pages/DivisaoRede";
+import PlanejamentoVlsm from "./pages/PlanejamentoVlsm";
+import Sumarizacao from "./pages/Sumarizacao";
+import Pertinencia from "./pages/Pertinencia";
+import Aritmetica from "./pages/Aritmetica";
+import Wildcard from "./pages/Wildcard";
+import Conjuntos from "./pages/Conjuntos";
+import Rotas from "./pages/Rotas";
+import EspacoLivre from "./pages/EspacoLivre";
+import InterfaceIPv6 from "./pages/InterfaceIPv6";
+import TraducaoIPv6 from "./pages/TraducaoIPv6";
 import PaginaNaoEncontrada from "./pages/PaginaNaoEncontrada";
 
 const queryClient = new QueryClient();
@@ -18,6 +29,17 @@ const App = () => (
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path="/divisao" element={<DivisaoRede />} />
+            <Route path="/vlsm" element={<PlanejamentoVlsm />} />
+            <Route path="/sumarizacao" element={<Sumarizacao />} />
+            <Route path="/pertinencia" element={<Pertinencia />} />
+            <Route path="/aritmetica" element={<Aritmetica />} />
+            <Route path="/wildcard" element={<Wildcard />} />
+            <Route path="/conjuntos" element={<Conjuntos />} />
+            <Route path="/rotas" element={<Rotas />} />
+            <Route path="/espaco-livre" element={<EspacoLivre />} />
+            <Route path="/interface-ipv6" element={<InterfaceIPv6 />} />
+            <Route path="/traducao-ipv6" element={<TraducaoIPv6 />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<PaginaNaoEncontrada />} />
           </Routes>
@@ -0,0 +1,210 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Copy, SquareFunction } from "lucide-react";
+import { evaluateSetExpression, SubnetError, type AddressRange } from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+type SetResult = {
+  cidrs: string[];
+  ranges: AddressRange[];
+  size: number;
+};
+
+/**
+ * Operadores aceitos na expressão, exibidos como ajuda
+ */
+const OPERATORS = [
+  { symbol: "+  |  ,", description: "União" },
+  { symbol: "-", description: "Diferença" },
+  { symbol: "&", description: "Interseção" },
+  { symbol: "~", description: "Complemento" },
+  { symbol: "( )", description: "Agrupamento" },
+  { symbol: "[a - b]", description: "Intervalo de endereços" },
+];
+
+/**
+ * Álgebra de conjuntos de endereços: avalia expressões como
+ * `10.0.0.0/8 - 10.1.0.0/16` e mostra o resultado como a lista mínima de
+ * blocos CIDR, pronta para objetos de firewall
+ */
+const AlgebraConjuntos = () => {
+  const [expression, setExpression] = useState("");
+  const [result, setResult] = useState<SetResult | null>(null);
+  const [error, setError] = useState<SubnetError | null>(null);
+  const { toast } = useToast();
+
+  const handleEvaluate = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const set = evaluateSetExpression(expression);
+      setResult({ cidrs: set.toCidrs(), ranges: set.toRanges(), size: set.size });
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof SubnetError ? err : null);
+      toast({
+        title: "Erro na expressão",
+        description: err instanceof Error ? err.message : "Não foi possível avaliar a expressão",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyCidrs = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.cidrs.join("\n"));
+      toast({
+        title: "Copiado!",
+        description: "Blocos CIDR copiados para a área de transferência",
+      });
+    } catch (err) {
+      toast({
+        title: "Erro ao copiar",
+        description: "Não foi possível copiar para a área de transferência",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Posição do erro na expressão, para apontar o trecho problemático abaixo do campo
+  const errorPosition = error?.details.position;
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <SquareFunction className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Conjuntos de Endereços</h1>
+        <p className="text-lg text-muted-foreground">
+          Combine prefixos e intervalos com união, interseção, diferença e complemento
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleEvaluate} aria-label="Formulário de conjuntos de endereços">
+        <div className="space-y-2">
+          <Label htmlFor="set-expression">Expressão</Label>
+          <Textarea
+            id="set-expression"
+            rows={3}
+            placeholder="Ex: 10.0.0.0/8 - 10.1.0.0/16 - 10.200.0.0/13"
+            value={expression}
+            onChange={(e) => {
+              setExpression(e.target.value);
+              setError(null);
+            }}
+            className="font-mono shadow-sm dark:shadow-none"
+            aria-invalid={error !== null}
+            aria-describedby={errorPosition !== undefined ? "set-expression-error" : undefined}
+          />
+          {errorPosition !== undefined && (
+            <p id="set-expression-error" className="font-mono text-sm text-destructive" role="alert">
+              {expression.substring(0, errorPosition)}
+              <mark className="rounded-sm bg-destructive/20 px-0.5 text-destructive">
+                {expression.substring(errorPosition, errorPosition + 1) || "␣"}
+              </mark>
+              {expression.substring(errorPosition + 1)}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {OPERATORS.map(({ symbol, description }) => (
+              <Badge key={symbol} variant="secondary" className="font-normal">
+                <code className="mr-1 font-mono">{symbol}</code>
+                {description}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <Button type="submit" size="lg" className="w-full" disabled={!expression.trim()}>
+          <SquareFunction className="mr-2 h-4 w-4" aria-hidden="true" />
+          Calcular Conjunto
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {result && (
+          <Card className="mt-8 space-y-6 p-6 shadow-sm dark:shadow-none">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold">Resultado</h2>
+              <div className="flex gap-2">
+                <Badge variant="outline">{result.size} endereços</Badge>
+                <Badge variant="outline" className="bg-success/20 text-success">
+                  {result.cidrs.length} blocos CIDR
+                </Badge>
+              </div>
+            </div>
+
+            {result.cidrs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">O conjunto resultante está vazio.</p>
+            ) : (
+              <>
+                <div className="rounded-lg border border-border/50 bg-muted/30 p-4">
+                  <div className="mb-2 flex items-center justify-between">
+                    <span className="text-sm font-medium text-muted-foreground">Blocos CIDR:</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={copyCidrs}
+                      className="h-6 w-6 p-0"
+                      aria-label="Copiar blocos CIDR"
+                    >
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {result.cidrs.map(cidr => (
+                      <Badge key={cidr} variant="secondary" className="font-mono">
+                        {cidr}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium text-foreground">Intervalos contínuos</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Início</TableHead>
+                        <TableHead>Fim</TableHead>
+                        <TableHead className="text-right">Endereços</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.ranges.map(range => (
+                        <TableRow key={range.start}>
+                          <TableCell className="font-mono">{range.start}</TableCell>
+                          <TableCell className="font-mono">{range.end}</TableCell>
+                          <TableCell className="text-right">{range.size}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AlgebraConjuntos;
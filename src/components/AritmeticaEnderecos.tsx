@@ -0,0 +1,281 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Sigma } from "lucide-react";
+import {
+  addressForms,
+  addToIp,
+  hostOffset,
+  ipDistance,
+  nthHost,
+  parseAddressInput,
+  type AddressForms,
+} from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+type Operation = "add" | "distance" | "nthHost" | "offset";
+
+/**
+ * Resultado de uma operação: resumo em texto e os endereços envolvidos
+ */
+type ArithmeticResult = {
+  summary: string;
+  details: string[];
+  addresses: { label: string; forms: AddressForms }[];
+};
+
+type FieldLabels = { label: string; placeholder: string };
+
+/**
+ * Rótulos dos campos de cada operação (a posição na sub-rede usa um só campo)
+ */
+const FIELDS: Record<Operation, { first: FieldLabels; second: FieldLabels | null }> = {
+  add: {
+    first: { label: "Endereço IP", placeholder: "Ex: 10.0.0.250" },
+    second: { label: "Somar (negativo subtrai)", placeholder: "Ex: 10 ou -10" },
+  },
+  distance: {
+    first: { label: "Endereço de origem", placeholder: "Ex: 10.0.0.1" },
+    second: { label: "Endereço de destino", placeholder: "Ex: 10.0.1.200" },
+  },
+  nthHost: {
+    first: { label: "Rede", placeholder: "Ex: 192.168.1.0/24" },
+    second: { label: "Nº do host (negativo conta do fim)", placeholder: "Ex: 200 ou -1" },
+  },
+  offset: {
+    first: { label: "Endereço com máscara", placeholder: "Ex: 192.168.1.200/24" },
+    second: null,
+  },
+};
+
+/**
+ * Lê um inteiro digitado, aceitando sinal (ex: '-10', '+5')
+ * @throws {Error} Se o texto não for um número inteiro
+ */
+const parseInteger = (text: string): number => {
+  const value = Number(text.trim());
+  if (!text.trim() || !Number.isInteger(value)) {
+    throw new Error("Informe um número inteiro");
+  }
+  return value;
+};
+
+/**
+ * Executa a operação escolhida e monta o resultado exibido
+ * @throws {Error} Se alguma entrada for inválida
+ */
+const runOperation = (operation: Operation, first: string, second: string): ArithmeticResult => {
+  switch (operation) {
+    case "add": {
+      const amount = parseInteger(second);
+      const result = addToIp(first.trim(), amount);
+      return {
+        summary: `${first.trim()} ${amount < 0 ? "-" : "+"} ${Math.abs(amount)} = ${result}`,
+        details: [],
+        addresses: [
+          { label: "Origem", forms: addressForms(first.trim()) },
+          { label: "Resultado", forms: addressForms(result) },
+        ],
+      };
+    }
+    case "distance": {
+      const distance = ipDistance(first.trim(), second.trim());
+      return {
+        summary: `Distância: ${distance} ${Math.abs(distance) === 1 ? "endereço" : "endereços"}`,
+        details: [`${Math.abs(distance) + 1} endereços no intervalo, contando as duas pontas`],
+        addresses: [
+          { label: "Origem", forms: addressForms(first.trim()) },
+          { label: "Destino", forms: addressForms(second.trim()) },
+        ],
+      };
+    }
+    case "nthHost": {
+      const n = parseInteger(second);
+      const host = nthHost(first.trim(), n);
+      return {
+        summary: n > 0 ? `${n}º host de ${first.trim()}: ${host}` : `${-n}º host a partir do fim de ${first.trim()}: ${host}`,
+        details: [],
+        addresses: [{ label: "Host", forms: addressForms(host) }],
+      };
+    }
+    case "offset": {
+      const { address, mask } = parseAddressInput(first);
+      if (!mask) {
+        throw new Error("Informe a máscara junto ao endereço (ex: 192.168.1.200/24)");
+      }
+      const { network, offset, hostNumber } = hostOffset(address, mask);
+      return {
+        summary: `${address} está na posição +${offset} de ${network}`,
+        details: [
+          hostNumber === null
+            ? offset === 0
+              ? "É o endereço de rede"
+              : "É o endereço de broadcast"
+            : `É o ${hostNumber}º host utilizável`,
+        ],
+        addresses: [
+          { label: "Endereço", forms: addressForms(address) },
+          { label: "Rede", forms: addressForms(network.split("/")[0]) },
+        ],
+      };
+    }
+  }
+};
+
+/**
+ * Aritmética de endereços: soma e subtração de N posições, distância entre
+ * endereços, N-ésimo host de uma rede e posição de um endereço na sua sub-rede
+ */
+const AritmeticaEnderecos = () => {
+  const [operation, setOperation] = useState<Operation>("add");
+  const [first, setFirst] = useState("");
+  const [second, setSecond] = useState("");
+  const [result, setResult] = useState<ArithmeticResult | null>(null);
+  const { toast } = useToast();
+
+  const fields = FIELDS[operation];
+
+  const handleCalculate = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setResult(runOperation(operation, first, second));
+    } catch (error) {
+      setResult(null);
+      toast({
+        title: "Erro no cálculo",
+        description: error instanceof Error ? error.message : "Não foi possível realizar a operação",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeOperation = (value: Operation) => {
+    setOperation(value);
+    setResult(null);
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <Sigma className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Aritmética de Endereços</h1>
+        <p className="text-lg text-muted-foreground">
+          Some posições, meça distâncias e localize hosts por deslocamento
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleCalculate} aria-label="Formulário de aritmética de endereços">
+        <div className="space-y-2">
+          <Label>Operação</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={operation}
+            onValueChange={(value) => value && changeOperation(value as Operation)}
+            className="flex-wrap justify-start"
+            aria-label="Operação"
+          >
+            <ToggleGroupItem value="add">Somar / subtrair</ToggleGroupItem>
+            <ToggleGroupItem value="distance">Distância</ToggleGroupItem>
+            <ToggleGroupItem value="nthHost">Nº host da rede</ToggleGroupItem>
+            <ToggleGroupItem value="offset">Posição na sub-rede</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="flex flex-col gap-4 sm:flex-row">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="arithmetic-first">{fields.first.label}</Label>
+            <Input
+              id="arithmetic-first"
+              type="text"
+              autoComplete="off"
+              placeholder={fields.first.placeholder}
+              value={first}
+              onChange={(e) => setFirst(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+          {fields.second && (
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="arithmetic-second">{fields.second.label}</Label>
+              <Input
+                id="arithmetic-second"
+                type="text"
+                autoComplete="off"
+                placeholder={fields.second.placeholder}
+                value={second}
+                onChange={(e) => setSecond(e.target.value)}
+                className="font-mono shadow-sm dark:shadow-none"
+              />
+            </div>
+          )}
+        </div>
+
+        <Button
+          type="submit"
+          size="lg"
+          className="w-full"
+          disabled={!first.trim() || (fields.second !== null && !second.trim())}
+        >
+          <Sigma className="mr-2 h-4 w-4" aria-hidden="true" />
+          Calcular
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {result && (
+          <Card className="mt-8 space-y-4 p-6 shadow-sm dark:shadow-none">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="font-mono text-xl font-semibold">{result.summary}</h2>
+              {result.details.map(detail => (
+                <Badge key={detail} variant="outline">
+                  {detail}
+                </Badge>
+              ))}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead>Decimal pontuado</TableHead>
+                  <TableHead className="text-right">Inteiro</TableHead>
+                  <TableHead>Binário</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.addresses.map(({ label, forms }) => (
+                  <TableRow key={label}>
+                    <TableCell className="font-medium">{label}</TableCell>
+                    <TableCell className="font-mono">{forms.dotted}</TableCell>
+                    <TableCell className="text-right font-mono">{forms.integer}</TableCell>
+                    <TableCell className="font-mono text-xs">{forms.binary}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AritmeticaEnderecos;
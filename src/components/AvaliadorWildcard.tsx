@@ -0,0 +1,312 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Filter } from "lucide-react";
+import { PaginacaoTabela } from "./PaginacaoTabela";
+import {
+  describeWildcard,
+  ipToBinary,
+  iterateWildcardMatches,
+  matchesWildcard,
+  splitEntries,
+  type WildcardPattern,
+} from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+/** Quantidade de endereços casados exibidos por página */
+const PAGE_SIZE = 16;
+
+/** Quantidade de valores de exemplo listados por octeto */
+const SAMPLE_VALUES = 6;
+
+type TestedAddress = {
+  ip: string;
+  binary: string;
+  matches: boolean;
+};
+
+type Evaluation = {
+  rule: WildcardPattern;
+  tested: TestedAddress[];
+};
+
+/**
+ * Valores de 0 a 255 aceitos em um octeto, dado o trecho do padrão de bits
+ * @param octetPattern - 8 caracteres '0', '1' ou 'x'
+ */
+const acceptedOctetValues = (octetPattern: string): number[] => {
+  const values: number[] = [];
+  for (let value = 0; value < 256; value++) {
+    const bits = value.toString(2).padStart(8, "0");
+    if ([...octetPattern].every((bit, i) => bit === "x" || bit === bits[i])) {
+      values.push(value);
+    }
+  }
+  return values;
+};
+
+/**
+ * Sequência de bits em fonte monoespaçada com destaque por posição
+ */
+const BitString = ({ bits, className }: { bits: string; className: (bit: string, index: number) => string }) => (
+  <code className="font-mono text-sm tracking-wider">
+    {[...bits].map((bit, index) => (
+      <span key={index} className={className(bit, index)}>
+        {bit}
+      </span>
+    ))}
+  </code>
+);
+
+/**
+ * Avaliador de wildcards de ACL: mostra o padrão de bits de um par
+ * endereço/wildcard (contíguo ou não), testa endereços contra ele e lista
+ * o conjunto de endereços casados
+ */
+const AvaliadorWildcard = () => {
+  const [address, setAddress] = useState("");
+  const [wildcard, setWildcard] = useState("");
+  const [tests, setTests] = useState("");
+  const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
+  const [page, setPage] = useState(0);
+  const { toast } = useToast();
+
+  const handleEvaluate = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const rule = describeWildcard(address.trim(), wildcard.trim());
+      const tested = splitEntries(tests).map(ip => ({
+        ip,
+        binary: ipToBinary(ip),
+        matches: matchesWildcard(rule.address, rule.wildcard, ip),
+      }));
+      setEvaluation({ rule, tested });
+      setPage(0);
+    } catch (error) {
+      setEvaluation(null);
+      toast({
+        title: "Erro na avaliação",
+        description: error instanceof Error ? error.message : "Não foi possível avaliar a wildcard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const rule = evaluation?.rule;
+  const pageCount = rule ? Math.ceil(rule.matchCount / PAGE_SIZE) : 0;
+  const matches = rule
+    ? Array.from(iterateWildcardMatches(rule.address, rule.wildcard, page * PAGE_SIZE, (page + 1) * PAGE_SIZE))
+    : [];
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <Filter className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Avaliador de Wildcard</h1>
+        <p className="text-lg text-muted-foreground">
+          Entenda quais endereços uma regra de ACL ou OSPF seleciona, inclusive com wildcards não contíguas
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleEvaluate} aria-label="Formulário de avaliação de wildcard">
+        <div className="flex flex-col gap-4 sm:flex-row">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="wildcard-address">Endereço</Label>
+            <Input
+              id="wildcard-address"
+              type="text"
+              autoComplete="off"
+              placeholder="Ex: 10.0.0.0"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="wildcard-mask">Wildcard</Label>
+            <Input
+              id="wildcard-mask"
+              type="text"
+              autoComplete="off"
+              placeholder="Ex: 0.0.254.255"
+              value={wildcard}
+              onChange={(e) => setWildcard(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="wildcard-tests">Endereços para testar (opcional)</Label>
+          <Textarea
+            id="wildcard-tests"
+            rows={4}
+            placeholder={"Um endereço por linha, ex:\n10.0.4.9\n10.0.5.9"}
+            value={tests}
+            onChange={(e) => setTests(e.target.value)}
+            className="font-mono shadow-sm dark:shadow-none"
+          />
+        </div>
+
+        <Button type="submit" size="lg" className="w-full" disabled={!address.trim() || !wildcard.trim()}>
+          <Filter className="mr-2 h-4 w-4" aria-hidden="true" />
+          Avaliar
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {evaluation && rule && (
+          <Card className="mt-8 space-y-6 p-6 shadow-sm dark:shadow-none">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="font-mono text-xl font-semibold">
+                {rule.address} {rule.wildcard}
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{rule.matchCount} endereços</Badge>
+                <Badge variant="outline">{rule.freeBits} bits livres</Badge>
+                {rule.prefix ? (
+                  <Badge variant="outline" className="bg-success/20 text-success">
+                    Equivale a {rule.prefix}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="bg-warning/20 text-warning">
+                    Wildcard não contígua
+                  </Badge>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium text-foreground">Padrão de bits</h3>
+              <p className="text-sm text-muted-foreground">
+                Bits marcados com x podem ter qualquer valor; os demais precisam coincidir com o endereço.
+              </p>
+              <Table>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="font-medium">Endereço</TableCell>
+                    <TableCell>
+                      <BitString bits={ipToBinary(rule.address)} className={() => ""} />
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                  <TableRow>
+                    <TableCell className="font-medium">Wildcard</TableCell>
+                    <TableCell>
+                      <BitString bits={ipToBinary(rule.wildcard)} className={() => ""} />
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                  <TableRow>
+                    <TableCell className="font-medium">Padrão</TableCell>
+                    <TableCell>
+                      <BitString
+                        bits={rule.pattern}
+                        className={(bit) => (bit === "x" ? "text-muted-foreground" : "font-semibold text-primary")}
+                      />
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                  {evaluation.tested.map(test => (
+                    <TableRow key={test.ip}>
+                      <TableCell className="font-mono">{test.ip}</TableCell>
+                      <TableCell>
+                        <BitString
+                          bits={test.binary}
+                          className={(bit, index) =>
+                            rule.pattern[index] !== "x" && rule.pattern[index] !== bit
+                              ? "rounded-sm bg-destructive/20 text-destructive"
+                              : ""
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge
+                          variant="outline"
+                          className={test.matches ? "bg-success/20 text-success" : "bg-destructive/20 text-destructive"}
+                        >
+                          {test.matches ? "Casa" : "Não casa"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium text-foreground">Valores aceitos por octeto</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Octeto</TableHead>
+                    <TableHead>Padrão</TableHead>
+                    <TableHead className="text-right">Valores</TableHead>
+                    <TableHead>Exemplos</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rule.pattern.split(".").map((octetPattern, index) => {
+                    const values = acceptedOctetValues(octetPattern);
+                    return (
+                      <TableRow key={index}>
+                        <TableCell>{index + 1}º</TableCell>
+                        <TableCell className="font-mono">{octetPattern}</TableCell>
+                        <TableCell className="text-right">{values.length}</TableCell>
+                        <TableCell className="font-mono">
+                          {values.length === 256
+                            ? "qualquer valor"
+                            : values.slice(0, SAMPLE_VALUES).join(", ") + (values.length > SAMPLE_VALUES ? ", …" : "")}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium text-foreground">Endereços casados</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Endereço</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {matches.map((match, index) => (
+                    <TableRow key={match}>
+                      <TableCell>{page * PAGE_SIZE + index + 1}</TableCell>
+                      <TableCell className="font-mono">{match}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <PaginacaoTabela page={page} pageCount={pageCount} onPageChange={setPage} />
+            </div>
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AvaliadorWildcard;
@@ -0,0 +1,45 @@
+import { Button } from "@/components/ui/button";
+import { Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface BlocoCopiavelProps {
+  /** Título do bloco, também usado no rótulo do botão e no aviso de cópia */
+  title: string;
+  /** Texto exibido e copiado (registros de zona, arquivos de configuração) */
+  text: string;
+}
+
+/**
+ * Bloco de texto pré-formatado com botão para copiar o conteúdo inteiro
+ */
+export const BlocoCopiavel = ({ title, text }: BlocoCopiavelProps) => {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copiado!",
+        description: `${title} copiado para a área de transferência`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao copiar",
+        description: "Não foi possível copiar para a área de transferência",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-muted/30 p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-sm font-medium text-muted-foreground">{title}</span>
+        <Button variant="outline" size="sm" onClick={copy} className="h-6 w-6 p-0" aria-label={`Copiar ${title}`}>
+          <Copy className="h-3 w-3" />
+        </Button>
+      </div>
+      <pre className="max-h-64 overflow-auto text-xs font-mono text-foreground">{text}</pre>
+    </div>
+  );
+};
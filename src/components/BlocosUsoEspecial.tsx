@@ -0,0 +1,47 @@
+import { Badge } from "@/components/ui/badge";
+import type { SpecialPurposeBlock } from "@/lib/special-purpose";
+
+/**
+ * Rótulos dos atributos do registro de uso especial exibidos como badges
+ */
+const SPECIAL_PURPOSE_ATTRIBUTES = [
+  { key: "forwardable", label: "Encaminhável" },
+  { key: "globallyReachable", label: "Alcançável globalmente" },
+  { key: "source", label: "Origem" },
+  { key: "destination", label: "Destino" },
+  { key: "reservedByProtocol", label: "Reservado pelo protocolo" },
+] as const;
+
+interface BlocosUsoEspecialProps {
+  /** Blocos do registro que contêm o endereço, do mais específico para o mais geral */
+  blocks: SpecialPurposeBlock[];
+}
+
+/**
+ * Lista os blocos de uso especial de um endereço (IPv4 ou IPv6), com os
+ * atributos definidos pelo registro
+ */
+export const BlocosUsoEspecial = ({ blocks }: BlocosUsoEspecialProps) => (
+  <>
+    {blocks.map(block => (
+      <div key={block.prefix} className="space-y-1.5">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge>{block.name}</Badge>
+          <span className="font-mono text-xs text-muted-foreground">{block.prefix}</span>
+          <Badge variant="outline">{block.rfc}</Badge>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {SPECIAL_PURPOSE_ATTRIBUTES.filter(({ key }) => block[key] !== null).map(({ key, label }) => (
+            <Badge
+              key={key}
+              variant="outline"
+              className={block[key] ? "bg-success/20 text-success" : "bg-destructive/10 text-destructive"}
+            >
+              {label}: {block[key] ? "sim" : "não"}
+            </Badge>
+          ))}
+        </div>
+      </div>
+    ))}
+  </>
+);
@@ -0,0 +1,210 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PackageOpen } from "lucide-react";
+import {
+  findFirstFreeBlock,
+  findFreeSpace,
+  splitEntries,
+  type FreeBlockSearch,
+  type FreeSpaceReport,
+} from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+type FreeSpaceResult = {
+  report: FreeSpaceReport;
+  /** Busca do primeiro bloco livre, quando um tamanho foi informado */
+  search: (FreeBlockSearch & { length: number }) | null;
+};
+
+/**
+ * Busca de espaço livre: dado um bloco pai e as sub-redes já alocadas,
+ * mostra o restante como blocos CIDR e onde cabe o próximo bloco de um tamanho
+ */
+const BuscaEspacoLivre = () => {
+  const [parent, setParent] = useState("");
+  const [allocations, setAllocations] = useState("");
+  const [wanted, setWanted] = useState("");
+  const [result, setResult] = useState<FreeSpaceResult | null>(null);
+  const { toast } = useToast();
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const entries = splitEntries(allocations);
+      const report = findFreeSpace(parent, entries);
+
+      let search: FreeSpaceResult["search"] = null;
+      if (wanted.trim()) {
+        const length = Number(wanted.trim().replace(/^\//, ""));
+        search = { ...findFirstFreeBlock(parent, entries, length), length };
+      }
+      setResult({ report, search });
+    } catch (error) {
+      setResult(null);
+      toast({
+        title: "Erro na busca",
+        description: error instanceof Error ? error.message : "Não foi possível calcular o espaço livre",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const report = result?.report;
+  const parentSize = report ? report.freeAddresses + report.allocatedAddresses : 0;
+  const usedPercent = parentSize ? (report.allocatedAddresses / parentSize) * 100 : 0;
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <PackageOpen className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Espaço Livre</h1>
+        <p className="text-lg text-muted-foreground">
+          Descubra o que sobra de um bloco e onde cabe a próxima sub-rede
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleSearch} aria-label="Formulário de busca de espaço livre">
+        <div className="flex flex-col gap-4 sm:flex-row">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="free-parent">Bloco pai</Label>
+            <Input
+              id="free-parent"
+              type="text"
+              autoComplete="off"
+              placeholder="Ex: 10.0.0.0/22"
+              value={parent}
+              onChange={(e) => setParent(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="free-wanted">Procurar bloco livre (opcional)</Label>
+            <Input
+              id="free-wanted"
+              type="text"
+              autoComplete="off"
+              placeholder="Ex: /26"
+              value={wanted}
+              onChange={(e) => setWanted(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none sm:w-48"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="free-allocations">Sub-redes já alocadas</Label>
+          <Textarea
+            id="free-allocations"
+            rows={6}
+            placeholder={"Ex:\n10.0.0.0/24\n10.0.1.0/26\n10.0.1.128/25"}
+            value={allocations}
+            onChange={(e) => setAllocations(e.target.value)}
+            className="font-mono shadow-sm dark:shadow-none"
+          />
+        </div>
+
+        <Button type="submit" size="lg" className="w-full" disabled={!parent.trim()}>
+          <PackageOpen className="mr-2 h-4 w-4" aria-hidden="true" />
+          Calcular Espaço Livre
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {result && report && (
+          <Card className="mt-8 space-y-6 p-6 shadow-sm dark:shadow-none">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="font-mono text-xl font-semibold">{report.parent}</h2>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="bg-success/20 text-success">
+                  {report.freeAddresses} endereços livres
+                </Badge>
+                <Badge variant="outline">{report.allocatedAddresses} alocados</Badge>
+              </div>
+            </div>
+
+            <div
+              className="h-2 overflow-hidden rounded-full bg-success/20"
+              role="progressbar"
+              aria-label="Ocupação do bloco pai"
+              aria-valuenow={Math.round(usedPercent)}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div className="h-full bg-primary" style={{ width: `${usedPercent}%` }} />
+            </div>
+
+            {result.search && (
+              <div className="rounded-lg border border-border/50 bg-muted/30 p-4">
+                {result.search.prefix ? (
+                  <p>
+                    Primeira /{result.search.length} livre:{" "}
+                    <span className="font-mono font-semibold text-primary">{result.search.prefix}</span>
+                    <span className="text-muted-foreground">
+                      {" "}
+                      ({result.search.available} {result.search.available === 1 ? "bloco cabe" : "blocos cabem"} no
+                      espaço livre)
+                    </span>
+                  </p>
+                ) : (
+                  <p className="text-destructive">
+                    Não há /{result.search.length} livre e alinhada em {report.parent}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {report.nested.length > 0 && (
+              <p className="text-sm text-warning">
+                Alocações contidas em outras da lista: <span className="font-mono">{report.nested.join(", ")}</span>
+              </p>
+            )}
+
+            {report.freeBlocks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">O bloco pai está totalmente alocado.</p>
+            ) : (
+              <div className="space-y-2">
+                <h3 className="text-lg font-medium text-foreground">Blocos livres</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Bloco</TableHead>
+                      <TableHead className="text-right">Endereços</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.freeBlocks.map(block => (
+                      <TableRow key={block}>
+                        <TableCell className="font-mono">{block}</TableCell>
+                        <TableCell className="text-right">{2 ** (32 - Number(block.split("/")[1]))}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default BuscaEspacoLivre;
@@ -1,47 +1,122 @@
-import { useState, type KeyboardEvent, useEffect } from "react";
+import { useState, type KeyboardEvent, useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Calculator, Network, Info, History } from "lucide-react";
 import ResultadosSubrede from "./ResultadosSubrede";
+import ResultadosIntervalo from "./ResultadosIntervalo";
+import ResultadosIPv6 from "./ResultadosIPv6";
 import { QuickExamples } from "./QuickExamples";
 import { HistoricoCalculos } from "./HistoricoCalculos";
 import { TrocaTema } from "./TrocaTema";
-import { calculateSubnet, validateIP, validateSubnetMask } from "@/lib/subnet-utils";
+import { DiagnosticoCampo } from "./DiagnosticoCampo";
+import {
+  calculateIPv6Subnet,
+  calculateSubnet,
+  detectAddressFamily,
+  maskToCidr,
+  parseAddressInput,
+  parseAddressRange,
+  parseIPv6Input,
+  parseIPv6PrefixLength,
+  rangeToCidrs,
+  SubnetError,
+  type AddressRange,
+  type IPv6SubnetInfo,
+  type ParsedAddressInput,
+  type SubnetErrorCode,
+  type SubnetInfo,
+} from "@/lib/subnet-utils";
 import { useToast } from "@/hooks/use-toast";
 import { useHistoricoCalculos } from "@/hooks/useHistoricoCalculos";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
-export interface SubnetInfo {
-  networkAddress: string;
-  broadcastAddress: string;
-  firstHost: string;
-  lastHost: string;
-  totalHosts: number;
-  usableHosts: number;
-  subnetMask: string;
-  wildcardMask: string;
-  binaryIP: string;
-  binaryMask: string;
-}
+// Reexportado para manter os imports existentes a partir deste componente
+export type { SubnetInfo };
 
 type SubnetMask = `/${number}` | string;
 
+/** Modo de entrada: IP + máscara ou intervalo arbitrário de endereços */
+type CalculatorMode = "subnet" | "range";
+
+type RangeResult = {
+  range: AddressRange;
+  cidrs: string[];
+};
+
 type FormTouched = {
   ip: boolean;
   mask: boolean;
 };
 
 interface SubnetCalculatorState {
+  mode: CalculatorMode;
   ipAddress: string;
   subnetMask: SubnetMask;
   results: SubnetInfo | null;
+  /** Endereço usado no cálculo exibido (o campo de IP pode ter sido editado depois) */
+  resultAddress: string;
+  ipv6Results: IPv6SubnetInfo | null;
+  rangeResult: RangeResult | null;
   isCalculating: boolean;
   isTouched: FormTouched;
   showHistory: boolean;
 }
 
+/** Resultado da validação de um campo: valor interpretado ou diagnóstico do erro */
+type FieldValidation<T> = { value: T; error: null } | { value: null; error: SubnetError };
+
+/**
+ * Executa a interpretação de um campo, capturando o diagnóstico em vez de lançar
+ */
+const validateField = <T,>(parse: () => T): FieldValidation<T> => {
+  try {
+    return { value: parse(), error: null };
+  } catch (error) {
+    if (error instanceof SubnetError) return { value: null, error };
+    throw error;
+  }
+};
+
+/**
+ * Interpreta o campo de IP: endereço em qualquer notação aceita, com máscara opcional
+ * (ex: '10.20.30.40/27', '10.20.30.40 255.255.255.224', '0x0A141E28', '2001:db8::1/64').
+ * A família é detectada pelo próprio texto.
+ */
+const validateAddressInput = (text: string): FieldValidation<ParsedAddressInput> =>
+  validateField(() => (detectAddressFamily(text) === "ipv6" ? parseIPv6Input(text) : parseAddressInput(text)));
+
+/** Prefixo usado para um IPv6 digitado sem "/comprimento": o tamanho de uma sub-rede IPv6 */
+const DEFAULT_IPV6_PREFIX = "/64";
+
+/** Códigos de erro que se referem ao endereço (os demais de validação se referem à máscara) */
+const ADDRESS_ERROR_CODES: SubnetErrorCode[] = [
+  "INVALID_IP",
+  "INVALID_IP_OCTET",
+  "INVALID_IPV6",
+  "AMBIGUOUS_LEADING_ZERO",
+];
+
+/** Códigos de erro que se referem à máscara */
+const MASK_ERROR_CODES: SubnetErrorCode[] = [
+  "INVALID_MASK",
+  "INVALID_MASK_OCTET",
+  "PREFIX_LENGTH_OUT_OF_RANGE",
+  "NON_CONTIGUOUS_MASK",
+];
+
+/**
+ * Título do aviso de erro de acordo com o código
+ */
+const errorTitle = (error: SubnetError): string => {
+  if (ADDRESS_ERROR_CODES.includes(error.code)) return "Endereço IP inválido";
+  if (MASK_ERROR_CODES.includes(error.code)) return "Máscara de sub-rede inválida";
+  return "Erro no cálculo";
+};
+
 /**
  * Componente principal da calculadora de sub-redes
  * Permite ao usuário inserir um endereço IP e uma máscara de sub-rede
@@ -50,22 +125,32 @@ interface SubnetCalculatorState {
 const CalculadoraSubrede = () => {
   // Estados do componente
   const [state, setState] = useState<Omit<SubnetCalculatorState, 'showHistory'>>({
+    mode: "subnet",
     ipAddress: "",
     subnetMask: "/24", // Valor padrão para facilitar o usuário
     results: null,
+    resultAddress: "",
+    ipv6Results: null,
+    rangeResult: null,
     isCalculating: false,
     isTouched: { ip: false, mask: false },
   });
   
   const [showHistory, setShowHistory] = useState(false);
+  // Marcado ao navegar para um bloco vizinho, cujo resultado já vem calculado junto com os campos
+  const keepResults = useRef(false);
   
   // Desestruturação para facilitar o uso
-  const { ipAddress, subnetMask, results, isCalculating, isTouched } = state;
+  const { mode, ipAddress, subnetMask, results, resultAddress, ipv6Results, rangeResult, isCalculating, isTouched } = state;
   
   // Atualizadores de estado tipados
   const setIpAddress = (value: string) => setState(prev => ({ ...prev, ipAddress: value }));
   const setSubnetMask = (value: SubnetMask) => setState(prev => ({ ...prev, subnetMask: value }));
   const setResults = (value: SubnetInfo | null) => setState(prev => ({ ...prev, results: value }));
+  const setIpv6Results = (value: IPv6SubnetInfo | null) => setState(prev => ({ ...prev, ipv6Results: value }));
+  const setRangeResult = (value: RangeResult | null) => setState(prev => ({ ...prev, rangeResult: value }));
+  const setMode = (value: CalculatorMode) =>
+    setState(prev => ({ ...prev, mode: value, ipAddress: "", isTouched: { ip: false, mask: false } }));
   const setIsCalculating = (value: boolean) => setState(prev => ({ ...prev, isCalculating: value }));
   const setIsTouched = (value: FormTouched | ((prev: FormTouched) => FormTouched)) => 
     setState(prev => ({
@@ -75,21 +160,79 @@ const CalculadoraSubrede = () => {
   const { toast } = useToast();
   const { history, addToHistory, clearHistory } = useHistoricoCalculos();
 
-  // Validações
-  const isValidIP = ipAddress === "" || validateIP(ipAddress.trim());
-  const isValidMask = subnetMask === "" || validateSubnetMask(subnetMask.trim());
+  // Validações (no modo intervalo, o campo de IP recebe o intervalo e a máscara não é usada)
+  const isRangeMode = mode === "range";
+  // A família vem do próprio endereço digitado; o modo intervalo é só IPv4
+  const isIPv6 = !isRangeMode && detectAddressFamily(ipAddress) === "ipv6";
+  const addressValidation = isRangeMode || ipAddress === "" ? null : validateAddressInput(ipAddress);
+  const parsedInput = addressValidation?.value ?? null;
+  const ipDiagnostic =
+    ipAddress === ""
+      ? null
+      : isRangeMode
+        ? validateField(() => parseAddressRange(ipAddress)).error
+        : addressValidation?.error ?? null;
+  const isValidIP = ipDiagnostic === null;
+  // Uma máscara digitada junto ao IP (ex: 10.0.0.1/24) tem precedência sobre o campo de máscara.
+  // O campo de máscara é só do IPv4: o prefixo IPv6 vem do próprio endereço, ou é /64
+  const effectiveMask = parsedInput?.mask ?? (isIPv6 ? DEFAULT_IPV6_PREFIX : subnetMask);
+  // Máscara IPv4 ainda no campo de IP: o campo de máscara a exibe até ela ser separada
+  const typedMask = isIPv6 ? null : parsedInput?.mask ?? null;
+  const maskDiagnostic =
+    isRangeMode || effectiveMask === ""
+      ? null
+      : validateField(() => (isIPv6 ? parseIPv6PrefixLength(effectiveMask) : maskToCidr(effectiveMask.trim()))).error;
+  const isValidMask = maskDiagnostic === null;
   
   // Efeito para limpar resultados quando os inputs são alterados
   useEffect(() => {
+    if (keepResults.current) {
+      keepResults.current = false;
+      return;
+    }
     if (ipAddress || subnetMask) {
       setResults(null);
+      setIpv6Results(null);
+      setRangeResult(null);
+    }
+  }, [ipAddress, subnetMask, mode]);
+
+  /**
+   * Converte o intervalo informado na lista mínima de blocos CIDR
+   */
+  const handleRangeCalculate = () => {
+    setIsTouched({ ip: true, mask: false });
+
+    if (!ipAddress.trim()) {
+      toast({
+        title: "Campo obrigatório",
+        description: "Por favor, insira um intervalo de endereços",
+        variant: "destructive",
+      });
+      return;
     }
-  }, [ipAddress, subnetMask]);
+
+    try {
+      const range = parseAddressRange(ipAddress);
+      setRangeResult({ range, cidrs: rangeToCidrs(range.start, range.end) });
+    } catch (error) {
+      toast({
+        title: "Intervalo inválido",
+        description: error instanceof Error ? error.message : "Não foi possível converter o intervalo",
+        variant: "destructive",
+      });
+    }
+  };
 
   /**
    * Manipula o cálculo da sub-rede quando o usuário clica no botão ou pressiona Enter
    */
   const handleCalculate = async () => {
+    if (isRangeMode) {
+      handleRangeCalculate();
+      return;
+    }
+
     setIsTouched({ ip: true, mask: true });
     
     // Validação dos campos
@@ -102,7 +245,7 @@ const CalculadoraSubrede = () => {
       return;
     }
 
-    if (!subnetMask.trim()) {
+    if (!effectiveMask.trim()) {
       toast({
         title: "Campo obrigatório",
         description: "Por favor, insira uma máscara de sub-rede",
@@ -111,21 +254,12 @@ const CalculadoraSubrede = () => {
       return;
     }
     
-    // Validação do formato do IP
-    if (!isValidIP) {
+    // Validação do IP e da máscara, com o diagnóstico preciso de cada campo
+    const diagnostic = ipDiagnostic ?? maskDiagnostic;
+    if (diagnostic) {
       toast({
-        title: "Endereço IP inválido",
-        description: "O endereço IP informado não é válido. Use o formato xxx.xxx.xxx.xxx",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    // Validação do formato da máscara
-    if (!isValidMask) {
-      toast({
-        title: "Máscara de sub-rede inválida",
-        description: "A máscara de sub-rede informada não é válida. Use o formato /xx ou xxx.xxx.xxx.xxx",
+        title: errorTitle(diagnostic),
+        description: diagnostic.message,
         variant: "destructive",
       });
       return;
@@ -134,11 +268,16 @@ const CalculadoraSubrede = () => {
     setIsCalculating(true);
     
     try {
-      const result = calculateSubnet(ipAddress.trim(), subnetMask.trim());
-      setResults(result);
-      
-      // Adiciona ao histórico
-      addToHistory(ipAddress.trim(), subnetMask.trim(), result);
+      if (isIPv6) {
+        // Sem histórico: ele é salvo em JSON, que não representa as contagens em BigInt
+        setIpv6Results(calculateIPv6Subnet(parsedInput.address, effectiveMask.trim()));
+      } else {
+        const result = calculateSubnet(parsedInput.address, effectiveMask.trim());
+        setState(prev => ({ ...prev, results: result, resultAddress: parsedInput.address }));
+
+        // Adiciona ao histórico
+        addToHistory(parsedInput.address, effectiveMask.trim(), result);
+      }
       
       // Rola até os resultados quando disponíveis
       setTimeout(() => {
@@ -156,24 +295,10 @@ const CalculadoraSubrede = () => {
     } catch (error) {
       console.error('Erro ao calcular sub-rede:', error);
       
-      let errorMessage = "Ocorreu um erro ao calcular a sub-rede";
-      
-      if (error instanceof Error) {
-        // Mensagens de erro mais amigáveis para o usuário
-        if (error.message.includes('Endereço IP inválido')) {
-          errorMessage = "O endereço IP informado não é válido. Verifique o formato e tente novamente.";
-        } else if (error.message.includes('Máscara de sub-rede inválida')) {
-          errorMessage = "A máscara de sub-rede informada não é válida. Use o formato /xx ou xxx.xxx.xxx.xxx";
-        } else if (error.message.includes('fora do intervalo')) {
-          errorMessage = "O endereço IP está fora do intervalo permitido para a máscara de sub-rede informada.";
-        } else {
-          errorMessage = error.message;
-        }
-      }
-      
+      // O código do erro define o título; a mensagem já traz o diagnóstico
       toast({
-        title: "Erro no cálculo",
-        description: errorMessage,
+        title: error instanceof SubnetError ? errorTitle(error) : "Erro no cálculo",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao calcular a sub-rede",
         variant: "destructive",
       });
     } finally {
@@ -181,7 +306,28 @@ const CalculadoraSubrede = () => {
     }
   };
 
+  /**
+   * Distribui IP e máscara informados juntos (ex: '10.0.0.1/24') nos seus campos.
+   * O prefixo IPv6 fica no próprio campo de IP.
+   * @returns Se o texto trazia uma máscara IPv4
+   */
+  const splitAddressInput = (text: string): boolean => {
+    if (isRangeMode || detectAddressFamily(text) === "ipv6") return false;
+    const parsed = validateAddressInput(text).value;
+    if (!parsed?.mask) return false;
+
+    setState(prev => ({
+      ...prev,
+      ipAddress: parsed.address,
+      subnetMask: parsed.mask,
+      isTouched: { ip: true, mask: true },
+    }));
+    return true;
+  };
+
   const handleExampleSelect = (mask: string) => {
+    // Uma máscara ainda no campo de IP teria precedência sobre o exemplo
+    if (typedMask) setIpAddress(parsedInput.address);
     setSubnetMask(mask);
     setIsTouched(prev => ({ ...prev, mask: true }));
     // Foca no campo de IP após selecionar um exemplo
@@ -198,10 +344,31 @@ const CalculadoraSubrede = () => {
     }, 100);
   };
 
+  /**
+   * Recalcula para um bloco escolhido na vizinhança da rede atual
+   * @param network - Bloco em notação CIDR (ex: '192.168.1.128/26')
+   */
+  const handleNetworkSelect = (network: string) => {
+    const [address, length] = network.split("/");
+    const mask = `/${length}`;
+    const result = calculateSubnet(address, mask);
+
+    keepResults.current = true;
+    setState(prev => ({
+      ...prev,
+      ipAddress: address,
+      subnetMask: mask,
+      results: result,
+      resultAddress: address,
+      isTouched: { ip: true, mask: true },
+    }));
+    addToHistory(address, mask, result);
+  };
+
   const ipError = ipAddress && !isValidIP ? "Endereço IP inválido" : "";
   const maskError = subnetMask && !isValidMask ? "Máscara inválida (use /CIDR ou decimal válida)" : "";
 
-  const canCalculate = Boolean(ipAddress && subnetMask && isValidIP && isValidMask && !isCalculating);
+  const canCalculate = Boolean(ipAddress && (isRangeMode || effectiveMask) && isValidIP && isValidMask && !isCalculating);
 
   const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" && canCalculate) {
@@ -214,13 +381,15 @@ const CalculadoraSubrede = () => {
     setIpAddress("");
     setSubnetMask("");
     setResults(null);
+    setIpv6Results(null);
+    setRangeResult(null);
   };
 
   return (
     <div 
       className="min-h-screen bg-background p-4 md:p-6"
       role="main"
-      aria-label="Calculadora de Sub-redes IPv4"
+      aria-label="Calculadora de Sub-redes IPv4 e IPv6"
     >
       <div className="mx-auto max-w-6xl relative">
         {/* Botões de controle */}
@@ -255,10 +424,10 @@ const CalculadoraSubrede = () => {
             </div>
           </div>
           <h1 className="mb-2 text-4xl font-bold text-foreground">
-            Calculadora de Sub-redes IPv4
+            Calculadora de Sub-redes IPv4 e IPv6
           </h1>
           <p className="text-lg text-muted-foreground">
-            Calcule informações detalhadas sobre sub-redes IPv4
+            Calcule informações detalhadas sobre sub-redes IPv4 e prefixos IPv6
           </p>
         </header>
 
@@ -273,10 +442,23 @@ const CalculadoraSubrede = () => {
           }}
           aria-label="Formulário de cálculo de sub-rede"
         >
+          {/* Modo de entrada */}
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as CalculatorMode)}
+            className="justify-start"
+            aria-label="Modo de entrada"
+          >
+            <ToggleGroupItem value="subnet">IP e máscara</ToggleGroupItem>
+            <ToggleGroupItem value="range">Intervalo de endereços</ToggleGroupItem>
+          </ToggleGroup>
+
           {/* Campo de Endereço IP */}
           <div className="space-y-2">
             <div className="flex items-center gap-2">
-              <Label htmlFor="ip">Endereço IP</Label>
+              <Label htmlFor="ip">{isRangeMode ? "Intervalo de Endereços" : "Endereço IP"}</Label>
               <Tooltip>
                 <TooltipTrigger 
                   type="button" 
@@ -286,22 +468,45 @@ const CalculadoraSubrede = () => {
                   <Info className="h-4 w-4 text-muted-foreground cursor-help" />
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>Digite um endereço IPv4 (ex: 192.168.1.1)</p>
+                  <p>
+                    {isRangeMode
+                      ? "Digite o primeiro e o último endereço (ex: 10.0.0.5 - 10.0.1.200)"
+                      : "Digite um endereço IPv4 (ex: 192.168.1.1) ou IPv6 (ex: 2001:db8::1), opcionalmente com a máscara (192.168.1.1/24, 2001:db8::1/64). O IPv4 também aceita inteiro, hexadecimal (0xC0A80101) e forma abreviada (10.1 = 10.0.0.1)"}
+                  </p>
                 </TooltipContent>
               </Tooltip>
+              {!isRangeMode && ipAddress.trim() && (
+                <Badge variant="outline" aria-live="polite">
+                  {isIPv6 ? "IPv6" : "IPv4"}
+                </Badge>
+              )}
             </div>
             <Input
               id="ip"
               name="ip-address"
               type="text"
-              inputMode="decimal"
+              inputMode="text"
               autoComplete="off"
-              placeholder="Ex: 192.168.1.1"
+              placeholder={isRangeMode ? "Ex: 10.0.0.5 - 10.0.1.200" : "Ex: 192.168.1.1/24 ou 2001:db8::1/64"}
               value={ipAddress}
               onChange={(e) => {
                 setIpAddress(e.target.value);
                 setIsTouched(prev => ({ ...prev, ip: true }));
               }}
+              onPaste={(e) => {
+                // Ao colar IP e máscara juntos, distribui cada parte no seu campo
+                if (splitAddressInput(e.clipboardData.getData("text"))) {
+                  e.preventDefault();
+                }
+              }}
+              onBlur={() => {
+                // Ao sair do campo, faz o mesmo com o que foi digitado; o resultado já
+                // calculado continua valendo, pois a máscara é a mesma
+                if (typedMask) {
+                  keepResults.current = true;
+                  splitAddressInput(ipAddress);
+                }
+              }}
               className={`shadow-sm dark:shadow-none ${!isValidIP && isTouched.ip ? "border-destructive focus-visible:ring-destructive" : ""}`}
               aria-invalid={!isValidIP && isTouched.ip}
               aria-describedby={!isValidIP && isTouched.ip ? "ip-error" : undefined}
@@ -311,65 +516,89 @@ const CalculadoraSubrede = () => {
                 }
               }}
             />
-            {!isValidIP && isTouched.ip && (
-              <p id="ip-error" className="text-sm text-destructive" role="alert">
-                Por favor, insira um endereço IP válido (ex: 192.168.1.1)
+            {ipDiagnostic && isTouched.ip && (
+              <DiagnosticoCampo
+                id="ip-error"
+                error={ipDiagnostic}
+                onApplySuggestion={(mask) => {
+                  // Máscara inválida digitada junto ao IP: troca só a parte da máscara
+                  setIpAddress(ipAddress.trim().split(/[\s/]/)[0]);
+                  setSubnetMask(mask);
+                }}
+                family={isIPv6 ? "ipv6" : "ipv4"}
+              />
+            )}
+            {isIPv6 && isValidIP && !parsedInput?.mask && (
+              <p className="text-xs text-muted-foreground">
+                Sem o comprimento (ex: 2001:db8::1/48), o prefixo usado é {DEFAULT_IPV6_PREFIX}
               </p>
             )}
           </div>
 
-          {/* Campo de Máscara de Sub-rede */}
-          <div className="space-y-2">
-            <div className="flex items-center gap-2">
-              <Label htmlFor="subnet">Máscara de Sub-rede</Label>
-              <Tooltip>
-                <TooltipTrigger 
-                  type="button" 
-                  className="focus:outline-none focus:ring-2 focus:ring-primary rounded-full"
-                  aria-label="Informações sobre o campo de máscara de sub-rede"
-                >
-                  <Info className="h-4 w-4 text-muted-foreground cursor-help" />
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Digite a máscara em formato CIDR (ex: /24) ou decimal (ex: 255.255.255.0)</p>
-                </TooltipContent>
-              </Tooltip>
-            </div>
-            <Input
-              id="subnet"
-              name="subnet-mask"
-              type="text"
-              inputMode="decimal"
-              autoComplete="off"
-              placeholder="Ex: /24 ou 255.255.255.0"
-              value={subnetMask}
-              onChange={(e) => {
-                setSubnetMask(e.target.value);
-                setIsTouched(prev => ({ ...prev, mask: true }));
-              }}
-              onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
-                if (e.key === 'Enter' && isValidIP && isValidMask) {
-                  handleCalculate();
+          {/* Campo de Máscara de Sub-rede (IPv4) */}
+          {!isRangeMode && !isIPv6 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="subnet">Máscara de Sub-rede</Label>
+                <Tooltip>
+                  <TooltipTrigger 
+                    type="button" 
+                    className="focus:outline-none focus:ring-2 focus:ring-primary rounded-full"
+                    aria-label="Informações sobre o campo de máscara de sub-rede"
+                  >
+                    <Info className="h-4 w-4 text-muted-foreground cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Digite a máscara em formato CIDR (ex: /24) ou decimal (ex: 255.255.255.0)</p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <Input
+                id="subnet"
+                name="subnet-mask"
+                type="text"
+                inputMode="decimal"
+                autoComplete="off"
+                placeholder="Ex: /24 ou 255.255.255.0"
+                value={typedMask ?? subnetMask}
+                disabled={Boolean(typedMask)}
+                onChange={(e) => {
+                  setSubnetMask(e.target.value);
+                  setIsTouched(prev => ({ ...prev, mask: true }));
+                }}
+                onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+                  if (e.key === 'Enter' && isValidIP && isValidMask) {
+                    handleCalculate();
+                  }
+                }}
+                className={`shadow-sm dark:shadow-none ${!isValidMask && isTouched.mask ? "border-destructive focus-visible:ring-destructive" : ""}`}
+                aria-invalid={!isValidMask && isTouched.mask}
+                aria-describedby={
+                  typedMask ? "mask-from-ip" : !isValidMask && isTouched.mask ? "mask-error" : undefined
                 }
-              }}
-              className={`shadow-sm dark:shadow-none ${!isValidMask && isTouched.mask ? "border-destructive focus-visible:ring-destructive" : ""}`}
-              aria-invalid={!isValidMask && isTouched.mask}
-              aria-describedby={!isValidMask && isTouched.mask ? "mask-error" : undefined}
-            />
-            {!isValidMask && isTouched.mask && (
-              <p id="mask-error" className="text-sm text-destructive" role="alert">
-                {subnetMask.startsWith('/') 
-                  ? 'CIDR deve estar entre /0 e /32' 
-                  : 'Máscara inválida. Use /24 ou 255.255.255.0'}
-              </p>
-            )}
-          </div>
+              />
+              {typedMask && (
+                <p id="mask-from-ip" className="text-xs text-muted-foreground">
+                  Máscara informada no campo de IP
+                </p>
+              )}
+              {maskDiagnostic && isTouched.mask && (
+                <DiagnosticoCampo
+                  id="mask-error"
+                  error={maskDiagnostic}
+                  onApplySuggestion={setSubnetMask}
+                />
+              )}
+            </div>
+          )}
 
-          {/* Exemplos Rápidos */}
-          <QuickExamples 
-            onSelect={handleExampleSelect} 
-            className="pt-1"
-          />
+          {/* Exemplos Rápidos (máscaras IPv4) */}
+          {!isRangeMode && !isIPv6 && (
+            <QuickExamples 
+              onSelect={handleExampleSelect} 
+              className="pt-1"
+            />
+          )}
           
           {/* Botão de Calcular */}
           <div className="pt-2">
@@ -400,7 +629,7 @@ const CalculadoraSubrede = () => {
               ) : (
                 <>
                   <Calculator className="mr-2 h-4 w-4" aria-hidden="true" />
-                  <span>Calcular Sub-rede</span>
+                  <span>{isRangeMode ? "Converter Intervalo" : "Calcular Sub-rede"}</span>
                   <span className="sr-only">Pressione Enter para calcular</span>
                 </>
               )}
@@ -424,7 +653,23 @@ const CalculadoraSubrede = () => {
           {results && (
             <div className="mt-8 animate-fade-in">
               <h2 className="sr-only">Resultados do cálculo da sub-rede</h2>
-              <ResultadosSubrede results={results} />
+              <ResultadosSubrede
+                results={results}
+                ipAddress={resultAddress}
+                onSelectNetwork={handleNetworkSelect}
+              />
+            </div>
+          )}
+          {ipv6Results && (
+            <div className="mt-8 animate-fade-in">
+              <h2 className="sr-only">Resultados do cálculo do prefixo IPv6</h2>
+              <ResultadosIPv6 results={ipv6Results} />
+            </div>
+          )}
+          {rangeResult && (
+            <div className="mt-8 animate-fade-in">
+              <h2 className="sr-only">Blocos CIDR do intervalo</h2>
+              <ResultadosIntervalo range={rangeResult.range} cidrs={rangeResult.cidrs} />
             </div>
           )}
         </section>
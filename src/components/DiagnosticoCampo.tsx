@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import { ipToBinary, type AddressFamily, type SubnetError } from "@/lib/subnet-utils";
+
+interface DiagnosticoCampoProps {
+  /** Id do elemento, referenciado pelo aria-describedby do campo */
+  id: string;
+  /** Erro retornado pela validação do campo */
+  error: SubnetError;
+  /** Aplica a máscara sugerida no campo de máscara */
+  onApplySuggestion?: (mask: string) => void;
+  /** Família do endereço digitado, que muda a dica dos erros de prefixo (padrão: IPv4) */
+  family?: AddressFamily;
+}
+
+/**
+ * Dica curta para cada código de erro; a mensagem completa do erro vem logo abaixo
+ */
+const HINTS: Partial<Record<SubnetError["code"], string>> = {
+  INVALID_IP: "Use o formato 192.168.1.1, opcionalmente com a máscara (192.168.1.1/24)",
+  INVALID_IP_OCTET: "Corrija o octeto destacado",
+  INVALID_IPV6: "Use o formato 2001:db8::1, opcionalmente com o prefixo (2001:db8::1/64)",
+  AMBIGUOUS_LEADING_ZERO: "Remova o zero à esquerda destacado ou use hexadecimal (0x)",
+  INVALID_MASK: "Use o formato /24 ou 255.255.255.0",
+  INVALID_MASK_OCTET: "Corrija o octeto destacado",
+  PREFIX_LENGTH_OUT_OF_RANGE: "O prefixo deve estar entre /0 e /32",
+  NON_CONTIGUOUS_MASK: "Os bits 1 da máscara precisam ser contíguos a partir da esquerda",
+};
+
+/**
+ * Dicas que mudam quando o endereço é IPv6, que só aceita o comprimento do prefixo
+ */
+const IPV6_HINTS: Partial<Record<SubnetError["code"], string>> = {
+  INVALID_MASK: "Use o comprimento do prefixo, ex: /64",
+  PREFIX_LENGTH_OUT_OF_RANGE: "O prefixo IPv6 deve estar entre /0 e /128",
+};
+
+/**
+ * Exibe o diagnóstico de um campo inválido: a dica do código de erro, o
+ * octeto ou bit problemático destacado e, para máscaras, a sugestão de correção
+ */
+export const DiagnosticoCampo = ({ id, error, onApplySuggestion, family = "ipv4" }: DiagnosticoCampoProps) => {
+  const { input, octetIndex, bitPosition, suggestion } = error.details;
+  const hint = (family === "ipv6" && IPV6_HINTS[error.code]) || HINTS[error.code];
+
+  // Na máscara não contígua, o bit é destacado na forma binária (com os pontos entre octetos)
+  const binary = bitPosition !== undefined && input ? ipToBinary(input) : null;
+  const bitIndex = bitPosition !== undefined ? bitPosition + Math.floor(bitPosition / 8) : -1;
+
+  return (
+    <div id={id} className="space-y-1 text-sm text-destructive" role="alert">
+      {hint && <p className="font-medium">{hint}</p>}
+      <p>{error.message}</p>
+
+      {binary ? (
+        <p className="font-mono text-muted-foreground" aria-hidden="true">
+          {binary.substring(0, bitIndex)}
+          <mark className="rounded-sm bg-destructive/20 px-0.5 text-destructive">{binary[bitIndex]}</mark>
+          {binary.substring(bitIndex + 1)}
+        </p>
+      ) : (
+        octetIndex !== undefined &&
+        input !== undefined && (
+          <p className="font-mono text-muted-foreground" aria-hidden="true">
+            {input.split(".").map((part, index) => (
+              <span key={index}>
+                {index > 0 && "."}
+                {index === octetIndex ? (
+                  <mark className="rounded-sm bg-destructive/20 px-0.5 text-destructive">{part || "␣"}</mark>
+                ) : (
+                  part
+                )}
+              </span>
+            ))}
+          </p>
+        )
+      )}
+
+      {suggestion && onApplySuggestion && (
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          className="h-auto p-0"
+          onClick={() => onApplySuggestion(suggestion.mask)}
+        >
+          Usar {suggestion.mask} (/{suggestion.prefixLength})
+        </Button>
+      )}
+    </div>
+  );
+};
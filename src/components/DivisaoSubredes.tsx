@@ -0,0 +1,170 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Split } from "lucide-react";
+import { PaginacaoTabela } from "./PaginacaoTabela";
+import { splitSubnet, type SubnetSplit } from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+/** Quantidade de sub-redes exibidas por página */
+const PAGE_SIZE = 16;
+
+type SplitMode = "subnetCount" | "newPrefix";
+
+/**
+ * Divisão de uma rede em N sub-redes de mesmo tamanho (FLSM)
+ * Lista cada sub-rede resultante em uma tabela paginada
+ */
+const DivisaoSubredes = () => {
+  const [network, setNetwork] = useState("");
+  const [mode, setMode] = useState<SplitMode>("subnetCount");
+  const [amount, setAmount] = useState("");
+  const [split, setSplit] = useState<SubnetSplit | null>(null);
+  const [page, setPage] = useState(0);
+  const { toast } = useToast();
+
+  const handleSplit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const value = Number(amount.trim().replace(/^\//, ""));
+    try {
+      const result = splitSubnet(
+        network.trim(),
+        mode === "newPrefix" ? { newPrefix: value } : { subnetCount: value }
+      );
+      setSplit(result);
+      setPage(0);
+    } catch (error) {
+      setSplit(null);
+      toast({
+        title: "Erro na divisão",
+        description: error instanceof Error ? error.message : "Não foi possível dividir a rede",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const pageCount = split ? Math.ceil(split.subnetCount / PAGE_SIZE) : 0;
+  const rows = split ? split.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE) : [];
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <Split className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Divisão de Rede (FLSM)</h1>
+        <p className="text-lg text-muted-foreground">
+          Divida uma rede em sub-redes de mesmo tamanho
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleSplit} aria-label="Formulário de divisão de rede">
+        <div className="space-y-2">
+          <Label htmlFor="split-network">Rede</Label>
+          <Input
+            id="split-network"
+            type="text"
+            autoComplete="off"
+            placeholder="Ex: 192.168.10.0/24"
+            value={network}
+            onChange={(e) => setNetwork(e.target.value)}
+            className="shadow-sm dark:shadow-none"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="split-amount">Dividir por</Label>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as SplitMode)}
+              aria-label="Critério de divisão"
+            >
+              <ToggleGroupItem value="subnetCount">Quantidade de sub-redes</ToggleGroupItem>
+              <ToggleGroupItem value="newPrefix">Novo prefixo</ToggleGroupItem>
+            </ToggleGroup>
+            <Input
+              id="split-amount"
+              type="text"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder={mode === "newPrefix" ? "Ex: /27" : "Ex: 8"}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="shadow-sm dark:shadow-none"
+            />
+          </div>
+        </div>
+
+        <Button type="submit" size="lg" className="w-full" disabled={!network.trim() || !amount.trim()}>
+          <Split className="mr-2 h-4 w-4" aria-hidden="true" />
+          Dividir Rede
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {split && (
+          <Card className="mt-8 p-6 shadow-sm dark:shadow-none">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold">
+                {split.network} → /{split.newPrefix}
+              </h2>
+              <div className="flex gap-2">
+                <Badge variant="outline">{split.subnetCount} sub-redes</Badge>
+                <Badge variant="outline">{split.borrowedBits} bits emprestados</Badge>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Rede</TableHead>
+                  <TableHead>Primeiro Host</TableHead>
+                  <TableHead>Último Host</TableHead>
+                  <TableHead>Broadcast</TableHead>
+                  <TableHead className="text-right">Hosts Utilizáveis</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((subnet, index) => (
+                  <TableRow key={subnet.networkAddress}>
+                    <TableCell>{page * PAGE_SIZE + index + 1}</TableCell>
+                    <TableCell className="font-mono">
+                      {subnet.networkAddress}/{split.newPrefix}
+                    </TableCell>
+                    <TableCell className="font-mono">{subnet.firstHost}</TableCell>
+                    <TableCell className="font-mono">{subnet.lastHost}</TableCell>
+                    <TableCell className="font-mono">{subnet.broadcastAddress}</TableCell>
+                    <TableCell className="text-right">{subnet.usableHosts}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <PaginacaoTabela className="mt-4" page={page} pageCount={pageCount} onPageChange={setPage} />
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default DivisaoSubredes;
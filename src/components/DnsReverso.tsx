@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { reverseDnsPlan, reverseZones, type ClasslessDelegation, type ClasslessLabelStyle } from "@/lib/reverse-dns";
+import { splitEntries } from "@/lib/subnet-utils";
+import { BlocoCopiavel } from "./BlocoCopiavel";
+
+interface DnsReversoProps {
+  /** Rede em notação CIDR (ex: '192.168.1.64/27') */
+  network: string;
+}
+
+/**
+ * Zonas de DNS reverso de uma rede e, para redes menores que /24, a
+ * delegação RFC 2317: registros da zona pai e esqueleto da zona filha
+ */
+export const DnsReverso = ({ network }: DnsReversoProps) => {
+  const [nameservers, setNameservers] = useState("");
+  const [hostmaster, setHostmaster] = useState("");
+  const [labelStyle, setLabelStyle] = useState<ClasslessLabelStyle>("cidr");
+
+  const zones = reverseZones(network);
+  const needsDelegation = Number(network.split("/")[1]) > 24;
+
+  // Os registros acompanham os campos em tempo real; um nome inválido aparece abaixo deles
+  let delegation: ClasslessDelegation | null = null;
+  let error: string | null = null;
+  if (needsDelegation) {
+    try {
+      delegation = reverseDnsPlan(network, {
+        nameservers: nameservers.trim() ? splitEntries(nameservers) : undefined,
+        hostmaster: hostmaster.trim() || undefined,
+        labelStyle,
+      }).delegation;
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Não foi possível gerar a delegação";
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-2">
+        <p className="font-medium text-muted-foreground">
+          {zones.length === 1 ? "Zona in-addr.arpa" : `${zones.length} zonas in-addr.arpa`}
+          {needsDelegation && " (ocupada parcialmente)"}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {zones.map(zone => (
+            <Badge key={zone} variant="secondary" className="font-mono">
+              {zone}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {needsDelegation && (
+        <div className="space-y-4">
+          <p className="text-muted-foreground">
+            A rede é menor que /24: delegue o DNS reverso pelo RFC 2317, com CNAMEs na zona pai apontando para
+            uma zona filha própria.
+          </p>
+
+          <div className="flex flex-col gap-4 sm:flex-row">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="reverse-nameservers">Servidores de nomes</Label>
+              <Input
+                id="reverse-nameservers"
+                type="text"
+                autoComplete="off"
+                placeholder="ns1.example.com, ns2.example.com"
+                value={nameservers}
+                onChange={(e) => setNameservers(e.target.value)}
+                className="font-mono shadow-sm dark:shadow-none"
+                aria-invalid={error !== null}
+                aria-describedby={error ? "reverse-error" : undefined}
+              />
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="reverse-hostmaster">Responsável (SOA)</Label>
+              <Input
+                id="reverse-hostmaster"
+                type="text"
+                autoComplete="off"
+                placeholder="hostmaster.example.com"
+                value={hostmaster}
+                onChange={(e) => setHostmaster(e.target.value)}
+                className="font-mono shadow-sm dark:shadow-none"
+                aria-invalid={error !== null}
+                aria-describedby={error ? "reverse-error" : undefined}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rótulo da zona filha</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={labelStyle}
+              onValueChange={(value) => value && setLabelStyle(value as ClasslessLabelStyle)}
+              className="justify-start"
+              aria-label="Rótulo da zona filha"
+            >
+              <ToggleGroupItem value="cidr">Início/prefixo (64/27)</ToggleGroupItem>
+              <ToggleGroupItem value="range">Intervalo (64-95)</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          {error && (
+            <p id="reverse-error" className="text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          {delegation && (
+            <>
+              <BlocoCopiavel title={`Zona pai (${delegation.parentZone})`} text={delegation.parentRecords} />
+              <BlocoCopiavel title={`Zona filha (${delegation.childZone})`} text={delegation.childZoneFile} />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,333 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Fingerprint, KeyRound, Search } from "lucide-react";
+import {
+  eui64Address,
+  macFromEui64,
+  stablePrivacyAddress,
+  temporaryAddress,
+  type Eui64Address,
+  type Eui64Step,
+  type GeneratedAddress,
+  type StableAddress,
+} from "@/lib/interface-id";
+import { useToast } from "@/hooks/use-toast";
+
+type GenerationMethod = "eui64" | "stable" | "temporary";
+
+type GeneratedResult =
+  | { method: "eui64"; value: Eui64Address }
+  | { method: "stable"; value: StableAddress }
+  | { method: "temporary"; value: GeneratedAddress };
+
+/**
+ * Explicação de cada método, exibida junto ao resultado
+ */
+const METHOD_NOTES: Record<GenerationMethod, string> = {
+  eui64:
+    "O identificador é derivado do MAC: é sempre o mesmo em qualquer rede e revela a placa, o que ajuda a localizar o host, mas também permite rastreá-lo.",
+  stable:
+    "O identificador é um hash do prefixo, da interface e da chave secreta: fixo enquanto o host estiver nesta rede, diferente em cada rede e sem revelar o MAC.",
+  temporary:
+    "O identificador é aleatório (crypto.getRandomValues): o host o usa para conexões de saída e o troca periodicamente. Cada geração produz outro.",
+};
+
+/**
+ * Octetos de um passo da derivação EUI-64, com os bits alterados destacados
+ */
+const PassoEui64 = ({ step }: { step: Eui64Step }) => {
+  const changed = new Set(step.changedBits);
+
+  return (
+    <li className="space-y-2 rounded-lg border border-border/50 bg-muted/30 p-4">
+      <p className="font-medium">{step.title}</p>
+      <p className="text-sm text-muted-foreground">{step.description}</p>
+      <div className="flex flex-wrap gap-3 font-mono text-sm">
+        {step.binary.map((octet, octetIndex) => (
+          <div key={octetIndex} className="text-center">
+            <div className="text-muted-foreground">{step.hex[octetIndex]}</div>
+            <div>
+              {octet.split("").map((bit, bitIndex) =>
+                changed.has(octetIndex * 8 + bitIndex) ? (
+                  <mark key={bitIndex} className="rounded-sm bg-primary/20 text-primary">
+                    {bit}
+                  </mark>
+                ) : (
+                  <span key={bitIndex}>{bit}</span>
+                )
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Gera o identificador de interface de um endereço SLAAC por EUI-64, pelo
+ * RFC 7217 ou aleatoriamente, e recupera o MAC de um endereço EUI-64
+ */
+const IdentificadorInterface = () => {
+  const [method, setMethod] = useState<GenerationMethod>("eui64");
+  const [prefix, setPrefix] = useState("");
+  const [mac, setMac] = useState("");
+  const [interfaceName, setInterfaceName] = useState("eth0");
+  const [networkId, setNetworkId] = useState("");
+  const [dadCounter, setDadCounter] = useState("0");
+  const [secretKey, setSecretKey] = useState("");
+  const [result, setResult] = useState<GeneratedResult | null>(null);
+  const [lookupAddress, setLookupAddress] = useState("");
+  const [lookupResult, setLookupResult] = useState<{ address: string; mac: string | null } | null>(null);
+  const { toast } = useToast();
+
+  const showError = (title: string, error: unknown) =>
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Não foi possível concluir a operação",
+      variant: "destructive",
+    });
+
+  const handleGenerate = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (method === "eui64") {
+        setResult({ method, value: eui64Address(prefix, mac) });
+      } else if (method === "stable") {
+        const counter = Number(dadCounter.trim() || "0");
+        setResult({
+          method,
+          value: await stablePrivacyAddress(prefix, { interfaceName, networkId, dadCounter: counter, secretKey }),
+        });
+      } else {
+        setResult({ method, value: temporaryAddress(prefix) });
+      }
+    } catch (error) {
+      setResult(null);
+      showError("Erro ao gerar o endereço", error);
+    }
+  };
+
+  /** Preenche a chave secreta com 128 bits aleatórios, o mínimo recomendado pelo RFC 7217 */
+  const generateSecretKey = () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    setSecretKey(Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join(""));
+  };
+
+  const handleLookup = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLookupResult({ address: lookupAddress.trim(), mac: macFromEui64(lookupAddress.trim()) });
+    } catch (error) {
+      setLookupResult(null);
+      showError("Endereço inválido", error);
+    }
+  };
+
+  const canGenerate =
+    Boolean(prefix.trim()) &&
+    (method === "eui64" ? Boolean(mac.trim()) : method === "stable" ? Boolean(interfaceName.trim() && secretKey) : true);
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <Fingerprint className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Identificador de Interface IPv6</h1>
+        <p className="text-lg text-muted-foreground">
+          Veja como o SLAAC monta os 64 bits finais do endereço: EUI-64, estável (RFC 7217) ou temporário
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleGenerate} aria-label="Gerar identificador de interface">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={method}
+          onValueChange={(value) => {
+            if (!value) return;
+            setMethod(value as GenerationMethod);
+            setResult(null);
+          }}
+          className="justify-start"
+          aria-label="Método de geração"
+        >
+          <ToggleGroupItem value="eui64">EUI-64</ToggleGroupItem>
+          <ToggleGroupItem value="stable">Estável (RFC 7217)</ToggleGroupItem>
+          <ToggleGroupItem value="temporary">Temporário (RFC 8981)</ToggleGroupItem>
+        </ToggleGroup>
+
+        <div className="flex flex-col gap-4 sm:flex-row">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="iid-prefix">Prefixo /64</Label>
+            <Input
+              id="iid-prefix"
+              type="text"
+              autoComplete="off"
+              placeholder="Ex: 2001:db8:0:1::/64"
+              value={prefix}
+              onChange={(e) => setPrefix(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+
+          {method === "eui64" && (
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="iid-mac">Endereço MAC</Label>
+              <Input
+                id="iid-mac"
+                type="text"
+                autoComplete="off"
+                placeholder="Ex: 00:11:22:33:44:55"
+                value={mac}
+                onChange={(e) => setMac(e.target.value)}
+                className="font-mono shadow-sm dark:shadow-none"
+              />
+            </div>
+          )}
+        </div>
+
+        {method === "stable" && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="iid-interface">Interface (Net_Iface)</Label>
+              <Input
+                id="iid-interface"
+                type="text"
+                autoComplete="off"
+                value={interfaceName}
+                onChange={(e) => setInterfaceName(e.target.value)}
+                className="font-mono shadow-sm dark:shadow-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="iid-network">Identificador da rede (opcional)</Label>
+              <Input
+                id="iid-network"
+                type="text"
+                autoComplete="off"
+                placeholder="Ex: SSID do Wi-Fi"
+                value={networkId}
+                onChange={(e) => setNetworkId(e.target.value)}
+                className="shadow-sm dark:shadow-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="iid-dad">Contador de DAD</Label>
+              <Input
+                id="iid-dad"
+                type="text"
+                inputMode="numeric"
+                autoComplete="off"
+                value={dadCounter}
+                onChange={(e) => setDadCounter(e.target.value)}
+                className="w-32 shadow-sm dark:shadow-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="iid-secret">Chave secreta</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="iid-secret"
+                  type="text"
+                  autoComplete="off"
+                  value={secretKey}
+                  onChange={(e) => setSecretKey(e.target.value)}
+                  className="font-mono shadow-sm dark:shadow-none"
+                />
+                <Button type="button" variant="outline" onClick={generateSecretKey}>
+                  <KeyRound className="mr-2 h-4 w-4" aria-hidden="true" />
+                  Gerar chave
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <Button type="submit" size="lg" className="w-full" disabled={!canGenerate}>
+          <Fingerprint className="mr-2 h-4 w-4" aria-hidden="true" />
+          Gerar Endereço
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {result && (
+          <Card className="mt-8 space-y-6 p-6 shadow-sm dark:shadow-none">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="break-all font-mono text-xl font-semibold">{result.value.address}</h2>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{result.value.prefix}</Badge>
+                {result.method === "stable" && (
+                  <Badge variant="outline">Contador de DAD: {result.value.dadCounter}</Badge>
+                )}
+                {result.method === "eui64" && (
+                  <Badge variant="outline">{result.value.universal ? "MAC universal" : "MAC local"}</Badge>
+                )}
+              </div>
+            </div>
+
+            <p className="text-sm">
+              Identificador de interface: <span className="font-mono font-semibold text-primary">{result.value.interfaceId}</span>
+            </p>
+            <p className="text-sm text-muted-foreground">{METHOD_NOTES[result.method]}</p>
+
+            {result.method === "eui64" && (
+              <ol className="space-y-3" aria-label="Passos do EUI-64">
+                {result.value.steps.map(step => (
+                  <PassoEui64 key={step.title} step={step} />
+                ))}
+              </ol>
+            )}
+          </Card>
+        )}
+      </section>
+
+      <Card className="mt-8 space-y-4 p-6 shadow-sm dark:shadow-none">
+        <h2 className="text-lg font-medium text-foreground">Descobrir o MAC de um endereço EUI-64</h2>
+        <form className="flex flex-col gap-2 sm:flex-row" onSubmit={handleLookup} aria-label="Descobrir MAC">
+          <Label htmlFor="iid-lookup" className="sr-only">
+            Endereço IPv6
+          </Label>
+          <Input
+            id="iid-lookup"
+            type="text"
+            autoComplete="off"
+            placeholder="Ex: 2001:db8:0:1:211:22ff:fe33:4455"
+            value={lookupAddress}
+            onChange={(e) => setLookupAddress(e.target.value)}
+            className="font-mono shadow-sm dark:shadow-none"
+          />
+          <Button type="submit" variant="secondary" disabled={!lookupAddress.trim()}>
+            <Search className="mr-2 h-4 w-4" aria-hidden="true" />
+            Descobrir MAC
+          </Button>
+        </form>
+        {lookupResult && (
+          <p className="text-sm" aria-live="polite">
+            {lookupResult.mac ? (
+              <>
+                MAC da interface: <span className="font-mono font-semibold text-primary">{lookupResult.mac}</span>
+              </>
+            ) : (
+              <span className="text-muted-foreground">
+                {lookupResult.address} não usa EUI-64: o identificador não tem FF:FE no meio
+              </span>
+            )}
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default IdentificadorInterface;
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react';
 import Rodape from './Rodape';
+import MenuNavegacao from './MenuNavegacao';
 
 type LayoutProps = {
   children: ReactNode;
@@ -8,6 +9,7 @@ type LayoutProps = {
 export default function Layout({ children }: LayoutProps) {
   return (
     <div className="flex min-h-screen flex-col bg-background text-foreground">
+      <MenuNavegacao />
       <main className="flex-1 bg-background">
         <div className="min-h-[calc(100vh-64px)]">
           {children}
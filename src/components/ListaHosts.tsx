@@ -0,0 +1,228 @@
+import { useRef, useState, type FormEvent } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Copy, CornerDownRight } from "lucide-react";
+import { iterateHosts } from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+/** Altura de cada linha da lista, em pixels */
+const ROW_HEIGHT = 32;
+
+/** Linhas visíveis de uma vez */
+const VISIBLE_ROWS = 10;
+
+const VIEWPORT_HEIGHT = ROW_HEIGHT * VISIBLE_ROWS;
+
+/**
+ * Altura máxima da área rolável; os navegadores limitam a altura de um
+ * elemento, e uma /8 precisaria de mais de 500 milhões de pixels
+ */
+const MAX_SCROLL_HEIGHT = 1_000_000;
+
+/** Quantidade máxima de hosts copiados de uma vez */
+const MAX_COPY = 65536;
+
+interface ListaHostsProps {
+  /** Rede em notação CIDR (ex: '10.0.0.0/8') */
+  network: string;
+  /** Quantidade de hosts utilizáveis da rede */
+  usableHosts: number;
+}
+
+/**
+ * Lista virtualizada dos hosts utilizáveis de uma rede
+ *
+ * Só as linhas visíveis são geradas. Quando a lista completa excederia a
+ * altura máxima, a barra de rolagem é escalonada e a posição exata fica em
+ * `virtualTop`; o salto para um host e a cópia de um trecho usam as
+ * posições diretamente, sem depender da precisão da barra.
+ */
+export const ListaHosts = ({ network, usableHosts }: ListaHostsProps) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  // Última posição definida pelo salto, para ignorar o evento de rolagem que ele provoca
+  const programmaticScroll = useRef<number | null>(null);
+  const [scroll, setScroll] = useState({ scrollTop: 0, virtualTop: 0 });
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [jumpTo, setJumpTo] = useState("");
+  const [copyFrom, setCopyFrom] = useState("");
+  const [copyTo, setCopyTo] = useState("");
+  const { toast } = useToast();
+
+  const fullHeight = usableHosts * ROW_HEIGHT;
+  const contentHeight = Math.min(fullHeight, MAX_SCROLL_HEIGHT);
+  const maxScrollTop = Math.max(0, contentHeight - VIEWPORT_HEIGHT);
+  const maxVirtualTop = Math.max(0, fullHeight - VIEWPORT_HEIGHT);
+
+  const toVirtual = (scrollTop: number) => (maxScrollTop === 0 ? 0 : (scrollTop / maxScrollTop) * maxVirtualTop);
+  const toScroll = (virtualTop: number) => (maxVirtualTop === 0 ? 0 : (virtualTop / maxVirtualTop) * maxScrollTop);
+
+  const first = Math.floor(scroll.virtualTop / ROW_HEIGHT);
+  const rows = Array.from(iterateHosts(network, first, first + VISIBLE_ROWS + 1));
+  // O bloco de linhas acompanha a rolagem real, deslocado pela fração da primeira linha
+  const blockTop = scroll.scrollTop - (scroll.virtualTop - first * ROW_HEIGHT);
+
+  const handleScroll = () => {
+    const scrollTop = viewportRef.current?.scrollTop ?? 0;
+    if (programmaticScroll.current !== null && Math.abs(scrollTop - programmaticScroll.current) < 1) {
+      return;
+    }
+    programmaticScroll.current = null;
+    setScroll({ scrollTop, virtualTop: toVirtual(scrollTop) });
+  };
+
+  /**
+   * Lê uma posição de host (1 = primeiro host utilizável)
+   * @returns A posição, ou null se estiver fora da rede
+   */
+  const parsePosition = (text: string): number | null => {
+    const position = Number(text.trim());
+    return Number.isInteger(position) && position >= 1 && position <= usableHosts ? position : null;
+  };
+
+  const invalidPosition = () =>
+    toast({
+      title: "Posição inválida",
+      description: `Informe um número entre 1 e ${usableHosts}`,
+      variant: "destructive",
+    });
+
+  const handleJump = (e: FormEvent) => {
+    e.preventDefault();
+
+    const position = parsePosition(jumpTo);
+    if (position === null) {
+      invalidPosition();
+      return;
+    }
+
+    const virtualTop = Math.min((position - 1) * ROW_HEIGHT, maxVirtualTop);
+    const scrollTop = toScroll(virtualTop);
+    programmaticScroll.current = scrollTop;
+    if (viewportRef.current) viewportRef.current.scrollTop = scrollTop;
+    setScroll({ scrollTop, virtualTop });
+    setHighlighted(position - 1);
+  };
+
+  const handleCopy = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const from = parsePosition(copyFrom);
+    const to = parsePosition(copyTo);
+    if (from === null || to === null || from > to) {
+      invalidPosition();
+      return;
+    }
+    if (to - from + 1 > MAX_COPY) {
+      toast({
+        title: "Trecho muito grande",
+        description: `Copie no máximo ${MAX_COPY} hosts de uma vez`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(Array.from(iterateHosts(network, from - 1, to)).join("\n"));
+      toast({
+        title: "Copiado!",
+        description: `${to - from + 1} hosts copiados para a área de transferência`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao copiar",
+        description: "Não foi possível copiar para a área de transferência",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+        <form className="flex items-end gap-2" onSubmit={handleJump} aria-label="Ir para um host">
+          <div className="space-y-2">
+            <Label htmlFor="hosts-jump">Ir para o host nº</Label>
+            <Input
+              id="hosts-jump"
+              type="text"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder="Ex: 200"
+              value={jumpTo}
+              onChange={(e) => setJumpTo(e.target.value)}
+              className="w-32 shadow-sm dark:shadow-none"
+            />
+          </div>
+          <Button type="submit" variant="secondary" disabled={!jumpTo.trim()}>
+            <CornerDownRight className="mr-2 h-4 w-4" aria-hidden="true" />
+            Ir
+          </Button>
+        </form>
+
+        <form className="flex items-end gap-2" onSubmit={handleCopy} aria-label="Copiar trecho de hosts">
+          <div className="space-y-2">
+            <Label htmlFor="hosts-copy-from">Copiar do nº</Label>
+            <Input
+              id="hosts-copy-from"
+              type="text"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder="200"
+              value={copyFrom}
+              onChange={(e) => setCopyFrom(e.target.value)}
+              className="w-28 shadow-sm dark:shadow-none"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hosts-copy-to">ao nº</Label>
+            <Input
+              id="hosts-copy-to"
+              type="text"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder="250"
+              value={copyTo}
+              onChange={(e) => setCopyTo(e.target.value)}
+              className="w-28 shadow-sm dark:shadow-none"
+            />
+          </div>
+          <Button type="submit" variant="secondary" disabled={!copyFrom.trim() || !copyTo.trim()}>
+            <Copy className="mr-2 h-4 w-4" aria-hidden="true" />
+            Copiar
+          </Button>
+        </form>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={handleScroll}
+        className="relative overflow-y-auto rounded-lg border border-border/50 bg-muted/30"
+        style={{ height: Math.min(VIEWPORT_HEIGHT, fullHeight) }}
+        role="list"
+        aria-label={`Hosts de ${network}`}
+        tabIndex={0}
+      >
+        <div style={{ height: contentHeight }} aria-hidden="true" />
+        <div className="absolute inset-x-0" style={{ top: blockTop }}>
+          {rows.map((host, index) => {
+            const position = first + index;
+            return (
+              <div
+                key={position}
+                role="listitem"
+                className={`flex items-center justify-between px-4 font-mono text-sm ${
+                  position === highlighted ? "bg-primary/10 text-primary" : ""
+                }`}
+                style={{ height: ROW_HEIGHT }}
+              >
+                <span className="text-muted-foreground">{position + 1}</span>
+                <span>{host}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
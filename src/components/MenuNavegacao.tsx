@@ -0,0 +1,68 @@
+import { NavLink } from "react-router-dom";
+import {
+  ArrowLeftRight,
+  Calculator,
+  Combine,
+  Filter,
+  Fingerprint,
+  Grid3X3,
+  LayoutList,
+  PackageOpen,
+  Route,
+  Sigma,
+  Split,
+  SquareFunction,
+} from "lucide-react";
+
+type NavItem = {
+  to: string;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+};
+
+const NAV_ITEMS: NavItem[] = [
+  { to: "/", label: "Calculadora", icon: Calculator },
+  { to: "/divisao", label: "Divisão (FLSM)", icon: Split },
+  { to: "/vlsm", label: "VLSM", icon: LayoutList },
+  { to: "/sumarizacao", label: "Sumarização", icon: Combine },
+  { to: "/pertinencia", label: "Pertinência", icon: Grid3X3 },
+  { to: "/aritmetica", label: "Aritmética", icon: Sigma },
+  { to: "/wildcard", label: "Wildcard", icon: Filter },
+  { to: "/conjuntos", label: "Conjuntos", icon: SquareFunction },
+  { to: "/rotas", label: "Rotas", icon: Route },
+  { to: "/espaco-livre", label: "Espaço livre", icon: PackageOpen },
+  { to: "/interface-ipv6", label: "Interface IPv6", icon: Fingerprint },
+  { to: "/traducao-ipv6", label: "Tradução 4/6", icon: ArrowLeftRight },
+];
+
+/**
+ * Menu de navegação entre as ferramentas do Subnet Lab
+ */
+export function MenuNavegacao() {
+  return (
+    <nav className="border-b border-border/40 bg-background" aria-label="Ferramentas">
+      <ul className="container flex flex-wrap items-center gap-1 py-2">
+        {NAV_ITEMS.map(({ to, label, icon: Icon }) => (
+          <li key={to}>
+            <NavLink
+              to={to}
+              end
+              className={({ isActive }) =>
+                `flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+                  isActive
+                    ? "bg-primary/10 text-primary"
+                    : "text-muted-foreground hover:bg-accent/50 hover:text-foreground"
+                }`
+              }
+            >
+              <Icon className="h-4 w-4" aria-hidden="true" />
+              {label}
+            </NavLink>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
+
+export default MenuNavegacao;
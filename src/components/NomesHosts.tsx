@@ -0,0 +1,175 @@
+import { useState, type FormEvent } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { FileText } from "lucide-react";
+import { exportHostRecords, type HostRecordsExport } from "@/lib/host-records";
+import { splitEntries } from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+import { BlocoCopiavel } from "./BlocoCopiavel";
+
+type NamingMode = "pattern" | "list";
+
+interface NomesHostsProps {
+  /** Rede em notação CIDR (ex: '10.0.0.0/24') */
+  network: string;
+  /** Quantidade de hosts utilizáveis da rede */
+  usableHosts: number;
+}
+
+/**
+ * Lê um inteiro positivo digitado
+ * @returns O número, ou null se o texto não for um inteiro positivo
+ */
+const parsePositive = (text: string): number | null => {
+  const value = Number(text.trim());
+  return text.trim() && Number.isInteger(value) && value >= 1 ? value : null;
+};
+
+/**
+ * Atribui nomes aos hosts da rede, por padrão ou lista, e exporta os
+ * registros A e PTR no formato BIND e o bloco do /etc/hosts
+ */
+export const NomesHosts = ({ network, usableHosts }: NomesHostsProps) => {
+  const [mode, setMode] = useState<NamingMode>("pattern");
+  const [pattern, setPattern] = useState("");
+  const [count, setCount] = useState("");
+  const [names, setNames] = useState("");
+  const [firstHost, setFirstHost] = useState("1");
+  const [exported, setExported] = useState<HostRecordsExport | null>(null);
+  const { toast } = useToast();
+
+  const handleGenerate = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const first = parsePositive(firstHost);
+      if (first === null) {
+        throw new Error("O primeiro host deve ser um número a partir de 1");
+      }
+      const quantity = parsePositive(count);
+      if (mode === "pattern" && quantity === null) {
+        throw new Error("Informe quantos hosts devem ser nomeados");
+      }
+      const available = Math.max(usableHosts - (first - 1), 0);
+      if (mode === "pattern" && quantity > available) {
+        throw new Error(`Há ${available} hosts a partir do ${first}º; não cabem ${quantity} nomes`);
+      }
+
+      setExported(
+        mode === "pattern"
+          ? exportHostRecords(network, { pattern }, { firstHost: first, count: quantity ?? undefined })
+          : exportHostRecords(network, { names: splitEntries(names) }, { firstHost: first })
+      );
+    } catch (error) {
+      setExported(null);
+      toast({
+        title: "Erro ao gerar registros",
+        description: error instanceof Error ? error.message : "Não foi possível gerar os registros",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Campo comum aos dois modos
+  const firstHostField = (
+    <div className="space-y-2">
+      <Label htmlFor="hostnames-first">A partir do host nº</Label>
+      <Input
+        id="hostnames-first"
+        type="text"
+        inputMode="numeric"
+        autoComplete="off"
+        value={firstHost}
+        onChange={(e) => setFirstHost(e.target.value)}
+        className="w-32 shadow-sm dark:shadow-none"
+      />
+    </div>
+  );
+
+  const canGenerate = mode === "pattern" ? Boolean(pattern.trim() && count.trim()) : Boolean(names.trim());
+
+  return (
+    <div className="space-y-4 text-sm">
+      <form className="space-y-4" onSubmit={handleGenerate} aria-label="Gerar nomes de hosts">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as NamingMode)}
+          className="justify-start"
+          aria-label="Origem dos nomes"
+        >
+          <ToggleGroupItem value="pattern">Padrão</ToggleGroupItem>
+          <ToggleGroupItem value="list">Lista de nomes</ToggleGroupItem>
+        </ToggleGroup>
+
+        {mode === "pattern" ? (
+          <div className="flex flex-col gap-4 sm:flex-row">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="hostnames-pattern">Padrão</Label>
+              <Input
+                id="hostnames-pattern"
+                type="text"
+                autoComplete="off"
+                placeholder="srv-{n:02}.lab.example"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                className="font-mono shadow-sm dark:shadow-none"
+                aria-describedby="hostnames-pattern-hint"
+              />
+              <p id="hostnames-pattern-hint" className="text-xs text-muted-foreground">
+                {"{n}"} é o número do host; {"{n:02}"} completa com zeros até 2 dígitos
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hostnames-count">Quantidade</Label>
+              <Input
+                id="hostnames-count"
+                type="number"
+                min={1}
+                max={usableHosts}
+                autoComplete="off"
+                placeholder={`Até ${usableHosts}`}
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                className="w-32 shadow-sm dark:shadow-none"
+              />
+            </div>
+            {firstHostField}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 sm:flex-row">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="hostnames-list">Nomes, na ordem dos hosts</Label>
+              <Textarea
+                id="hostnames-list"
+                rows={4}
+                placeholder={"Ex:\ngw.lab.example\ndns.lab.example"}
+                value={names}
+                onChange={(e) => setNames(e.target.value)}
+                className="font-mono shadow-sm dark:shadow-none"
+              />
+            </div>
+            {firstHostField}
+          </div>
+        )}
+
+        <Button type="submit" variant="secondary" disabled={!canGenerate}>
+          <FileText className="mr-2 h-4 w-4" aria-hidden="true" />
+          Gerar registros
+        </Button>
+      </form>
+
+      {exported && (
+        <div className="space-y-4">
+          <BlocoCopiavel title="Registros A" text={exported.forward} />
+          <BlocoCopiavel title="Registros PTR" text={exported.reverse} />
+          <BlocoCopiavel title="Bloco do /etc/hosts" text={exported.hostsFile} />
+        </div>
+      )}
+    </div>
+  );
+};
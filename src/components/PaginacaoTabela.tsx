@@ -0,0 +1,107 @@
+import type { MouseEvent } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from "./ui/pagination";
+
+interface PaginacaoTabelaProps {
+  /** Página atual (começando em 0) */
+  page: number;
+  /** Quantidade total de páginas */
+  pageCount: number;
+  /** Chamado com o índice da nova página */
+  onPageChange: (page: number) => void;
+  className?: string;
+}
+
+/**
+ * Calcula quais páginas aparecem na barra: sempre a primeira, a última
+ * e as vizinhas da atual; os saltos viram reticências (null)
+ */
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const candidates = [0, page - 1, page, page + 1, pageCount - 1]
+    .filter((p, i, all) => p >= 0 && p < pageCount && all.indexOf(p) === i)
+    .sort((a, b) => a - b);
+
+  const pages: (number | null)[] = [];
+  candidates.forEach((p, i) => {
+    if (i > 0 && p - candidates[i - 1] > 1) {
+      pages.push(null);
+    }
+    pages.push(p);
+  });
+  return pages;
+};
+
+/**
+ * Barra de paginação para tabelas de resultados
+ */
+export function PaginacaoTabela({ page, pageCount, onPageChange, className = "" }: PaginacaoTabelaProps) {
+  if (pageCount <= 1) {
+    return null;
+  }
+
+  const goTo = (target: number) => (e: MouseEvent<HTMLAnchorElement>) => {
+    e.preventDefault();
+    if (target >= 0 && target < pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className={className} aria-label="Paginação">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationLink
+            href="#"
+            size="default"
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 0}
+            aria-label="Página anterior"
+            className={`gap-1 pl-2.5 ${page === 0 ? "pointer-events-none opacity-50" : ""}`}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span>Anterior</span>
+          </PaginationLink>
+        </PaginationItem>
+
+        {visiblePages(page, pageCount).map((item, index) => (
+          <PaginationItem key={item ?? `gap-${index}`}>
+            {item === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink
+                href="#"
+                isActive={item === page}
+                onClick={goTo(item)}
+                aria-label={`Página ${item + 1}`}
+              >
+                {item + 1}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+
+        <PaginationItem>
+          <PaginationLink
+            href="#"
+            size="default"
+            onClick={goTo(page + 1)}
+            aria-disabled={page === pageCount - 1}
+            aria-label="Próxima página"
+            className={`gap-1 pr-2.5 ${page === pageCount - 1 ? "pointer-events-none opacity-50" : ""}`}
+          >
+            <span>Próxima</span>
+            <ChevronRight className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
+
+export default PaginacaoTabela;
@@ -0,0 +1,216 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, LayoutList, Plus, Trash2 } from "lucide-react";
+import { planVlsm, type VlsmPlan } from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+type SegmentRow = {
+  id: number;
+  name: string;
+  hosts: string;
+};
+
+let nextRowId = 0;
+const newRow = (name = "", hosts = ""): SegmentRow => ({ id: nextRowId++, name, hosts });
+
+/**
+ * Planejador VLSM: aloca sub-redes de tamanho variável dentro de um bloco
+ * a partir de uma lista de segmentos e suas quantidades de hosts
+ */
+const PlanejadorVlsm = () => {
+  const [network, setNetwork] = useState("");
+  const [rows, setRows] = useState<SegmentRow[]>(() => [newRow(), newRow()]);
+  const [plan, setPlan] = useState<VlsmPlan | null>(null);
+  const { toast } = useToast();
+
+  const updateRow = (id: number, changes: Partial<SegmentRow>) =>
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...changes } : row)));
+
+  const removeRow = (id: number) => setRows(prev => prev.filter(row => row.id !== id));
+
+  const handlePlan = (e: FormEvent) => {
+    e.preventDefault();
+
+    const requirements = rows
+      .filter(row => row.hosts.trim())
+      .map((row, index) => ({
+        name: row.name.trim() || `Segmento ${index + 1}`,
+        hosts: Number(row.hosts.trim()),
+      }));
+
+    try {
+      setPlan(planVlsm(network.trim(), requirements));
+    } catch (error) {
+      setPlan(null);
+      toast({
+        title: "Erro no planejamento",
+        description: error instanceof Error ? error.message : "Não foi possível planejar as sub-redes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canPlan = Boolean(network.trim() && rows.some(row => row.hosts.trim()));
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <LayoutList className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Planejador VLSM</h1>
+        <p className="text-lg text-muted-foreground">
+          Aloque sub-redes de tamanho variável a partir da quantidade de hosts de cada segmento
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handlePlan} aria-label="Formulário de planejamento VLSM">
+        <div className="space-y-2">
+          <Label htmlFor="vlsm-network">Bloco de origem</Label>
+          <Input
+            id="vlsm-network"
+            type="text"
+            autoComplete="off"
+            placeholder="Ex: 192.168.0.0/24"
+            value={network}
+            onChange={(e) => setNetwork(e.target.value)}
+            className="shadow-sm dark:shadow-none"
+          />
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">Segmentos</legend>
+          {rows.map((row, index) => (
+            <div key={row.id} className="flex gap-2">
+              <Input
+                type="text"
+                autoComplete="off"
+                placeholder={`Segmento ${index + 1}`}
+                value={row.name}
+                onChange={(e) => updateRow(row.id, { name: e.target.value })}
+                aria-label={`Nome do segmento ${index + 1}`}
+                className="shadow-sm dark:shadow-none"
+              />
+              <Input
+                type="text"
+                inputMode="numeric"
+                autoComplete="off"
+                placeholder="Hosts"
+                value={row.hosts}
+                onChange={(e) => updateRow(row.id, { hosts: e.target.value })}
+                aria-label={`Hosts do segmento ${index + 1}`}
+                className="w-32 shadow-sm dark:shadow-none"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => removeRow(row.id)}
+                disabled={rows.length === 1}
+                aria-label={`Remover segmento ${index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="secondary" size="sm" onClick={() => setRows(prev => [...prev, newRow()])}>
+            <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+            Adicionar segmento
+          </Button>
+        </fieldset>
+
+        <Button type="submit" size="lg" className="w-full" disabled={!canPlan}>
+          <LayoutList className="mr-2 h-4 w-4" aria-hidden="true" />
+          Planejar Sub-redes
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {plan && (
+          <Card className="mt-8 space-y-6 p-6 shadow-sm dark:shadow-none">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold">Alocação em {plan.network}</h2>
+              <div className="flex gap-2">
+                <Badge variant="outline">{plan.allocations.length} sub-redes alocadas</Badge>
+                <Badge variant="outline" className="bg-success/20 text-success">
+                  {plan.freeAddresses} endereços livres
+                </Badge>
+              </div>
+            </div>
+
+            {plan.unallocated.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Segmentos que não couberam</AlertTitle>
+                <AlertDescription>
+                  {plan.unallocated.map(req => `${req.name} (${req.hosts} hosts)`).join(", ")}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Segmento</TableHead>
+                  <TableHead className="text-right">Hosts Pedidos</TableHead>
+                  <TableHead>Sub-rede</TableHead>
+                  <TableHead>Máscara</TableHead>
+                  <TableHead>Faixa de Hosts</TableHead>
+                  <TableHead>Broadcast</TableHead>
+                  <TableHead className="text-right">Hosts Utilizáveis</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.allocations.map(allocation => (
+                  <TableRow key={allocation.networkAddress}>
+                    <TableCell className="font-medium">{allocation.name}</TableCell>
+                    <TableCell className="text-right">{allocation.requiredHosts}</TableCell>
+                    <TableCell className="font-mono">
+                      {allocation.networkAddress}/{allocation.prefixLength}
+                    </TableCell>
+                    <TableCell className="font-mono">{allocation.subnetMask}</TableCell>
+                    <TableCell className="font-mono">
+                      {allocation.firstHost} - {allocation.lastHost}
+                    </TableCell>
+                    <TableCell className="font-mono">{allocation.broadcastAddress}</TableCell>
+                    <TableCell className="text-right">{allocation.usableHosts}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {plan.freeBlocks.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-lg font-medium text-foreground">Espaço livre</h3>
+                <div className="flex flex-wrap gap-2">
+                  {plan.freeBlocks.map(block => (
+                    <Badge key={block} variant="secondary" className="font-mono">
+                      {block}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default PlanejadorVlsm;
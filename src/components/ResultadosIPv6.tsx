@@ -0,0 +1,192 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Copy, Eye, Tag } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { analyzeIPv6Address, IPV6_SCOPE_LABELS, type IPv6MulticastInfo } from "@/lib/ipv6-analysis";
+import type { IPv6Nibble, IPv6SubnetInfo, NibbleRole } from "@/lib/subnet-utils";
+import { BlocosUsoEspecial } from "./BlocosUsoEspecial";
+
+interface ResultadosIPv6Props {
+  /** Resultado do cálculo do prefixo IPv6 */
+  results: IPv6SubnetInfo;
+}
+
+/**
+ * Estilo e legenda de cada papel de nibble
+ */
+const NIBBLE_ROLES: Record<NibbleRole, { label: string; className: string }> = {
+  network: { label: "Rede", className: "bg-primary/15 text-primary" },
+  mixed: { label: "Dividido pelo prefixo", className: "bg-warning/20 text-warning" },
+  host: { label: "Interface", className: "bg-muted text-muted-foreground" },
+};
+
+/**
+ * Formata uma contagem BigInt com separador de milhar e a potência de 2 correspondente
+ * @param count - Quantidade (sempre uma potência de 2, ou 0)
+ */
+const formatCount = (count: bigint): string => {
+  if (count === 0n) return "0";
+  const exponent = count.toString(2).length - 1;
+  return `${count.toLocaleString("pt-BR")} (2^${exponent})`;
+};
+
+/**
+ * Descreve o papel de um nibble para leitores de tela
+ */
+const describeNibble = (nibble: IPv6Nibble): string =>
+  nibble.role === "mixed"
+    ? `Nibble ${nibble.index + 1}: ${nibble.hex}, ${nibble.networkBits} de 4 bits no prefixo`
+    : `Nibble ${nibble.index + 1}: ${nibble.hex}, ${NIBBLE_ROLES[nibble.role].label.toLowerCase()}`;
+
+/**
+ * Flags de um grupo multicast ligadas, na ordem do campo (R, P, T)
+ */
+const multicastFlags = (multicast: IPv6MulticastInfo): string[] => [
+  ...(multicast.embeddedRendezvousPoint ? ["R: rendezvous point embutido"] : []),
+  ...(multicast.prefixBased ? ["P: baseado em prefixo unicast"] : []),
+  multicast.transient ? "T: temporário" : "T: permanente (IANA)",
+];
+
+/**
+ * Exibe o tipo do endereço, o prefixo, a faixa e as contagens de um cálculo IPv6, além da
+ * divisão do endereço em nibbles de rede e de interface
+ */
+const ResultadosIPv6 = ({ results }: ResultadosIPv6Props) => {
+  const { toast } = useToast();
+  const analysis = analyzeIPv6Address(results.address);
+
+  const copy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copiado!",
+        description: `${label} copiado para a área de transferência`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao copiar",
+        description: "Não foi possível copiar para a área de transferência",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const rows = [
+    { label: "Prefixo de Rede", value: results.networkPrefix },
+    { label: "Primeiro Endereço", value: results.firstAddress },
+    { label: "Último Endereço", value: results.lastAddress },
+    { label: "Endereço Expandido", value: results.expandedAddress },
+    { label: "Total de Endereços", value: formatCount(results.totalAddresses) },
+    {
+      label: "Sub-redes /64",
+      value: results.prefixLength <= 64 ? formatCount(results.subnets64) : "Nenhuma (prefixo mais longo que /64)",
+    },
+    ...(analysis.solicitedNode
+      ? [
+          { label: "Nó Solicitado", value: analysis.solicitedNode.address },
+          { label: "MAC do Nó Solicitado", value: analysis.solicitedNode.mac },
+        ]
+      : []),
+    ...(analysis.multicastMac ? [{ label: "MAC Multicast", value: analysis.multicastMac }] : []),
+  ];
+
+  // Os 32 nibbles agrupados nos 8 grupos de 16 bits
+  const groups = Array.from({ length: 8 }, (_, group) => results.nibbles.slice(group * 4, group * 4 + 4));
+  const fixedNibbles = Math.floor(results.prefixLength / 4);
+
+  return (
+    <Card className="p-6 shadow-sm dark:shadow-none">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Eye className="h-5 w-5 text-primary" />
+          <h2 className="text-xl font-semibold">Resultados do Cálculo IPv6</h2>
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="outline">/{results.prefixLength}</Badge>
+          <Badge variant="outline" className="bg-success/20 text-success">
+            {results.subnets64 > 0n ? `${results.subnets64.toLocaleString("pt-BR")} × /64` : "Menor que um /64"}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <h3 className="mb-3 flex items-center gap-2 text-lg font-medium text-foreground">
+            <Tag className="h-4 w-4 text-muted-foreground" />
+            Tipo de Endereço
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            <Badge>{analysis.typeLabel}</Badge>
+            {analysis.scope && <Badge variant="outline">Escopo: {IPV6_SCOPE_LABELS[analysis.scope]}</Badge>}
+            {analysis.multicast?.wellKnownGroup && (
+              <Badge variant="outline">{analysis.multicast.wellKnownGroup}</Badge>
+            )}
+          </div>
+          {analysis.multicast && (
+            <p className="text-sm text-muted-foreground">
+              Campo de escopo: {analysis.multicast.scopeValue.toString(16)}. Flags:{" "}
+              {multicastFlags(analysis.multicast).join(", ")}
+            </p>
+          )}
+          <BlocosUsoEspecial blocks={analysis.specialPurpose} />
+        </div>
+
+        <dl className="space-y-3">
+          {rows.map(({ label, value }) => (
+            <div key={label} className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+              <dt className="text-sm font-medium">{label}</dt>
+              <dd className="flex items-center gap-2">
+                <span className="break-all font-mono text-sm">{value}</span>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() => copy(value, label)}
+                  aria-label={`Copiar ${label}`}
+                >
+                  <Copy className="h-3 w-3" />
+                </Button>
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium text-foreground">Nibbles do Endereço</h3>
+          <p className="text-sm text-muted-foreground">
+            {results.prefixLength % 4 === 0
+              ? `O prefixo /${results.prefixLength} fixa os ${fixedNibbles} primeiros nibbles (dígitos hexadecimais).`
+              : `O prefixo /${results.prefixLength} fixa ${fixedNibbles} nibbles e ${results.prefixLength % 4} bits do ${fixedNibbles + 1}º; ` +
+                "prefixos múltiplos de 4 facilitam a delegação e o DNS reverso."}
+          </p>
+          <div className="flex flex-wrap gap-2 font-mono text-sm" role="list" aria-label="Nibbles do endereço">
+            {groups.map((nibbles, group) => (
+              <div key={group} className="flex rounded-md border border-border/50" role="listitem">
+                {nibbles.map(nibble => (
+                  <span
+                    key={nibble.index}
+                    className={`px-1.5 py-1 ${NIBBLE_ROLES[nibble.role].className}`}
+                    title={describeNibble(nibble)}
+                  >
+                    {nibble.hex}
+                    <span className="sr-only"> ({describeNibble(nibble)})</span>
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2 text-xs">
+            {Object.values(NIBBLE_ROLES).map(({ label, className }) => (
+              <span key={label} className={`rounded px-2 py-0.5 ${className}`}>
+                {label}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default ResultadosIPv6;
@@ -0,0 +1,81 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Copy, Eye } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AddressRange } from "@/lib/subnet-utils";
+
+interface ResultadosIntervaloProps {
+  /** Intervalo informado */
+  range: AddressRange;
+  /** Blocos CIDR que cobrem exatamente o intervalo */
+  cidrs: string[];
+}
+
+/**
+ * Exibe a lista mínima de blocos CIDR equivalente a um intervalo de endereços
+ */
+const ResultadosIntervalo = ({ range, cidrs }: ResultadosIntervaloProps) => {
+  const { toast } = useToast();
+
+  const copyAll = async () => {
+    try {
+      await navigator.clipboard.writeText(cidrs.join("\n"));
+      toast({
+        title: "Copiado!",
+        description: "Blocos CIDR copiados para a área de transferência",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao copiar",
+        description: "Não foi possível copiar para a área de transferência",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6 shadow-sm dark:shadow-none">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Eye className="h-5 w-5 text-primary" />
+          <h2 className="text-xl font-semibold">Blocos CIDR do Intervalo</h2>
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="outline">{range.size} endereços</Badge>
+          <Badge variant="outline" className="bg-success/20 text-success">
+            {cidrs.length} blocos
+          </Badge>
+        </div>
+      </div>
+
+      <p className="mb-4 font-mono text-sm text-muted-foreground">
+        {range.start} - {range.end}
+      </p>
+
+      <div className="rounded-lg border border-border/50 bg-muted/30 p-4">
+        <div className="mb-2 flex items-center justify-between">
+          <span className="text-sm font-medium text-muted-foreground">Prefixos:</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={copyAll}
+            className="h-6 w-6 p-0"
+            aria-label="Copiar blocos CIDR"
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+        <ul className="space-y-1">
+          {cidrs.map(cidr => (
+            <li key={cidr}>
+              <code className="text-sm font-mono text-foreground">{cidr}</code>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </Card>
+  );
+};
+
+export default ResultadosIntervalo;
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { 
@@ -9,37 +10,27 @@ import {
   Copy,
   Info,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  Tag,
+  Layers,
+  List,
+  Compass,
+  Globe,
+  Server
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ListaHosts } from "./ListaHosts";
+import { VizinhancaSubrede } from "./VizinhancaSubrede";
+import { DnsReverso } from "./DnsReverso";
+import { NomesHosts } from "./NomesHosts";
+import { BlocosUsoEspecial } from "./BlocosUsoEspecial";
+import { classifyAddress } from "@/lib/special-purpose";
+import { maskToCidr, type SubnetInfo } from "@/lib/subnet-utils";
 
-/**
- * Interface que define a estrutura das informações da sub-rede
- */
-export interface SubnetInfo {
-  /** Endereço de rede */
-  networkAddress: string;
-  /** Endereço de broadcast */
-  broadcastAddress: string;
-  /** Primeiro host utilizável */
-  firstHost: string;
-  /** Último host utilizável */
-  lastHost: string;
-  /** Número total de hosts possíveis */
-  totalHosts: number;
-  /** Número de hosts utilizáveis */
-  usableHosts: number;
-  /** Máscara de sub-rede em formato decimal */
-  subnetMask: string;
-  /** Máscara wildcard */
-  wildcardMask: string;
-  /** Representação binária do IP */
-  binaryIP: string;
-  /** Representação binária da máscara */
-  binaryMask: string;
-}
+// Reexportado para manter os imports existentes a partir deste componente
+export type { SubnetInfo };
 
 /**
  * Propriedades do componente SubnetResults
@@ -47,19 +38,40 @@ export interface SubnetInfo {
 interface SubnetResultsProps {
   /** Objeto contendo os resultados do cálculo da sub-rede */
   results: SubnetInfo;
+  /** Endereço IP informado pelo usuário */
+  ipAddress: string;
+  /** Recalcula para um bloco vizinho (sem ele, a vizinhança não é exibida) */
+  onSelectNetwork?: (network: string) => void;
 }
 
+/**
+ * Descrição de cada classe de endereço
+ */
+const CLASS_DESCRIPTIONS: Record<SubnetInfo["classful"]["addressClass"], string> = {
+  A: "Primeiro octeto 0-127 (bit inicial 0)",
+  B: "Primeiro octeto 128-191 (bits iniciais 10)",
+  C: "Primeiro octeto 192-223 (bits iniciais 110)",
+  D: "Primeiro octeto 224-239: multicast, sem máscara padrão",
+  E: "Primeiro octeto 240-255: experimental, sem máscara padrão",
+};
+
 /**
  * Componente que exibe os resultados detalhados do cálculo de sub-rede
  * 
  * @component
  * @example
  * return (
- *   <SubnetResults results={subnetInfo} />
+ *   <SubnetResults results={subnetInfo} ipAddress="192.168.1.10" />
  * )
  */
-const ResultadosSubrede = ({ results }: SubnetResultsProps): JSX.Element => {
+const ResultadosSubrede = ({ results, ipAddress, onSelectNetwork }: SubnetResultsProps): JSX.Element => {
   const { toast } = useToast();
+  const [showHosts, setShowHosts] = useState(false);
+  const [showReverseDns, setShowReverseDns] = useState(false);
+  const [showHostnames, setShowHostnames] = useState(false);
+  const specialPurpose = classifyAddress(ipAddress);
+  const { classful } = results;
+  const network = `${results.networkAddress}/${maskToCidr(results.subnetMask)}`;
 
   /**
    * Copia o texto para a área de transferência e exibe um toast de confirmação
@@ -183,6 +195,22 @@ const ResultadosSubrede = ({ results }: SubnetResultsProps): JSX.Element => {
       </div>
 
       <div className="space-y-4">
+        {/* Address Type */}
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium text-foreground mb-3 flex items-center gap-2">
+            <Tag className="h-4 w-4 text-muted-foreground" />
+            Tipo de Endereço
+          </h3>
+
+          {specialPurpose.length === 0 ? (
+            <Badge variant="outline" className="bg-success/20 text-success">
+              Unicast público
+            </Badge>
+          ) : (
+            <BlocosUsoEspecial blocks={specialPurpose} />
+          )}
+        </div>
+
         {/* Network Information */}
         <div className="space-y-3">
           <h3 className="text-lg font-medium text-foreground mb-3">Informações da Rede</h3>
@@ -231,6 +259,64 @@ const ResultadosSubrede = ({ results }: SubnetResultsProps): JSX.Element => {
           />
         </div>
 
+        {/* Classful Analysis */}
+        <div className="space-y-3">
+          <h3 className="text-lg font-medium text-foreground mb-3">Análise Classful</h3>
+
+          <ResultItem
+            icon={Layers}
+            label="Classe"
+            value={classful.addressClass}
+            description={CLASS_DESCRIPTIONS[classful.addressClass]}
+            tooltip="No modelo classful (anterior ao CIDR), a classe é definida pelos primeiros bits do primeiro octeto"
+          />
+
+          {classful.defaultMask && (
+            <ResultItem
+              icon={Network}
+              label="Máscara Padrão"
+              value={`${classful.defaultMask} (/${classful.defaultPrefix})`}
+              description="Máscara implícita da classe"
+            />
+          )}
+
+          {classful.borrowedBits !== null && (
+            <>
+              <ResultItem
+                icon={Binary}
+                label="Bits Emprestados"
+                value={classful.borrowedBits}
+                description="Bits de host usados para criar sub-redes"
+              />
+              <ResultItem
+                icon={Layers}
+                label="Sub-redes"
+                value={`${classful.subnets} (${classful.subnetsWithoutSubnetZero} sem subnet-zero)`}
+                description="2^n com subnet-zero; 2^n - 2 pela regra antiga"
+                tooltip="A regra antiga (RFC 950) descartava a primeira sub-rede (subnet-zero) e a última (todos os bits em 1)"
+              />
+            </>
+          )}
+
+          {classful.aggregatedNetworks !== null && (
+            <ResultItem
+              icon={Layers}
+              label="Superrede"
+              value={`${classful.aggregatedNetworks} redes classe ${classful.addressClass}`}
+              description="O prefixo é menor que a máscara padrão e agrega várias redes classful"
+            />
+          )}
+
+          {classful.hostsPerSubnet !== null && (
+            <ResultItem
+              icon={Users}
+              label="Hosts por Sub-rede"
+              value={classful.hostsPerSubnet}
+              description="Fórmula clássica 2^h - 2"
+            />
+          )}
+        </div>
+
         {/* Binary Representation */}
         <div className="space-y-3">
           <h3 className="text-lg font-medium text-foreground mb-3">Representação Binária</h3>
@@ -285,6 +371,80 @@ const ResultadosSubrede = ({ results }: SubnetResultsProps): JSX.Element => {
             <p className="text-sm text-muted-foreground">IPs Utilizáveis</p>
           </div>
         </div>
+
+        {/* Neighborhood */}
+        {onSelectNetwork && (
+          <div className="space-y-3">
+            <h3 className="text-lg font-medium text-foreground flex items-center gap-2">
+              <Compass className="h-4 w-4 text-muted-foreground" />
+              Vizinhança
+            </h3>
+            <VizinhancaSubrede network={network} onSelect={onSelectNetwork} />
+          </div>
+        )}
+
+        {/* Reverse DNS */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-foreground flex items-center gap-2">
+              <Globe className="h-4 w-4 text-muted-foreground" />
+              DNS Reverso
+            </h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setShowReverseDns(!showReverseDns)}
+              aria-expanded={showReverseDns}
+            >
+              {showReverseDns ? "Ocultar zonas" : "Gerar zonas"}
+            </Button>
+          </div>
+
+          {showReverseDns && <DnsReverso key={network} network={network} />}
+        </div>
+
+        {/* Host List */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-foreground flex items-center gap-2">
+              <List className="h-4 w-4 text-muted-foreground" />
+              Lista de Hosts
+            </h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setShowHosts(!showHosts)}
+              aria-expanded={showHosts}
+            >
+              {showHosts ? "Ocultar hosts" : "Listar hosts"}
+            </Button>
+          </div>
+
+          {showHosts && <ListaHosts key={network} network={network} usableHosts={results.usableHosts} />}
+        </div>
+
+        {/* Hostnames */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-foreground flex items-center gap-2">
+              <Server className="h-4 w-4 text-muted-foreground" />
+              Nomes de Hosts
+            </h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setShowHostnames(!showHostnames)}
+              aria-expanded={showHostnames}
+            >
+              {showHostnames ? "Ocultar nomes" : "Nomear hosts"}
+            </Button>
+          </div>
+
+          {showHostnames && <NomesHosts key={network} network={network} usableHosts={results.usableHosts} />}
+        </div>
       </div>
     </Card>
   );
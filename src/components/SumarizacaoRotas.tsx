@@ -0,0 +1,235 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Combine } from "lucide-react";
+import {
+  aggregatePrefixes,
+  MAX_COVERING_ENTRIES,
+  MAX_COVERING_PREFIXES,
+  splitEntries,
+  summarizeCovering,
+  type CoveringSummary,
+  type PrefixSummary,
+} from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+type SummaryMode = "exact" | "covering";
+
+/**
+ * Sumarização de rotas: agrega uma lista de prefixos no menor conjunto
+ * exato e mostra quais entradas foram absorvidas por cada resumo, ou
+ * encontra poucos prefixos de cobertura e lista a sobrecobertura
+ */
+const SumarizacaoRotas = () => {
+  const [input, setInput] = useState("");
+  const [mode, setMode] = useState<SummaryMode>("exact");
+  const [maxPrefixes, setMaxPrefixes] = useState("1");
+  const [inputCount, setInputCount] = useState(0);
+  const [summaries, setSummaries] = useState<PrefixSummary[] | null>(null);
+  const [covering, setCovering] = useState<CoveringSummary | null>(null);
+  const { toast } = useToast();
+
+  const handleAggregate = (e: FormEvent) => {
+    e.preventDefault();
+
+    const entries = splitEntries(input);
+    try {
+      if (mode === "exact") {
+        setSummaries(aggregatePrefixes(entries));
+        setCovering(null);
+      } else {
+        const limit = Number(maxPrefixes.trim());
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_COVERING_PREFIXES) {
+          throw new Error(`O máximo de prefixos deve ser um número de 1 a ${MAX_COVERING_PREFIXES}`);
+        }
+        setCovering(summarizeCovering(entries, limit));
+        setSummaries(null);
+      }
+      setInputCount(entries.length);
+    } catch (error) {
+      setSummaries(null);
+      setCovering(null);
+      toast({
+        title: "Erro na sumarização",
+        description: error instanceof Error ? error.message : "Não foi possível sumarizar os prefixos",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <Combine className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Sumarização de Rotas</h1>
+        <p className="text-lg text-muted-foreground">
+          Agregue prefixos adjacentes e sobrepostos no menor conjunto exato
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleAggregate} aria-label="Formulário de sumarização de rotas">
+        <div className="space-y-2">
+          <Label htmlFor="aggregate-input">Prefixos</Label>
+          <Textarea
+            id="aggregate-input"
+            rows={8}
+            placeholder={"Um prefixo por linha, ex:\n10.0.0.0/24\n10.0.1.0/24\n10.0.2.0/23"}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="font-mono shadow-sm dark:shadow-none"
+          />
+        </div>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="space-y-2">
+            <Label>Modo</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as SummaryMode)}
+              aria-label="Modo de sumarização"
+            >
+              <ToggleGroupItem value="exact">Exata</ToggleGroupItem>
+              <ToggleGroupItem value="covering">Com sobrecobertura</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          {mode === "covering" && (
+            <div className="space-y-2">
+              <Label htmlFor="max-prefixes">Máximo de prefixos</Label>
+              <Input
+                id="max-prefixes"
+                type="number"
+                min={1}
+                max={MAX_COVERING_PREFIXES}
+                autoComplete="off"
+                value={maxPrefixes}
+                onChange={(e) => setMaxPrefixes(e.target.value)}
+                className="w-32 shadow-sm dark:shadow-none"
+                aria-describedby="max-prefixes-hint"
+              />
+              <p id="max-prefixes-hint" className="text-xs text-muted-foreground">
+                Até {MAX_COVERING_PREFIXES}; a busca otimiza até {MAX_COVERING_ENTRIES} prefixos após a agregação exata
+              </p>
+            </div>
+          )}
+        </div>
+
+        <Button type="submit" size="lg" className="w-full" disabled={!input.trim()}>
+          <Combine className="mr-2 h-4 w-4" aria-hidden="true" />
+          Sumarizar
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {summaries && (
+          <Card className="mt-8 p-6 shadow-sm dark:shadow-none">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold">Resultado</h2>
+              <Badge variant="outline">
+                {inputCount} entradas → {summaries.length} prefixos
+              </Badge>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Resumo</TableHead>
+                  <TableHead>Entradas absorvidas</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map(summary => (
+                  <TableRow key={summary.prefix}>
+                    <TableCell className="font-mono font-medium align-top">{summary.prefix}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {summary.members.map(member => (
+                          <Badge key={member} variant="secondary" className="font-mono">
+                            {member}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+
+        {covering && (
+          <Card className="mt-8 space-y-6 p-6 shadow-sm dark:shadow-none">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold">Prefixos de cobertura</h2>
+              <div className="flex gap-2">
+                <Badge variant="outline">{inputCount} entradas → {covering.prefixes.length} prefixos</Badge>
+                <Badge
+                  variant="outline"
+                  className={covering.extraAddresses > 0 ? "bg-destructive/20 text-destructive" : "bg-success/20 text-success"}
+                >
+                  {covering.extraAddresses} endereços a mais
+                </Badge>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {covering.prefixes.map(prefix => (
+                <Badge key={prefix} variant="secondary" className="font-mono text-sm">
+                  {prefix}
+                </Badge>
+              ))}
+            </div>
+
+            {covering.extraRanges.length > 0 ? (
+              <div className="space-y-2">
+                <h3 className="text-lg font-medium text-foreground">Intervalos incluídos indevidamente</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Início</TableHead>
+                      <TableHead>Fim</TableHead>
+                      <TableHead className="text-right">Endereços</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {covering.extraRanges.map(range => (
+                      <TableRow key={range.start}>
+                        <TableCell className="font-mono">{range.start}</TableCell>
+                        <TableCell className="font-mono">{range.end}</TableCell>
+                        <TableCell className="text-right">{range.size}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Os prefixos cobrem exatamente as entradas, sem sobrecobertura.
+              </p>
+            )}
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SumarizacaoRotas;
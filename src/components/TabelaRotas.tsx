@@ -0,0 +1,189 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Route as RouteIcon } from "lucide-react";
+import { RouteTable, type RouteLookup, type RouteOutcome } from "@/lib/route-table";
+import { bitwiseAnd, cidrToMask, splitEntries } from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+type LookupResult = {
+  routeCount: number;
+  lookups: RouteLookup[];
+};
+
+/** Rótulo e estilo de cada resultado na disputa pelo destino */
+const OUTCOME_STYLES: Record<RouteOutcome, { label: string; className: string }> = {
+  selected: { label: "Escolhida", className: "bg-success/20 text-success" },
+  ecmp: { label: "Mesmo custo (ECMP)", className: "bg-success/10 text-success" },
+  "less-specific": { label: "Prefixo menos específico", className: "text-muted-foreground" },
+  "higher-distance": { label: "Distância administrativa maior", className: "bg-warning/20 text-warning" },
+  "higher-metric": { label: "Métrica maior", className: "bg-warning/20 text-warning" },
+};
+
+/**
+ * Consulta de tabela de rotas: o usuário cola a tabela e os destinos, e vê
+ * qual rota cada pacote seguiria pelo prefixo mais longo e quais outras
+ * rotas também casaram
+ */
+const TabelaRotas = () => {
+  const [tableInput, setTableInput] = useState("");
+  const [destinationInput, setDestinationInput] = useState("");
+  const [result, setResult] = useState<LookupResult | null>(null);
+  const { toast } = useToast();
+
+  const handleLookup = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const table = RouteTable.parse(tableInput);
+      const lookups = splitEntries(destinationInput).map(destination => table.lookup(destination));
+      setResult({ routeCount: table.size, lookups });
+    } catch (error) {
+      setResult(null);
+      toast({
+        title: "Erro na consulta",
+        description: error instanceof Error ? error.message : "Não foi possível consultar a tabela de rotas",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <RouteIcon className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Tabela de Rotas</h1>
+        <p className="text-lg text-muted-foreground">
+          Descubra qual rota um pacote seguiria pelo prefixo mais longo
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleLookup} aria-label="Formulário de consulta da tabela de rotas">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="routes-table">Tabela de rotas</Label>
+            <Textarea
+              id="routes-table"
+              rows={8}
+              placeholder={
+                "Destino, próximo salto e [distância/métrica] opcionais, ex:\n0.0.0.0/0 203.0.113.1\n10.0.0.0/8 192.168.1.1 [110/20]\n10.1.0.0 255.255.0.0 192.168.1.2 90 3072"
+              }
+              value={tableInput}
+              onChange={(e) => setTableInput(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="routes-destinations">Destinos</Label>
+            <Textarea
+              id="routes-destinations"
+              rows={8}
+              placeholder={"Ex:\n10.1.2.3\n8.8.8.8"}
+              value={destinationInput}
+              onChange={(e) => setDestinationInput(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Sem distância e métrica, a rota é tratada como estática (1/0). Linhas iniciadas por # ou ! são ignoradas.
+        </p>
+
+        <Button
+          type="submit"
+          size="lg"
+          className="w-full"
+          disabled={!tableInput.trim() || !destinationInput.trim()}
+        >
+          <RouteIcon className="mr-2 h-4 w-4" aria-hidden="true" />
+          Consultar
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {result && (
+          <div className="mt-8 space-y-6">
+            {result.lookups.map((lookup, index) => {
+              const { winner } = lookup;
+              const length = winner ? Number(winner.prefix.split("/")[1]) : 0;
+              return (
+                <Card key={`${lookup.destination}-${index}`} className="space-y-4 p-6 shadow-sm dark:shadow-none">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h2 className="font-mono text-xl font-semibold">{lookup.destination}</h2>
+                    {winner ? (
+                      <Badge variant="outline" className="bg-success/20 text-success">
+                        via {winner.nextHop} ({winner.prefix})
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-destructive/20 text-destructive">
+                        Sem rota: pacote descartado
+                      </Badge>
+                    )}
+                  </div>
+
+                  {winner && (
+                    <p className="font-mono text-sm text-muted-foreground">
+                      {lookup.destination} AND {cidrToMask(length)} ={" "}
+                      {bitwiseAnd(lookup.destination, cidrToMask(length))}
+                      {" → "}/{length} é o prefixo mais longo entre {lookup.candidates.length}{" "}
+                      {lookup.candidates.length === 1 ? "rota que casou" : "rotas que casaram"}
+                    </p>
+                  )}
+
+                  {lookup.candidates.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Destino</TableHead>
+                          <TableHead>Próximo salto</TableHead>
+                          <TableHead className="text-right">Distância</TableHead>
+                          <TableHead className="text-right">Métrica</TableHead>
+                          <TableHead>Resultado</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lookup.candidates.map(({ route, outcome }, row) => (
+                          <TableRow key={row}>
+                            <TableCell className="font-mono">{route.prefix}</TableCell>
+                            <TableCell className="font-mono">{route.nextHop}</TableCell>
+                            <TableCell className="text-right">{route.administrativeDistance}</TableCell>
+                            <TableCell className="text-right">{route.metric}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={OUTCOME_STYLES[outcome].className}>
+                                {OUTCOME_STYLES[outcome].label}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </Card>
+              );
+            })}
+            <p className="text-center text-sm text-muted-foreground">
+              {result.routeCount} {result.routeCount === 1 ? "rota" : "rotas"} na tabela
+            </p>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default TabelaRotas;
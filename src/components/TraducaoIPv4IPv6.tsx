@@ -0,0 +1,262 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeftRight, ArrowRight, Search } from "lucide-react";
+import {
+  decodeTeredo,
+  extractEmbeddedIPv4,
+  ipv4To6to4,
+  ipv4ToMapped,
+  ipv4ToNat64,
+  NAT64_WELL_KNOWN_PREFIX,
+  type EmbeddedIPv4,
+  type EmbeddingKind,
+  type TeredoInfo,
+} from "@/lib/ipv6-translation";
+import { ipToBinary } from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Nome e explicação de cada forma de embutir o IPv4
+ */
+const EMBEDDINGS: Record<EmbeddingKind, { label: string; note: string }> = {
+  "ipv4-mapped": {
+    label: "IPv4 mapeado (RFC 4291)",
+    note: "Representa um IPv4 dentro de sockets IPv6; nunca aparece nos pacotes.",
+  },
+  "6to4": {
+    label: "6to4 (RFC 3056)",
+    note: "O /48 de um site 6to4 é 2002: seguido do IPv4 público do roteador. Mecanismo obsoleto (RFC 7526).",
+  },
+  nat64: {
+    label: "NAT64 (RFC 6052)",
+    note: "O IPv4 segue o prefixo NAT64, pulando os bits 64 a 71 (octeto \"u\") quando o prefixo é menor que /96.",
+  },
+  "teredo-server": {
+    label: "Teredo: servidor",
+    note: "Os 32 bits depois de 2001:0000 são o IPv4 do servidor Teredo.",
+  },
+  "teredo-client": {
+    label: "Teredo: cliente",
+    note: "Os 32 bits finais são o IPv4 público do cliente invertido bit a bit; o valor exibido já está decodificado.",
+  },
+};
+
+/**
+ * Forma expandida do IPv6 com os nibbles que carregam o IPv4 destacados
+ */
+const EnderecoExpandido = ({ expanded, ipv4Nibbles }: { expanded: string; ipv4Nibbles: number[] }) => {
+  const marked = new Set(ipv4Nibbles);
+  let nibble = 0;
+
+  return (
+    <span className="break-all font-mono text-sm">
+      {expanded.split("").map((char, index) => {
+        if (char === ":") return <span key={index}>:</span>;
+        const position = nibble++;
+        return marked.has(position) ? (
+          <mark key={index} className="rounded-sm bg-primary/20 text-primary">
+            {char}
+          </mark>
+        ) : (
+          <span key={index} className="text-muted-foreground">
+            {char}
+          </span>
+        );
+      })}
+    </span>
+  );
+};
+
+/**
+ * Um IPv4 embutido: o IPv6, a posição do IPv4 na forma expandida e o IPv4 em binário
+ */
+const EnderecoEmbutido = ({ item }: { item: EmbeddedIPv4 }) => (
+  <li className="space-y-2 rounded-lg border border-border/50 bg-muted/30 p-4">
+    <div className="flex flex-wrap items-center justify-between gap-2">
+      <p className="font-medium">{EMBEDDINGS[item.kind].label}</p>
+      {item.prefix && <Badge variant="outline">{item.prefix}</Badge>}
+    </div>
+    <p className="flex flex-wrap items-center gap-2 font-mono text-sm">
+      <span className="font-semibold">{item.ipv4}</span>
+      <ArrowRight className="h-3 w-3 text-muted-foreground" aria-hidden="true" />
+      <span className="break-all font-semibold text-primary">{item.ipv6}</span>
+    </p>
+    <EnderecoExpandido expanded={item.expanded} ipv4Nibbles={item.ipv4Nibbles} />
+    <p className="font-mono text-sm text-muted-foreground">
+      <span className="sr-only">IPv4 em binário: </span>
+      {ipToBinary(item.ipv4)}
+    </p>
+    <p className="text-sm text-muted-foreground">{EMBEDDINGS[item.kind].note}</p>
+  </li>
+);
+
+/**
+ * Converte IPv4 em IPv6 (mapeado, 6to4 e NAT64) e encontra o IPv4 embutido em
+ * um IPv6, inclusive os campos de um endereço Teredo
+ */
+const TraducaoIPv4IPv6 = () => {
+  const [nat64Prefix, setNat64Prefix] = useState(NAT64_WELL_KNOWN_PREFIX);
+  const [ipv4, setIpv4] = useState("");
+  const [ipv6, setIpv6] = useState("");
+  const [conversions, setConversions] = useState<EmbeddedIPv4[] | null>(null);
+  const [decoded, setDecoded] = useState<{ address: string; found: EmbeddedIPv4[]; teredo: TeredoInfo | null } | null>(
+    null
+  );
+  const { toast } = useToast();
+
+  const showError = (title: string, error: unknown) =>
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Não foi possível concluir a operação",
+      variant: "destructive",
+    });
+
+  const handleConvert = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const address = ipv4.trim();
+      setConversions([ipv4ToMapped(address), ipv4To6to4(address), ipv4ToNat64(address, nat64Prefix)]);
+    } catch (error) {
+      setConversions(null);
+      showError("Erro na conversão", error);
+    }
+  };
+
+  const handleDecode = (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const address = ipv6.trim();
+      const found = extractEmbeddedIPv4(address, nat64Prefix);
+      const teredo = found.some(item => item.kind === "teredo-client") ? decodeTeredo(address) : null;
+      setDecoded({ address, found, teredo });
+    } catch (error) {
+      setDecoded(null);
+      showError("Erro na decodificação", error);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <ArrowLeftRight className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Tradução IPv4/IPv6</h1>
+        <p className="text-lg text-muted-foreground">
+          Veja onde o IPv4 fica dentro do IPv6 no IPv4 mapeado, no 6to4, no NAT64 e no Teredo
+        </p>
+      </header>
+
+      <div className="mb-6 space-y-2">
+        <Label htmlFor="traducao-nat64">Prefixo NAT64 da rede</Label>
+        <Input
+          id="traducao-nat64"
+          type="text"
+          autoComplete="off"
+          placeholder={`Ex: ${NAT64_WELL_KNOWN_PREFIX} ou 2001:db8:122::/48`}
+          value={nat64Prefix}
+          onChange={(e) => setNat64Prefix(e.target.value)}
+          className="font-mono shadow-sm dark:shadow-none sm:w-80"
+        />
+        <p className="text-sm text-muted-foreground">
+          Prefixo bem conhecido ou específico da rede: /32, /40, /48, /56, /64 ou /96
+        </p>
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        <Card className="space-y-4 p-6 shadow-sm dark:shadow-none">
+          <h2 className="text-lg font-medium text-foreground">IPv4 → IPv6</h2>
+          <form className="flex flex-col gap-2 sm:flex-row" onSubmit={handleConvert} aria-label="Converter IPv4 em IPv6">
+            <Label htmlFor="traducao-ipv4" className="sr-only">
+              Endereço IPv4
+            </Label>
+            <Input
+              id="traducao-ipv4"
+              type="text"
+              autoComplete="off"
+              placeholder="Ex: 192.0.2.33"
+              value={ipv4}
+              onChange={(e) => setIpv4(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+            <Button type="submit" disabled={!ipv4.trim() || !nat64Prefix.trim()}>
+              <ArrowLeftRight className="mr-2 h-4 w-4" aria-hidden="true" />
+              Converter
+            </Button>
+          </form>
+
+          <section aria-live="polite">
+            {conversions && (
+              <ul className="space-y-3" aria-label="IPv6 com o IPv4 embutido">
+                {conversions.map(item => (
+                  <EnderecoEmbutido key={item.kind} item={item} />
+                ))}
+              </ul>
+            )}
+          </section>
+        </Card>
+
+        <Card className="space-y-4 p-6 shadow-sm dark:shadow-none">
+          <h2 className="text-lg font-medium text-foreground">IPv6 → IPv4</h2>
+          <form className="flex flex-col gap-2 sm:flex-row" onSubmit={handleDecode} aria-label="Extrair IPv4 de um IPv6">
+            <Label htmlFor="traducao-ipv6" className="sr-only">
+              Endereço IPv6
+            </Label>
+            <Input
+              id="traducao-ipv6"
+              type="text"
+              autoComplete="off"
+              placeholder="Ex: 2001:0:4136:e378:8000:63bf:3fff:fdd2"
+              value={ipv6}
+              onChange={(e) => setIpv6(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+            <Button type="submit" variant="secondary" disabled={!ipv6.trim() || !nat64Prefix.trim()}>
+              <Search className="mr-2 h-4 w-4" aria-hidden="true" />
+              Extrair IPv4
+            </Button>
+          </form>
+
+          <section aria-live="polite" className="space-y-3">
+            {decoded && decoded.found.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                {decoded.address} não está em ::ffff:0:0/96, 2002::/16, 2001::/32 nem no prefixo NAT64 {nat64Prefix}
+              </p>
+            )}
+            {decoded?.teredo && (
+              <dl className="grid grid-cols-2 gap-2 rounded-lg border border-border/50 p-4 text-sm">
+                <dt className="font-medium">Servidor Teredo</dt>
+                <dd className="font-mono">{decoded.teredo.server}</dd>
+                <dt className="font-medium">IPv4 público do cliente</dt>
+                <dd className="font-mono">{decoded.teredo.clientIPv4}</dd>
+                <dt className="font-medium">Porta UDP do cliente</dt>
+                <dd className="font-mono">{decoded.teredo.clientPort}</dd>
+                <dt className="font-medium">Flags</dt>
+                <dd className="font-mono">
+                  0x{decoded.teredo.flags.toString(16).padStart(4, "0")} ({decoded.teredo.cone ? "NAT cone" : "NAT restrito"})
+                </dd>
+              </dl>
+            )}
+            {decoded && decoded.found.length > 0 && (
+              <ul className="space-y-3" aria-label="IPv4 embutidos">
+                {decoded.found.map(item => (
+                  <EnderecoEmbutido key={item.kind} item={item} />
+                ))}
+              </ul>
+            )}
+          </section>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TraducaoIPv4IPv6;
@@ -0,0 +1,150 @@
+import { useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Grid3X3 } from "lucide-react";
+import { checkMembership, splitEntries, type MembershipRelation } from "@/lib/subnet-utils";
+import { useToast } from "@/hooks/use-toast";
+
+type MembershipResult = {
+  prefixes: string[];
+  targets: string[];
+  matrix: MembershipRelation[][];
+};
+
+/** Rótulo e estilo de cada relação na matriz */
+const RELATION_STYLES: Record<MembershipRelation, { label: string; className: string }> = {
+  contains: { label: "Contém", className: "bg-success/20 text-success font-medium" },
+  overlaps: { label: "Sobreposição", className: "bg-warning/20 text-warning font-medium" },
+  disjoint: { label: "—", className: "text-muted-foreground" },
+};
+
+/**
+ * Verificação de pertinência: cruza uma lista de prefixos com uma lista de
+ * endereços ou prefixos e mostra quem contém quem, destacando sobreposições
+ */
+const VerificacaoPertinencia = () => {
+  const [prefixInput, setPrefixInput] = useState("");
+  const [targetInput, setTargetInput] = useState("");
+  const [result, setResult] = useState<MembershipResult | null>(null);
+  const { toast } = useToast();
+
+  const handleCheck = (e: FormEvent) => {
+    e.preventDefault();
+
+    const prefixes = splitEntries(prefixInput);
+    const targets = splitEntries(targetInput);
+    try {
+      setResult({ prefixes, targets, matrix: checkMembership(prefixes, targets) });
+    } catch (error) {
+      setResult(null);
+      toast({
+        title: "Erro na verificação",
+        description: error instanceof Error ? error.message : "Não foi possível verificar a pertinência",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 md:p-6">
+      <header className="mb-8 text-center">
+        <div className="mb-4 flex justify-center">
+          <div className="rounded-full bg-primary/10 p-4" aria-hidden="true">
+            <Grid3X3 className="h-12 w-12 text-primary" />
+          </div>
+        </div>
+        <h1 className="mb-2 text-4xl font-bold text-foreground">Verificação de Pertinência</h1>
+        <p className="text-lg text-muted-foreground">
+          Descubra quais prefixos contêm cada endereço ou prefixo
+        </p>
+      </header>
+
+      <form className="space-y-4" onSubmit={handleCheck} aria-label="Formulário de verificação de pertinência">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="membership-prefixes">Prefixos</Label>
+            <Textarea
+              id="membership-prefixes"
+              rows={6}
+              placeholder={"Ex:\n10.4.0.0/21\n10.4.8.0/22"}
+              value={prefixInput}
+              onChange={(e) => setPrefixInput(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="membership-targets">Endereços ou prefixos</Label>
+            <Textarea
+              id="membership-targets"
+              rows={6}
+              placeholder={"Ex:\n10.4.7.9\n10.4.0.0/16"}
+              value={targetInput}
+              onChange={(e) => setTargetInput(e.target.value)}
+              className="font-mono shadow-sm dark:shadow-none"
+            />
+          </div>
+        </div>
+
+        <Button type="submit" size="lg" className="w-full" disabled={!prefixInput.trim() || !targetInput.trim()}>
+          <Grid3X3 className="mr-2 h-4 w-4" aria-hidden="true" />
+          Verificar
+        </Button>
+      </form>
+
+      <section aria-live="polite">
+        {result && (
+          <Card className="mt-8 p-6 shadow-sm dark:shadow-none">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold">Matriz de Pertinência</h2>
+              <div className="flex gap-2">
+                <Badge variant="outline" className="bg-success/20 text-success">Contém</Badge>
+                <Badge variant="outline" className="bg-warning/20 text-warning">Sobreposição</Badge>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Alvo</TableHead>
+                  {result.prefixes.map((prefix, index) => (
+                    <TableHead key={`${prefix}-${index}`} className="font-mono text-center">
+                      {prefix}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.targets.map((target, row) => (
+                  <TableRow key={`${target}-${row}`}>
+                    <TableCell className="font-mono font-medium">{target}</TableCell>
+                    {result.matrix[row].map((relation, column) => (
+                      <TableCell
+                        key={column}
+                        className={`text-center ${RELATION_STYLES[relation].className}`}
+                      >
+                        {RELATION_STYLES[relation].label}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default VerificacaoPertinencia;
@@ -0,0 +1,97 @@
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp } from "lucide-react";
+import { subnetNeighborhood } from "@/lib/subnet-utils";
+
+interface VizinhancaSubredeProps {
+  /** Rede em notação CIDR (ex: '192.168.1.64/26') */
+  network: string;
+  /** Recalcula a calculadora para o bloco escolhido */
+  onSelect: (network: string) => void;
+}
+
+/**
+ * Botão de um bloco vizinho; clicar recalcula a calculadora para ele
+ */
+const BlocoVizinho = ({ network, onSelect }: VizinhancaSubredeProps) => (
+  <Button
+    type="button"
+    variant="outline"
+    size="sm"
+    className="font-mono"
+    onClick={() => onSelect(network)}
+    aria-label={`Calcular ${network}`}
+  >
+    {network}
+  </Button>
+);
+
+/**
+ * Navegação pelo espaço de endereçamento a partir da rede calculada:
+ * blocos anterior e próximo, cadeia de blocos pais e as duas metades
+ */
+export const VizinhancaSubrede = ({ network, onSelect }: VizinhancaSubredeProps) => {
+  const { previous, next, sibling, parents, children } = subnetNeighborhood(network);
+  const length = network.split("/")[1];
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-2">
+        <p className="font-medium text-muted-foreground">Blocos /{length} vizinhos</p>
+        <div className="flex flex-wrap items-center gap-2">
+          {previous ? (
+            <span className="flex items-center gap-1">
+              <ArrowLeft className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+              <BlocoVizinho network={previous} onSelect={onSelect} />
+            </span>
+          ) : (
+            <span className="text-muted-foreground">Início do espaço de endereçamento</span>
+          )}
+          <span className="rounded-md bg-primary/10 px-3 py-1.5 font-mono text-primary" aria-current="true">
+            {network}
+          </span>
+          {next ? (
+            <span className="flex items-center gap-1">
+              <BlocoVizinho network={next} onSelect={onSelect} />
+              <ArrowRight className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+            </span>
+          ) : (
+            <span className="text-muted-foreground">Fim do espaço de endereçamento</span>
+          )}
+        </div>
+        {sibling && parents.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {sibling} é a outra metade de {parents[0]}; juntas, as duas formam o bloco pai
+          </p>
+        )}
+      </div>
+
+      {parents.length > 0 && (
+        <div className="space-y-2">
+          <p className="flex items-center gap-1 font-medium text-muted-foreground">
+            <ArrowUp className="h-4 w-4" aria-hidden="true" />
+            Blocos pais (até /0)
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {parents.map(parent => (
+              <BlocoVizinho key={parent} network={parent} onSelect={onSelect} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {children.length > 0 && (
+        <div className="space-y-2">
+          <p className="flex items-center gap-1 font-medium text-muted-foreground">
+            <ArrowDown className="h-4 w-4" aria-hidden="true" />
+            Metades (/{Number(length) + 1})
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {children.map(child => (
+              <BlocoVizinho key={child} network={child} onSelect={onSelect} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import CalculadoraSubrede from '../CalculadoraSubrede';
+import { TooltipProvider } from '../ui/tooltip';
+import { describe, it, expect } from 'vitest';
+
+const renderCalculator = () =>
+  render(
+    <TooltipProvider>
+      <CalculadoraSubrede />
+    </TooltipProvider>
+  );
+
+describe('CalculadoraSubrede', () => {
+  it('deve distribuir IP e máscara colados juntos no campo de IP', () => {
+    renderCalculator();
+
+    fireEvent.paste(screen.getByLabelText('Endereço IP'), {
+      clipboardData: { getData: () => '10.20.30.40/27' },
+    });
+
+    expect(screen.getByLabelText('Endereço IP')).toHaveValue('10.20.30.40');
+    expect(screen.getByLabelText('Máscara de Sub-rede')).toHaveValue('/27');
+  });
+
+  it('deve mostrar e separar a máscara digitada junto ao IP', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Máscara de Sub-rede'), { target: { value: '255.255.0.0' } });
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '10.0.0.1/24' } });
+
+    expect(screen.getByLabelText('Máscara de Sub-rede')).toHaveValue('/24');
+    expect(screen.getByLabelText('Máscara de Sub-rede')).toBeDisabled();
+
+    fireEvent.blur(screen.getByLabelText('Endereço IP'));
+
+    expect(screen.getByLabelText('Endereço IP')).toHaveValue('10.0.0.1');
+    expect(screen.getByLabelText('Máscara de Sub-rede')).toHaveValue('/24');
+    expect(screen.getByLabelText('Máscara de Sub-rede')).toBeEnabled();
+  });
+
+  it('deve aplicar o exemplo rápido mesmo com a máscara digitada junto ao IP', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '10.0.0.1/24' } });
+    fireEvent.click(screen.getByRole('button', { name: /Usar máscara \/16/ }));
+
+    expect(screen.getByLabelText('Endereço IP')).toHaveValue('10.0.0.1');
+    expect(screen.getByLabelText('Máscara de Sub-rede')).toHaveValue('/16');
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+    expect(screen.getByText('10.0.255.255')).toBeInTheDocument();
+  });
+
+  it('deve calcular a partir de notações alternativas de endereço', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '0x0A141E28 255.255.255.224' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+
+    expect(screen.getByText('10.20.30.32')).toBeInTheDocument();
+    expect(screen.getByText('10.20.30.63')).toBeInTheDocument();
+  });
+
+  it('deve limpar o resultado sem falhar ao editar o IP depois do cálculo', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '10.0.0.1/24' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+    expect(screen.getByText('10.0.0.255')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '10.0.0.1/' } });
+    expect(screen.queryByText('10.0.0.255')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '10.0.0.1' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '10.0.0.1:' } });
+    expect(screen.getByText('IPv6')).toBeInTheDocument();
+  });
+
+  it('deve indicar o octeto inválido do endereço', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '192.168.300.1' } });
+
+    expect(screen.getByText(/3º octeto \("300"\)/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Endereço IP')).toHaveAttribute('aria-describedby', 'ip-error');
+  });
+
+  it('deve sugerir a máscara contígua mais próxima e aplicá-la', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Máscara de Sub-rede'), { target: { value: '255.255.255.1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Usar 255.255.255.0 (/24)' }));
+
+    expect(screen.getByLabelText('Máscara de Sub-rede')).toHaveValue('255.255.255.0');
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('deve recalcular ao clicar em um bloco vizinho', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '192.168.1.70/26' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+
+    expect(screen.getByRole('button', { name: 'Calcular 192.168.1.0/26' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Calcular 0.0.0.0/0' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Calcular 192.168.1.96/27' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Calcular 192.168.1.128/26' }));
+
+    expect(screen.getByLabelText('Endereço IP')).toHaveValue('192.168.1.128');
+    expect(screen.getByLabelText('Máscara de Sub-rede')).toHaveValue('/26');
+    expect(screen.getByText('192.168.1.191')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Calcular 192.168.1.192/26' })).toBeInTheDocument();
+  });
+
+  it('deve gerar a delegação RFC 2317 de uma rede menor que /24', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '192.168.1.70/27' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Gerar zonas' }));
+
+    expect(screen.getByText('1.168.192.in-addr.arpa')).toBeInTheDocument();
+    expect(screen.getByText('Zona filha (64/27.1.168.192.in-addr.arpa)')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Servidores de nomes'), { target: { value: 'ns1.cliente.example' } });
+    expect(screen.getByText(/64\/27 IN NS ns1\.cliente\.example\./)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Servidores de nomes'), { target: { value: 'ns_1' } });
+    expect(screen.getByRole('alert')).toHaveTextContent('Servidor de nomes inválido: "ns_1"');
+  });
+
+  it('deve exportar registros A, PTR e /etc/hosts a partir de um padrão de nomes', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '10.0.0.0/24' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Nomear hosts' }));
+
+    fireEvent.change(screen.getByLabelText('Padrão'), { target: { value: 'srv-{n:02}.lab.example' } });
+    expect(screen.getByLabelText('Quantidade')).toHaveAttribute('max', '254');
+    fireEvent.change(screen.getByLabelText('Quantidade'), { target: { value: '3' } });
+    fireEvent.change(screen.getByLabelText('A partir do host nº'), { target: { value: '10' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Gerar registros' }));
+
+    expect(screen.getByText(/srv-01\.lab\.example\. IN A 10\.0\.0\.10/)).toBeInTheDocument();
+    expect(screen.getByText(/12\.0\.0\.10\.in-addr\.arpa\. IN PTR srv-03\.lab\.example\./)).toBeInTheDocument();
+    expect(screen.getByText(/10\.0\.0\.11 srv-02\.lab\.example srv-02/)).toBeInTheDocument();
+  });
+
+  it('deve detectar IPv6 e calcular o prefixo com contagens e nibbles', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '2001:DB8:abcd:12::1/48' } });
+    expect(screen.getByText('IPv6')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+
+    expect(screen.getByText('2001:db8:abcd::/48')).toBeInTheDocument();
+    expect(screen.getByText('2001:db8:abcd:ffff:ffff:ffff:ffff:ffff')).toBeInTheDocument();
+    expect(screen.getByText('65.536 (2^16)')).toBeInTheDocument();
+    expect(screen.getByText('1.208.925.819.614.629.174.706.176 (2^80)')).toBeInTheDocument();
+    expect(screen.getByText(/fixa os 12 primeiros nibbles/)).toBeInTheDocument();
+  });
+
+  it('deve usar /64 para IPv6 sem prefixo, ignorando o campo de máscara IPv4', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '2001:db8::1' } });
+    expect(screen.queryByLabelText('Máscara de Sub-rede')).not.toBeInTheDocument();
+    expect(screen.getByText(/o prefixo usado é \/64/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+
+    expect(screen.getByText('2001:db8::/64')).toBeInTheDocument();
+    expect(screen.getByText('2001:db8::ffff:ffff:ffff:ffff')).toBeInTheDocument();
+  });
+
+  it('deve aceitar só o comprimento do prefixo como máscara IPv6', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: '2001:db8::1/255.255.255.0' } });
+
+    expect(screen.getByText('Use o comprimento do prefixo, ex: /64')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Calcular Sub-rede/ })).toBeDisabled();
+  });
+
+  it('deve mostrar o tipo IPv6, o nó solicitado e o MAC multicast', () => {
+    renderCalculator();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: 'fe80::211:22ff:fe33:4455/64' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+
+    expect(screen.getAllByText('Link-local unicast')).toHaveLength(2);
+    expect(screen.getByText('Escopo: Enlace')).toBeInTheDocument();
+    expect(screen.getByText('ff02::1:ff33:4455')).toBeInTheDocument();
+    expect(screen.getByText('33:33:ff:33:44:55')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Endereço IP'), { target: { value: 'ff02::1/128' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calcular Sub-rede/ }));
+
+    expect(screen.getByText('Todos os nós')).toBeInTheDocument();
+    expect(screen.getByText('33:33:00:00:00:01')).toBeInTheDocument();
+    expect(screen.queryByText('Nó Solicitado')).not.toBeInTheDocument();
+  });
+});
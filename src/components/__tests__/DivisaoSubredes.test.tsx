@@ -0,0 +1,34 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import DivisaoSubredes from '../DivisaoSubredes';
+import { describe, it, expect } from 'vitest';
+
+describe('DivisaoSubredes', () => {
+  const split = (network: string, amount: string) => {
+    fireEvent.change(screen.getByLabelText('Rede'), { target: { value: network } });
+    fireEvent.change(screen.getByLabelText('Dividir por'), { target: { value: amount } });
+    fireEvent.click(screen.getByRole('button', { name: /Dividir Rede/ }));
+  };
+
+  it('deve listar todas as sub-redes da divisão', () => {
+    render(<DivisaoSubredes />);
+    split('192.168.10.0/24', '8');
+
+    expect(screen.getByText('192.168.10.0/24 → /27')).toBeInTheDocument();
+    expect(screen.getByText('192.168.10.0/27')).toBeInTheDocument();
+    expect(screen.getByText('192.168.10.224/27')).toBeInTheDocument();
+    expect(screen.getByText('192.168.10.254')).toBeInTheDocument();
+  });
+
+  it('deve paginar divisões grandes', () => {
+    render(<DivisaoSubredes />);
+    split('10.0.0.0/16', '64');
+
+    expect(screen.getByText('10.0.0.0/22')).toBeInTheDocument();
+    expect(screen.queryByText('10.0.64.0/22')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('link', { name: 'Próxima página' }));
+
+    expect(screen.getByText('10.0.64.0/22')).toBeInTheDocument();
+    expect(screen.queryByText('10.0.0.0/22')).not.toBeInTheDocument();
+  });
+});
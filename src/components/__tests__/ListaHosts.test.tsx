@@ -0,0 +1,38 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ListaHosts } from '../ListaHosts';
+import { describe, it, expect } from 'vitest';
+
+describe('ListaHosts', () => {
+  const jump = (position: string) => {
+    fireEvent.change(screen.getByLabelText('Ir para o host nº'), { target: { value: position } });
+    fireEvent.click(screen.getByRole('button', { name: 'Ir' }));
+  };
+
+  it('deve renderizar apenas as linhas visíveis de uma /8', () => {
+    render(<ListaHosts network="10.0.0.0/8" usableHosts={16777214} />);
+
+    expect(screen.getByText('10.0.0.1')).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem').length).toBeLessThanOrEqual(11);
+  });
+
+  it('deve saltar para a posição informada', () => {
+    render(<ListaHosts network="10.0.0.0/8" usableHosts={16777214} />);
+
+    jump('200');
+    expect(screen.getByText('10.0.0.200')).toBeInTheDocument();
+    expect(screen.queryByText('10.0.0.1')).not.toBeInTheDocument();
+
+    jump('16777214');
+    expect(screen.getByText('10.255.255.254')).toBeInTheDocument();
+  });
+
+  it('deve acompanhar a rolagem da lista', () => {
+    render(<ListaHosts network="192.168.0.0/24" usableHosts={254} />);
+
+    const list = screen.getByRole('list');
+    list.scrollTop = 32 * 100;
+    fireEvent.scroll(list);
+
+    expect(screen.getByText('192.168.0.101')).toBeInTheDocument();
+  });
+});
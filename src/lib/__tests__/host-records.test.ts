@@ -0,0 +1,63 @@
+import { assignHostnames, expandHostnamePattern, exportHostRecords } from '../host-records';
+
+describe('Host Records', () => {
+  it('should expand the host number placeholder', () => {
+    expect(expandHostnamePattern('srv-{n:02}.lab.example', 7)).toBe('srv-07.lab.example');
+    expect(expandHostnamePattern('srv-{n:02}.lab.example', 123)).toBe('srv-123.lab.example');
+    expect(expandHostnamePattern('node{n}', 5)).toBe('node5');
+    expect(expandHostnamePattern('rack{n:03}-u{n}', 4)).toBe('rack004-u4');
+    expect(() => expandHostnamePattern('srv-{i}', 1)).toThrow('Marcador desconhecido no padrão: "{i}"');
+  });
+
+  it('should assign pattern names to the usable hosts in order', () => {
+    expect(assignHostnames('10.0.0.0/24', { pattern: 'srv-{n:02}.lab.example' }, { count: 3 })).toEqual([
+      { hostname: 'srv-01.lab.example', address: '10.0.0.1', ptr: '1.0.0.10.in-addr.arpa' },
+      { hostname: 'srv-02.lab.example', address: '10.0.0.2', ptr: '2.0.0.10.in-addr.arpa' },
+      { hostname: 'srv-03.lab.example', address: '10.0.0.3', ptr: '3.0.0.10.in-addr.arpa' },
+    ]);
+  });
+
+  it('should assign an explicit list starting at a given host', () => {
+    const records = assignHostnames('192.168.10.64/26', { names: ['gw.lab.example.', ' dns ', '', 'ntp'] }, {
+      firstHost: 10,
+    });
+    expect(records.map(record => [record.hostname, record.address])).toEqual([
+      ['gw.lab.example', '192.168.10.74'],
+      ['dns', '192.168.10.75'],
+      ['ntp', '192.168.10.76'],
+    ]);
+  });
+
+  it('should reject invalid, repeated or excess names', () => {
+    expect(() => assignHostnames('10.0.0.0/30', { pattern: 'h{n}' }, { count: 3 })).toThrow(
+      '10.0.0.0/30 tem 2 hosts a partir do 1º; não cabem 3 nomes'
+    );
+    expect(() => assignHostnames('10.0.0.0/24', { pattern: 'h{n}' }, { count: 3000000 })).toThrow(
+      '10.0.0.0/24 tem 254 hosts a partir do 1º; não cabem 3000000 nomes'
+    );
+    expect(() => assignHostnames('10.0.0.0/24', { pattern: 'srv' }, { count: 2 })).toThrow('marcador {n}');
+    expect(() => assignHostnames('10.0.0.0/24', { pattern: 'srv-{n}' })).toThrow('Informe quantos hosts');
+    expect(() => assignHostnames('10.0.0.0/24', { names: ['web', 'WEB'] })).toThrow('Nome de host repetido: "WEB"');
+    expect(() => assignHostnames('10.0.0.0/24', { names: ['web_1'] })).toThrow('Nome de host inválido: "web_1"');
+    expect(() => assignHostnames('10.0.0.0/24', { names: [] })).toThrow('ao menos um nome');
+  });
+
+  it('should export BIND records and an /etc/hosts block', () => {
+    const exported = exportHostRecords('10.0.0.8/29', { names: ['a.lab.example', 'router'] });
+
+    expect(exported.forward).toBe(['a.lab.example. IN A   10.0.0.9', 'router.        IN A   10.0.0.10'].join('\n'));
+    expect(exported.reverse).toBe(
+      ['9.0.0.10.in-addr.arpa.  IN PTR a.lab.example.', '10.0.0.10.in-addr.arpa. IN PTR router.'].join('\n')
+    );
+    expect(exported.hostsFile).toBe(
+      ['# 10.0.0.8/29', '10.0.0.9   a.lab.example a', '10.0.0.10  router'].join('\n')
+    );
+  });
+
+  it('should export large networks without overflowing the call stack', () => {
+    const exported = exportHostRecords('10.0.0.0/14', { pattern: 'h{n}' }, { count: 200000 });
+
+    expect(exported.records).toHaveLength(200000);
+    expect(exported.forward.split('\n')[0]).toBe('h1.      IN A   10.0.0.1');
+  });
+});
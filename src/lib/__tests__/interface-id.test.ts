@@ -0,0 +1,85 @@
+import {
+  eui64Address,
+  isReservedInterfaceId,
+  macFromEui64,
+  parseMac,
+  stablePrivacyAddress,
+  temporaryAddress,
+} from '../interface-id';
+import { IPv6Address, IPv6Prefix } from '../subnet-utils';
+
+describe('Interface Identifiers', () => {
+  it('should read MAC addresses in the common notations', () => {
+    const bytes = [0x00, 0x11, 0x22, 0x33, 0x44, 0x55];
+    expect(parseMac('00:11:22:33:44:55')).toEqual(bytes);
+    expect(parseMac('00-11-22-33-44-55')).toEqual(bytes);
+    expect(parseMac('0011.2233.4455')).toEqual(bytes);
+    expect(parseMac('001122334455')).toEqual(bytes);
+    expect(() => parseMac('00:11-22:33:44:55')).toThrow('Endereço MAC inválido');
+    expect(() => parseMac('00:11:22:33:44')).toThrow('Endereço MAC inválido');
+  });
+
+  it('should derive the modified EUI-64 address, flipping the U/L bit', () => {
+    const result = eui64Address('2001:db8:0:1::/64', '00:11:22:33:44:55');
+    expect(result).toMatchObject({
+      mac: '00:11:22:33:44:55',
+      prefix: '2001:db8:0:1::/64',
+      interfaceId: '0211:22ff:fe33:4455',
+      address: '2001:db8:0:1:211:22ff:fe33:4455',
+      universal: true,
+    });
+    expect(result.steps.map(step => step.hex.join(':'))).toEqual([
+      '00:11:22:33:44:55',
+      '00:11:22:ff:fe:33:44:55',
+      '02:11:22:ff:fe:33:44:55',
+    ]);
+    expect(result.steps[1].changedBits).toHaveLength(16);
+    expect(result.steps[2].changedBits).toEqual([6]);
+    expect(result.steps[2].binary[0]).toBe('00000010');
+
+    // MAC administrado localmente: o bit U/L vai de 1 para 0
+    expect(eui64Address('fe80::', '02:00:5e:10:00:01').interfaceId).toBe('0000:5eff:fe10:0001');
+  });
+
+  it('should reject prefixes other than /64 and group MACs', () => {
+    expect(() => eui64Address('2001:db8::/48', '00:11:22:33:44:55')).toThrow('o prefixo deve ser /64, não /48');
+    expect(() => eui64Address('2001:db8::/64', '01:00:5e:00:00:01')).toThrow('é de grupo');
+  });
+
+  it('should recover the MAC from an EUI-64 address', () => {
+    expect(macFromEui64('2001:db8:0:1:211:22ff:fe33:4455')).toBe('00:11:22:33:44:55');
+    expect(macFromEui64('fe80::5eff:fe10:1%eth0')).toBe('02:00:5e:10:00:01');
+    expect(macFromEui64('2001:db8::1')).toBeNull();
+  });
+
+  it('should generate RFC 7217 stable addresses from the prefix and the secret', async () => {
+    const params = { interfaceName: 'eth0', secretKey: 'segredo-do-host' };
+    const stable = await stablePrivacyAddress('2001:db8:0:1::/64', params);
+
+    expect(stable).toEqual({
+      prefix: '2001:db8:0:1::/64',
+      interfaceId: 'f0f6:e506:ccf1:3a0b',
+      address: '2001:db8:0:1:f0f6:e506:ccf1:3a0b',
+      dadCounter: 0,
+    });
+    expect(await stablePrivacyAddress('2001:db8:0:1::/64', params)).toEqual(stable);
+    expect((await stablePrivacyAddress('2001:db8:0:2::/64', params)).interfaceId).not.toBe(stable.interfaceId);
+    expect((await stablePrivacyAddress('2001:db8:0:1::/64', { ...params, dadCounter: 1 })).interfaceId).not.toBe(
+      stable.interfaceId
+    );
+    await expect(stablePrivacyAddress('2001:db8::/64', { ...params, secretKey: '' })).rejects.toThrow('chave secreta');
+  });
+
+  it('should generate random temporary addresses outside the reserved identifiers', () => {
+    const first = temporaryAddress('2001:db8::/64');
+    const second = temporaryAddress('2001:db8::/64');
+
+    expect(IPv6Prefix.parse(first.prefix).contains(IPv6Address.parse(first.address))).toBe(true);
+    expect(first.interfaceId).toMatch(/^[0-9a-f]{4}(:[0-9a-f]{4}){3}$/);
+    expect(first.interfaceId).not.toBe(second.interfaceId);
+    expect(isReservedInterfaceId(0n)).toBe(true);
+    expect(isReservedInterfaceId(0x02005efffe000001n)).toBe(true);
+    expect(isReservedInterfaceId(0xfdffffffffffff80n)).toBe(true);
+    expect(isReservedInterfaceId(0x021122fffe334455n)).toBe(false);
+  });
+});
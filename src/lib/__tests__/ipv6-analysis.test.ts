@@ -0,0 +1,76 @@
+import { analyzeIPv6Address, solicitedNodeAddress } from '../ipv6-analysis';
+
+describe('IPv6 Address Analysis', () => {
+  const typeOf = (ip: string) => analyzeIPv6Address(ip).type;
+
+  it('should classify the main address types', () => {
+    expect(typeOf('::')).toBe('unspecified');
+    expect(typeOf('::1')).toBe('loopback');
+    expect(typeOf('::ffff:192.0.2.1')).toBe('ipv4-mapped');
+    expect(typeOf('64:ff9b:1:2::1')).toBe('ipv4-translated');
+    expect(typeOf('fe80::1%eth0')).toBe('link-local');
+    expect(typeOf('fd12:3456:789a::1')).toBe('unique-local');
+    expect(typeOf('fec0::1')).toBe('site-local');
+    expect(typeOf('2001:db8::1')).toBe('documentation');
+    expect(typeOf('3fff:1::1')).toBe('documentation');
+    expect(typeOf('2606:4700:4700::1111')).toBe('global-unicast');
+    expect(typeOf('ff02::1')).toBe('multicast');
+    expect(typeOf('4000::1')).toBe('reserved');
+  });
+
+  it('should report the unicast scope and the special-purpose blocks', () => {
+    expect(analyzeIPv6Address('fe80::1')).toMatchObject({ scope: 'link-local', typeLabel: 'Link-local unicast' });
+    expect(analyzeIPv6Address('fd00::1').scope).toBe('global');
+    expect(analyzeIPv6Address('::').scope).toBeNull();
+    expect(analyzeIPv6Address('2001:0:4136:e378::1').specialPurpose.map(block => block.prefix)).toEqual([
+      '2001::/32',
+      '2001::/23',
+    ]);
+    expect(analyzeIPv6Address('2606:4700:4700::1111').specialPurpose).toEqual([]);
+  });
+
+  it('should treat NAT64 addresses as translated unicast, not reserved', () => {
+    const analysis = analyzeIPv6Address('64:ff9b::c000:221');
+    expect(analysis).toMatchObject({
+      type: 'ipv4-translated',
+      typeLabel: 'Tradução IPv4/IPv6 (NAT64)',
+      scope: 'global',
+      solicitedNode: { address: 'ff02::1:ff00:221' },
+    });
+    expect(analysis.specialPurpose.map(block => [block.prefix, block.globallyReachable])).toEqual([
+      ['64:ff9b::/96', true],
+    ]);
+  });
+
+  it('should decode multicast scope, flags and well-known groups', () => {
+    expect(analyzeIPv6Address('ff02::1')).toMatchObject({
+      scope: 'link-local',
+      multicast: { scopeValue: 2, transient: false, prefixBased: false, embeddedRendezvousPoint: false },
+      multicastMac: '33:33:00:00:00:01',
+      solicitedNode: null,
+    });
+    expect(analyzeIPv6Address('ff02::1').multicast.wellKnownGroup).toBe('Todos os nós');
+    expect(analyzeIPv6Address('ff3e:30:2001:db8::4321').multicast).toMatchObject({
+      scope: 'global',
+      transient: true,
+      prefixBased: true,
+      wellKnownGroup: null,
+    });
+    expect(analyzeIPv6Address('ff76:0130:1234:5678:9abc::1').multicast).toMatchObject({
+      scope: 'unassigned',
+      embeddedRendezvousPoint: true,
+    });
+    expect(analyzeIPv6Address('ff02::1:ff33:4455').multicast.wellKnownGroup).toBe('Nó solicitado (Neighbor Discovery)');
+  });
+
+  it('should derive the solicited-node group and its Ethernet MAC', () => {
+    expect(solicitedNodeAddress('2001:db8::211:22ff:fe33:4455')).toEqual({
+      address: 'ff02::1:ff33:4455',
+      mac: '33:33:ff:33:44:55',
+    });
+    expect(analyzeIPv6Address('fe80::1').solicitedNode).toEqual({
+      address: 'ff02::1:ff00:1',
+      mac: '33:33:ff:00:00:01',
+    });
+  });
+});
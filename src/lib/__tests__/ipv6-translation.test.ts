@@ -0,0 +1,77 @@
+import {
+  decodeTeredo,
+  extractEmbeddedIPv4,
+  ipv4To6to4,
+  ipv4ToMapped,
+  ipv4ToNat64,
+  nat64ToIPv4,
+} from '../ipv6-translation';
+
+describe('IPv4/IPv6 Translation', () => {
+  it('should build IPv4-mapped and 6to4 addresses', () => {
+    expect(ipv4ToMapped('192.0.2.1')).toMatchObject({
+      kind: 'ipv4-mapped',
+      ipv6: '::ffff:192.0.2.1',
+      expanded: '0000:0000:0000:0000:0000:ffff:c000:0201',
+      ipv4Nibbles: [24, 25, 26, 27, 28, 29, 30, 31],
+    });
+    expect(ipv4To6to4('192.0.2.1')).toMatchObject({
+      ipv6: '2002:c000:201::',
+      prefix: '2002:c000:201::/48',
+      ipv4Nibbles: [4, 5, 6, 7, 8, 9, 10, 11],
+    });
+  });
+
+  it('should embed IPv4 in NAT64 prefixes of every RFC 6052 length', () => {
+    // Tabela de exemplos da seção 2.4 do RFC 6052
+    const examples: [string, string][] = [
+      ['2001:db8::/32', '2001:db8:c000:221::'],
+      ['2001:db8:100::/40', '2001:db8:1c0:2:21::'],
+      ['2001:db8:122::/48', '2001:db8:122:c000:2:2100::'],
+      ['2001:db8:122:300::/56', '2001:db8:122:3c0:0:221::'],
+      ['2001:db8:122:344::/64', '2001:db8:122:344:c0:2:2100:0'],
+      ['2001:db8:122:344::/96', '2001:db8:122:344::c000:221'],
+    ];
+    examples.forEach(([prefix, ipv6]) => {
+      expect(ipv4ToNat64('192.0.2.33', prefix).ipv6).toBe(ipv6);
+      expect(nat64ToIPv4(ipv6, prefix).ipv4).toBe('192.0.2.33');
+    });
+
+    expect(ipv4ToNat64('192.0.2.33')).toMatchObject({ ipv6: '64:ff9b::c000:221', prefix: '64:ff9b::/96' });
+    expect(ipv4ToNat64('192.0.2.33', '2001:db8:100::/40').ipv4Nibbles).toEqual([10, 11, 12, 13, 14, 15, 18, 19]);
+  });
+
+  it('should reject invalid NAT64 prefixes', () => {
+    expect(() => ipv4ToNat64('192.0.2.33', '2001:db8::/44')).toThrow('/32, /40, /48, /56, /64, /96, não /44');
+    expect(() => ipv4ToNat64('192.0.2.33', '2001:db8:0:0:ff00::/96')).toThrow('octeto "u"');
+    expect(() => nat64ToIPv4('2001:db8::1', '64:ff9b::/96')).toThrow('não pertence ao prefixo NAT64');
+  });
+
+  it('should decode Teredo server, port and client', () => {
+    // Exemplo do RFC 4380 / documentação da Microsoft
+    expect(decodeTeredo('2001:0:4136:e378:8000:63bf:3fff:fdd2')).toEqual({
+      address: '2001:0:4136:e378:8000:63bf:3fff:fdd2',
+      server: '65.54.227.120',
+      clientIPv4: '192.0.2.45',
+      clientPort: 40000,
+      flags: 0x8000,
+      cone: true,
+    });
+    expect(() => decodeTeredo('2001:db8::1')).toThrow('não é um endereço Teredo');
+  });
+
+  it('should find every embedded IPv4 in an address', () => {
+    const kinds = (ipv6: string, prefix?: string) =>
+      extractEmbeddedIPv4(ipv6, prefix).map(item => [item.kind, item.ipv4]);
+
+    expect(kinds('::ffff:10.0.0.1')).toEqual([['ipv4-mapped', '10.0.0.1']]);
+    expect(kinds('2002:c000:201:1::1')).toEqual([['6to4', '192.0.2.1']]);
+    expect(kinds('2001:0:4136:e378:8000:63bf:3fff:fdd2')).toEqual([
+      ['teredo-server', '65.54.227.120'],
+      ['teredo-client', '192.0.2.45'],
+    ]);
+    expect(kinds('64:ff9b::808:808')).toEqual([['nat64', '8.8.8.8']]);
+    expect(kinds('2001:db8:122:344:c0:2:2100:0', '2001:db8:122:344::/64')).toEqual([['nat64', '192.0.2.33']]);
+    expect(kinds('2606:4700::1')).toEqual([]);
+  });
+});
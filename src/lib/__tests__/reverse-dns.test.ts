@@ -0,0 +1,71 @@
+import { ptrName, reverseDnsPlan, reverseZones } from '../reverse-dns';
+import { SubnetError } from '../subnet-utils';
+
+describe('Reverse DNS', () => {
+  it('should build the PTR name of an address', () => {
+    expect(ptrName('192.168.1.10')).toBe('10.1.168.192.in-addr.arpa');
+    expect(() => ptrName('192.168.1.256')).toThrow(SubnetError);
+  });
+
+  it('should list the zones spanned by octet-aligned and unaligned networks', () => {
+    expect(reverseDnsPlan('192.168.1.0/24').zones).toEqual(['1.168.192.in-addr.arpa']);
+    expect(reverseDnsPlan('10.0.0.0/22').zones).toEqual([
+      '0.0.10.in-addr.arpa',
+      '1.0.10.in-addr.arpa',
+      '2.0.10.in-addr.arpa',
+      '3.0.10.in-addr.arpa',
+    ]);
+    expect(reverseDnsPlan('172.16.0.0/12').zones).toHaveLength(16);
+    expect(reverseDnsPlan('172.16.0.0/12').zones[15]).toBe('31.172.in-addr.arpa');
+    expect(reverseDnsPlan('10.0.0.0/8').zones).toEqual(['10.in-addr.arpa']);
+    expect(reverseDnsPlan('0.0.0.0/0').zones).toEqual(['in-addr.arpa']);
+    expect(reverseZones('192.168.1.200/29')).toEqual(['1.168.192.in-addr.arpa']);
+  });
+
+  it('should not delegate networks that fill whole zones', () => {
+    expect(reverseDnsPlan('10.0.0.0/23')).toMatchObject({ fullZones: true, delegation: null });
+  });
+
+  it('should generate the RFC 2317 delegation for networks smaller than /24', () => {
+    const plan = reverseDnsPlan('192.168.1.77/27', {
+      nameservers: ['ns1.customer.example', 'ns2.customer.example.'],
+      hostmaster: 'dns.customer.example',
+      serial: 2026101901,
+    });
+
+    expect(plan).toMatchObject({ network: '192.168.1.64/27', zones: ['1.168.192.in-addr.arpa'], fullZones: false });
+    expect(plan.delegation?.parentZone).toBe('1.168.192.in-addr.arpa');
+    expect(plan.delegation?.childZone).toBe('64/27.1.168.192.in-addr.arpa');
+
+    const parent = plan.delegation!.parentRecords.split('\n');
+    expect(parent).toContain('$ORIGIN 1.168.192.in-addr.arpa.');
+    expect(parent).toContain('64/27 IN NS    ns1.customer.example.');
+    expect(parent).toContain('64/27 IN NS    ns2.customer.example.');
+    expect(parent).toContain('65    IN CNAME 65.64/27');
+    expect(parent).toContain('95    IN CNAME 95.64/27');
+    expect(parent.filter(line => line.includes('CNAME'))).toHaveLength(32);
+
+    const child = plan.delegation!.childZoneFile.split('\n');
+    expect(child).toContain('$ORIGIN 64/27.1.168.192.in-addr.arpa.');
+    expect(child).toContain('@ IN SOA ns1.customer.example. dns.customer.example. (');
+    expect(child).toContain('    2026101901 ; serial');
+    expect(child.filter(line => line.includes('PTR'))).toHaveLength(30);
+    expect(child[child.length - 1]).toBe('; 94 IN PTR host-94.example.com.');
+  });
+
+  it('should support range labels and point-to-point links', () => {
+    const plan = reverseDnsPlan('10.1.2.4/31', { labelStyle: 'range', serial: 1 });
+    expect(plan.delegation?.childZone).toBe('4-5.2.1.10.in-addr.arpa');
+    expect(plan.delegation?.childZoneFile.split('\n').filter(line => line.includes('PTR'))).toEqual([
+      '; 4 IN PTR host-4.example.com.',
+      '; 5 IN PTR host-5.example.com.',
+    ]);
+  });
+
+  it('should reject invalid name servers', () => {
+    expect(() => reverseDnsPlan('10.0.0.0/25', { nameservers: ['ns 1.example.com'] })).toThrow(
+      'Servidor de nomes inválido: "ns 1.example.com"'
+    );
+    expect(() => reverseDnsPlan('10.0.0.0/25', { nameservers: [] })).toThrow('ao menos um servidor de nomes');
+  });
+});
@@ -0,0 +1,100 @@
+import { RouteTable } from '../route-table';
+import { SubnetError } from '../subnet-utils';
+
+describe('Route Table', () => {
+  const table = RouteTable.parse(`
+    # rota padrão e agregados
+    0.0.0.0/0        203.0.113.1
+    10.0.0.0/8       192.168.1.1 [110/20]
+    10.1.0.0/16      192.168.1.2 [110/30]
+    10.1.0.0/16      192.168.1.3 [110/10]
+    10.1.0.0/16      192.168.1.4 [1/0]
+    10.1.2.0 255.255.255.0 192.168.1.5 90 3072
+    10.1.2.0/24      192.168.1.6 90 3072
+    10.1.2.3/32      Null0
+  `);
+
+  it('should pick the longest matching prefix', () => {
+    expect(table.lookup('10.200.0.1').winner).toMatchObject({ prefix: '10.0.0.0/8', nextHop: '192.168.1.1' });
+    expect(table.lookup('10.1.2.3').winner).toMatchObject({ prefix: '10.1.2.3/32', nextHop: 'Null0' });
+    expect(table.lookup('8.8.8.8').winner).toMatchObject({ prefix: '0.0.0.0/0', nextHop: '203.0.113.1' });
+  });
+
+  it('should prefer lower administrative distance, then lower metric', () => {
+    const { winner, candidates } = table.lookup('10.1.9.9');
+    expect(winner).toMatchObject({ nextHop: '192.168.1.4', administrativeDistance: 1 });
+    expect(candidates.map(c => [c.route.nextHop, c.outcome])).toEqual([
+      ['192.168.1.4', 'selected'],
+      ['192.168.1.3', 'higher-distance'],
+      ['192.168.1.2', 'higher-distance'],
+      ['192.168.1.1', 'less-specific'],
+      ['203.0.113.1', 'less-specific'],
+    ]);
+
+    const ospfOnly = RouteTable.parse('10.1.0.0/16 192.168.1.2 [110/30]\n10.1.0.0/16 192.168.1.3 [110/10]');
+    expect(ospfOnly.lookup('10.1.0.1').candidates.map(c => c.outcome)).toEqual(['selected', 'higher-metric']);
+  });
+
+  it('should mark equal-cost paths', () => {
+    const { winner, candidates } = table.lookup('10.1.2.200');
+    expect(winner?.nextHop).toBe('192.168.1.5');
+    expect(candidates.slice(0, 2).map(c => [c.route.nextHop, c.outcome])).toEqual([
+      ['192.168.1.5', 'selected'],
+      ['192.168.1.6', 'ecmp'],
+    ]);
+  });
+
+  it('should list every candidate from most to least specific', () => {
+    expect(table.lookup('10.1.2.3').candidates.map(c => c.route.prefix)).toEqual([
+      '10.1.2.3/32',
+      '10.1.2.0/24',
+      '10.1.2.0/24',
+      '10.1.0.0/16',
+      '10.1.0.0/16',
+      '10.1.0.0/16',
+      '10.0.0.0/8',
+      '0.0.0.0/0',
+    ]);
+  });
+
+  it('should return no winner without a matching route', () => {
+    const noDefault = RouteTable.fromRoutes([
+      { prefix: '192.168.0.0/16', nextHop: 'Gi0/1', administrativeDistance: 0, metric: 0 },
+    ]);
+    expect(noDefault.lookup('172.16.0.1')).toEqual({ destination: '172.16.0.1', winner: null, candidates: [] });
+    expect(noDefault.lookup('192.168.255.255').winner?.nextHop).toBe('Gi0/1');
+  });
+
+  it('should normalize prefixes and default to a static route', () => {
+    const parsed = RouteTable.parse('172.16.5.1/12 10.0.0.1\n192.168.1.0 /24 10.0.0.2 200');
+    expect(parsed.size).toBe(2);
+    expect(parsed.routes).toEqual([
+      { prefix: '172.16.0.0/12', nextHop: '10.0.0.1', administrativeDistance: 1, metric: 0 },
+      { prefix: '192.168.1.0/24', nextHop: '10.0.0.2', administrativeDistance: 200, metric: 0 },
+    ]);
+  });
+
+  it('should report the line of an invalid route', () => {
+    const parse = (text: string) => () => RouteTable.parse(text);
+
+    expect(parse('0.0.0.0/0 10.0.0.1\n10.0.0.0/8')).toThrow('Rota inválida na linha 2: Informe o próximo salto');
+    expect(parse('10.0.0.0/33 10.0.0.1')).toThrow('linha 1');
+    expect(parse('10.0.0.0/8 10.0.0.1 abc')).toThrow('ex: 110 20 ou [110/20]');
+    expect(parse('10.0.0.0/8 10.0.0.1 [300/1]')).toThrow('entre 0 e 255');
+
+    const error = (() => {
+      try {
+        RouteTable.parse('\n\n10.0.0.0 10.0.0.1');
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(SubnetError);
+    expect((error as SubnetError).code).toBe('INVALID_ROUTE');
+    expect((error as SubnetError).details).toMatchObject({ line: 3, input: '10.0.0.0 10.0.0.1' });
+  });
+
+  it('should reject invalid destinations', () => {
+    expect(() => table.lookup('10.1.2.256')).toThrow(SubnetError);
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  classifyAddress,
+  classifyIPv6Address,
+  IPV6_SPECIAL_PURPOSE_REGISTRY,
+  SPECIAL_PURPOSE_REGISTRY,
+} from '../special-purpose';
+
+describe('Special-Purpose Classification', () => {
+  const names = (ip: string) => classifyAddress(ip).map(block => block.prefix);
+
+  it('should classify private and shared address space', () => {
+    expect(names('10.1.2.3')).toEqual(['10.0.0.0/8']);
+    expect(names('172.31.255.255')).toEqual(['172.16.0.0/12']);
+    expect(names('192.168.1.1')).toEqual(['192.168.0.0/16']);
+    expect(names('100.64.0.1')).toEqual(['100.64.0.0/10']);
+    expect(names('100.128.0.1')).toEqual([]);
+  });
+
+  it('should return the most specific block first', () => {
+    expect(names('0.0.0.0')).toEqual(['0.0.0.0/32', '0.0.0.0/8']);
+    expect(names('192.0.0.9')).toEqual(['192.0.0.9/32', '192.0.0.0/24']);
+    expect(names('224.0.0.5')).toEqual(['224.0.0.0/24', '224.0.0.0/4']);
+  });
+
+  it('should expose registry attributes', () => {
+    const [loopback] = classifyAddress('127.0.0.1');
+    expect(loopback).toMatchObject({
+      name: 'Loopback',
+      rfc: 'RFC 1122',
+      forwardable: false,
+      globallyReachable: false,
+      reservedByProtocol: true
+    });
+
+    const [broadcast] = classifyAddress('255.255.255.255');
+    expect(broadcast.name).toBe('Broadcast limitado');
+    expect(names('255.255.255.255')).toEqual(['255.255.255.255/32', '240.0.0.0/4']);
+  });
+
+  it('should classify documentation and link-local ranges', () => {
+    expect(classifyAddress('198.51.100.7')[0].name).toBe('Documentação (TEST-NET-2)');
+    expect(classifyAddress('169.254.10.1')[0]).toMatchObject({ name: 'Link-local', forwardable: false });
+  });
+
+  it('should leave public unicast unclassified', () => {
+    expect(classifyAddress('8.8.8.8')).toEqual([]);
+  });
+
+  it('should only contain valid prefixes', () => {
+    SPECIAL_PURPOSE_REGISTRY.forEach(block => {
+      expect(block.prefix).toMatch(/^\d+\.\d+\.\d+\.\d+\/\d+$/);
+    });
+  });
+
+  it('should classify IPv6 addresses with the IPv6 registry', () => {
+    const ipv6Names = (ip: string) => classifyIPv6Address(ip).map(block => block.prefix);
+
+    expect(ipv6Names('2001:db8::1')).toEqual(['2001:db8::/32']);
+    expect(ipv6Names('2001:1::1')).toEqual(['2001:1::1/128', '2001::/23']);
+    expect(ipv6Names('ff02::1:ff00:1')).toEqual(['ff02::1:ff00:0/104', 'ff00::/8']);
+    expect(classifyIPv6Address('2002:c000:201::1')[0]).toMatchObject({ name: '6to4', globallyReachable: null });
+    expect(classifyIPv6Address('fe80::1%eth0')[0]).toMatchObject({ name: 'Link-local unicast', forwardable: false });
+    expect(classifyIPv6Address('2606:4700:4700::1111')).toEqual([]);
+    IPV6_SPECIAL_PURPOSE_REGISTRY.forEach(block => {
+      expect(block.prefix).toMatch(/^[0-9a-f:]+\/\d+$/);
+    });
+  });
+});
@@ -6,7 +6,50 @@ import {
   binaryToIp,
   cidrToMask,
   maskToCidr,
-  getWildcardMask
+  getWildcardMask,
+  bitwiseAnd,
+  bitwiseOr,
+  incrementIp,
+  decrementIp,
+  IPv4Address,
+  IPv4Prefix,
+  splitSubnet,
+  planVlsm,
+  aggregatePrefixes,
+  splitEntries,
+  summarizeCovering,
+  rangeToCidrs,
+  parseAddressRange,
+  contains,
+  overlaps,
+  checkMembership,
+  classfulAnalysis,
+  parseFlexibleIPv4,
+  parseAddressInput,
+  SubnetError,
+  iterateHosts,
+  addToIp,
+  subtractFromIp,
+  ipDistance,
+  nthHost,
+  hostOffset,
+  addressForms,
+  describeWildcard,
+  matchesWildcard,
+  iterateWildcardMatches,
+  IPSet,
+  evaluateSetExpression,
+  subnetNeighborhood,
+  findFreeSpace,
+  findFirstFreeBlock,
+  IPv6Address,
+  validateIPv6,
+  compressIPv6,
+  expandIPv6,
+  IPv6Prefix,
+  calculateIPv6Subnet,
+  detectAddressFamily,
+  parseIPv6Input
 } from '../subnet-utils';
 
 describe('Subnet Utilities', () => {
@@ -124,7 +167,17 @@ describe('Subnet Utilities', () => {
         subnetMask: '255.255.255.0',
         wildcardMask: '0.0.0.255',
         binaryIP: '11000000.10101000.00000001.00000001',
-        binaryMask: '11111111.11111111.11111111.00000000'
+        binaryMask: '11111111.11111111.11111111.00000000',
+        classful: {
+          addressClass: 'C',
+          defaultMask: '255.255.255.0',
+          defaultPrefix: 24,
+          borrowedBits: 0,
+          subnets: 1,
+          subnetsWithoutSubnetZero: 1,
+          hostsPerSubnet: 254,
+          aggregatedNetworks: null
+        }
       });
     });
 
@@ -141,7 +194,17 @@ describe('Subnet Utilities', () => {
         subnetMask: '255.255.255.254',
         wildcardMask: '0.0.0.1',
         binaryIP: '11000000.10101000.00000001.00000000',
-        binaryMask: '11111111.11111111.11111111.11111110'
+        binaryMask: '11111111.11111111.11111111.11111110',
+        classful: {
+          addressClass: 'C',
+          defaultMask: '255.255.255.0',
+          defaultPrefix: 24,
+          borrowedBits: 7,
+          subnets: 128,
+          subnetsWithoutSubnetZero: 126,
+          hostsPerSubnet: 0,
+          aggregatedNetworks: null
+        }
       });
     });
 
@@ -158,7 +221,17 @@ describe('Subnet Utilities', () => {
         subnetMask: '255.255.255.255',
         wildcardMask: '0.0.0.0',
         binaryIP: '11000000.10101000.00000001.00000001',
-        binaryMask: '11111111.11111111.11111111.11111111'
+        binaryMask: '11111111.11111111.11111111.11111111',
+        classful: {
+          addressClass: 'C',
+          defaultMask: '255.255.255.0',
+          defaultPrefix: 24,
+          borrowedBits: 8,
+          subnets: 256,
+          subnetsWithoutSubnetZero: 254,
+          hostsPerSubnet: 0,
+          aggregatedNetworks: null
+        }
       });
     });
 
@@ -170,4 +243,908 @@ describe('Subnet Utilities', () => {
       expect(() => calculateSubnet('192.168.1.1', 'invalid')).toThrow('Máscara de sub-rede inválida');
     });
   });
+
+  describe('IPv4Address', () => {
+    it('should parse and format dotted quads', () => {
+      const address = IPv4Address.parse('192.168.1.10');
+      expect(address.value).toBe(0xc0a8010a);
+      expect(address.toString()).toBe('192.168.1.10');
+      expect(new IPv4Address(0xffffffff).toString()).toBe('255.255.255.255');
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => IPv4Address.parse('256.0.0.1')).toThrow('Endereço IP inválido');
+      expect(() => new IPv4Address(-1)).toThrow('Endereço IP inválido');
+      expect(() => new IPv4Address(2 ** 32)).toThrow('Endereço IP inválido');
+    });
+
+    it('should compare and add', () => {
+      const a = IPv4Address.parse('10.0.0.255');
+      expect(a.add(1).toString()).toBe('10.0.1.0');
+      expect(a.add(-256).toString()).toBe('9.255.255.255');
+      expect(a.compare(IPv4Address.parse('10.0.1.0'))).toBeLessThan(0);
+      expect(a.equals(IPv4Address.parse('10.0.0.255'))).toBe(true);
+      expect(() => IPv4Address.parse('255.255.255.255').add(1)).toThrow('Estouro');
+      expect(() => IPv4Address.parse('0.0.0.0').add(-1)).toThrow('Estouro');
+    });
+  });
+
+  describe('IPv4Prefix', () => {
+    it('should normalize to the network address', () => {
+      const prefix = IPv4Prefix.parse('192.168.1.77/26');
+      expect(prefix.toString()).toBe('192.168.1.64/26');
+      expect(prefix.broadcast.toString()).toBe('192.168.1.127');
+      expect(prefix.size).toBe(64);
+      expect(prefix.usableHosts).toBe(62);
+    });
+
+    it('should handle the /0 and /32 edges', () => {
+      const all = IPv4Prefix.parse('1.2.3.4/0');
+      expect(all.toString()).toBe('0.0.0.0/0');
+      expect(all.broadcast.toString()).toBe('255.255.255.255');
+      expect(all.size).toBe(2 ** 32);
+
+      const host = IPv4Prefix.fromMask('1.2.3.4', '255.255.255.255');
+      expect(host.firstHost.toString()).toBe('1.2.3.4');
+      expect(host.lastHost.toString()).toBe('1.2.3.4');
+    });
+
+    it('should check containment', () => {
+      const prefix = IPv4Prefix.parse('10.4.0.0/21');
+      expect(prefix.contains(IPv4Address.parse('10.4.7.9'))).toBe(true);
+      expect(prefix.contains(IPv4Address.parse('10.4.8.0'))).toBe(false);
+    });
+  });
+
+  describe('String helpers', () => {
+    it('should apply bitwise operations', () => {
+      expect(bitwiseAnd('192.168.1.77', '255.255.255.192')).toBe('192.168.1.64');
+      expect(bitwiseOr('192.168.1.64', '0.0.0.63')).toBe('192.168.1.127');
+      expect(() => bitwiseAnd('192.168.1.1', 'invalid')).toThrow('Um ou mais endereços IP são inválidos');
+    });
+
+    it('should step addresses across octet boundaries', () => {
+      expect(incrementIp('10.0.255.255')).toBe('10.1.0.0');
+      expect(decrementIp('10.1.0.0')).toBe('10.0.255.255');
+      expect(() => incrementIp('255.255.255.255')).toThrow('Estouro');
+      expect(() => decrementIp('0.0.0.0')).toThrow('Estouro');
+    });
+
+    it('should reject malformed CIDR suffixes', () => {
+      expect(validateSubnetMask('/24abc')).toBe(false);
+      expect(validateSubnetMask('/')).toBe(false);
+    });
+  });
+
+  describe('Subnet Split (FLSM)', () => {
+    it('should split by subnet count', () => {
+      const split = splitSubnet('192.168.10.0/24', { subnetCount: 8 });
+      expect(split.newPrefix).toBe(27);
+      expect(split.borrowedBits).toBe(3);
+      expect(split.subnetCount).toBe(8);
+
+      const subnets = split.slice(0);
+      expect(subnets).toHaveLength(8);
+      expect(subnets[1]).toMatchObject({
+        networkAddress: '192.168.10.32',
+        firstHost: '192.168.10.33',
+        lastHost: '192.168.10.62',
+        broadcastAddress: '192.168.10.63',
+        usableHosts: 30
+      });
+      expect(subnets[7].broadcastAddress).toBe('192.168.10.255');
+    });
+
+    it('should round the subnet count up to a power of two', () => {
+      expect(splitSubnet('10.0.0.0/8', { subnetCount: 5 }).subnetCount).toBe(8);
+      expect(splitSubnet('10.0.0.0/8', { subnetCount: 1 }).newPrefix).toBe(8);
+    });
+
+    it('should split by new prefix and slice lazily', () => {
+      const split = splitSubnet('10.0.0.0/8', { newPrefix: 30 });
+      expect(split.subnetCount).toBe(2 ** 22);
+
+      const [last] = split.slice(split.subnetCount - 1);
+      expect(last.networkAddress).toBe('10.255.255.252');
+      expect(last.broadcastAddress).toBe('10.255.255.255');
+    });
+
+    it('should reject impossible splits', () => {
+      expect(() => splitSubnet('192.168.10.0/24', { newPrefix: 23 })).toThrow('O novo prefixo deve estar entre /24 e /32');
+      expect(() => splitSubnet('192.168.10.0/30', { subnetCount: 8 })).toThrow('Não é possível dividir');
+      expect(() => splitSubnet('192.168.10.0/24', { subnetCount: 0 })).toThrow();
+    });
+  });
+
+  describe('VLSM Planner', () => {
+    it('should allocate largest-first on bit boundaries', () => {
+      const plan = planVlsm('192.168.0.0/24', [
+        { name: 'Link', hosts: 2 },
+        { name: 'Vendas', hosts: 50 },
+        { name: 'TI', hosts: 100 },
+        { name: 'RH', hosts: 20 }
+      ]);
+
+      expect(plan.allocations.map(a => [a.name, `${a.networkAddress}/${a.prefixLength}`])).toEqual([
+        ['TI', '192.168.0.0/25'],
+        ['Vendas', '192.168.0.128/26'],
+        ['RH', '192.168.0.192/27'],
+        ['Link', '192.168.0.224/31']
+      ]);
+      expect(plan.allocations[1]).toMatchObject({
+        requiredHosts: 50,
+        firstHost: '192.168.0.129',
+        lastHost: '192.168.0.190',
+        broadcastAddress: '192.168.0.191',
+        subnetMask: '255.255.255.192',
+        usableHosts: 62
+      });
+      expect(plan.unallocated).toEqual([]);
+      expect(plan.freeBlocks).toEqual(['192.168.0.226/31', '192.168.0.228/30', '192.168.0.232/29', '192.168.0.240/28']);
+      expect(plan.freeAddresses).toBe(30);
+    });
+
+    it('should allocate /31 point-to-point links and /32 loopbacks', () => {
+      const p2p = planVlsm('10.0.0.0/31', [{ name: 'p2p', hosts: 2 }]);
+      expect(p2p.allocations).toHaveLength(1);
+      expect(p2p.allocations[0]).toMatchObject({
+        prefixLength: 31,
+        firstHost: '10.0.0.0',
+        lastHost: '10.0.0.1',
+        usableHosts: 2
+      });
+      expect(p2p.unallocated).toEqual([]);
+
+      const loopbacks = planVlsm('10.255.0.0/30', [
+        { name: 'lo-r1', hosts: 1 },
+        { name: 'lo-r2', hosts: 1 }
+      ]);
+      expect(loopbacks.allocations.map(a => `${a.networkAddress}/${a.prefixLength}`)).toEqual([
+        '10.255.0.0/32',
+        '10.255.0.1/32'
+      ]);
+      expect(loopbacks.allocations[0].usableHosts).toBe(1);
+      expect(loopbacks.unallocated).toEqual([]);
+      expect(loopbacks.freeBlocks).toEqual(['10.255.0.2/31']);
+    });
+
+    it('should report requirements that do not fit', () => {
+      const plan = planVlsm('10.0.0.0/26', [
+        { name: 'A', hosts: 30 },
+        { name: 'B', hosts: 30 },
+        { name: 'C', hosts: 30 },
+        { name: 'D', hosts: 5 }
+      ]);
+
+      expect(plan.allocations.map(a => a.name)).toEqual(['A', 'B']);
+      expect(plan.unallocated.map(r => r.name)).toEqual(['C', 'D']);
+      expect(plan.freeBlocks).toEqual([]);
+      expect(plan.freeAddresses).toBe(0);
+    });
+
+    it('should reject invalid host counts', () => {
+      expect(() => planVlsm('10.0.0.0/24', [{ name: 'X', hosts: 0 }])).toThrow('Quantidade de hosts inválida para o segmento "X"');
+    });
+  });
+
+  describe('Prefix Aggregation', () => {
+    it('should merge adjacent prefixes into a supernet', () => {
+      expect(aggregatePrefixes(['10.0.0.0/24', '10.0.1.0/24', '10.0.2.0/23'])).toEqual([
+        { prefix: '10.0.0.0/22', members: ['10.0.0.0/24', '10.0.1.0/24', '10.0.2.0/23'] }
+      ]);
+    });
+
+    it('should absorb overlapping and duplicate prefixes', () => {
+      expect(aggregatePrefixes(['192.168.0.0/16', '192.168.4.0/24', '192.168.4.0/24', '172.16.0.1'])).toEqual([
+        { prefix: '172.16.0.1/32', members: ['172.16.0.1/32'] },
+        { prefix: '192.168.0.0/16', members: ['192.168.0.0/16', '192.168.4.0/24'] }
+      ]);
+    });
+
+    it('should keep the minimal exact set when ranges are not aligned', () => {
+      const result = aggregatePrefixes(['10.0.1.0/24', '10.0.2.0/24', '10.0.3.0/24']);
+      expect(result).toEqual([
+        { prefix: '10.0.1.0/24', members: ['10.0.1.0/24'] },
+        { prefix: '10.0.2.0/23', members: ['10.0.2.0/24', '10.0.3.0/24'] }
+      ]);
+    });
+
+    it('should identify invalid entries', () => {
+      expect(() => aggregatePrefixes(['10.0.0.0/24', '10.0.0.0/40'])).toThrow('Prefixo inválido: "10.0.0.0/40"');
+    });
+
+    it('should split pasted lists', () => {
+      expect(splitEntries('10.0.0.0/24,\n 10.0.1.0/24;10.0.2.0/24  ')).toEqual(['10.0.0.0/24', '10.0.1.0/24', '10.0.2.0/24']);
+    });
+  });
+
+  describe('Covering Summarization', () => {
+    it('should find the smallest single covering prefix', () => {
+      const result = summarizeCovering(['10.1.0.0/24', '10.1.3.0/24']);
+      expect(result.prefixes).toEqual(['10.1.0.0/22']);
+      expect(result.coveredAddresses).toBe(512);
+      expect(result.extraAddresses).toBe(512);
+      expect(result.extraRanges).toEqual([
+        { start: '10.1.1.0', end: '10.1.2.255', size: 512 }
+      ]);
+    });
+
+    it('should report over-coverage at the edges of the summary', () => {
+      const result = summarizeCovering(['172.16.1.0/24', '172.16.2.0/24']);
+      expect(result.prefixes).toEqual(['172.16.0.0/22']);
+      expect(result.extraRanges).toEqual([
+        { start: '172.16.0.0', end: '172.16.0.255', size: 256 },
+        { start: '172.16.3.0', end: '172.16.3.255', size: 256 }
+      ]);
+    });
+
+    it('should pick the best K prefixes', () => {
+      const inputs = ['10.0.0.0/24', '10.0.2.0/24', '10.8.0.0/24', '10.8.1.0/24'];
+
+      const two = summarizeCovering(inputs, 2);
+      expect(two.prefixes).toEqual(['10.0.0.0/22', '10.8.0.0/23']);
+      expect(two.extraAddresses).toBe(512);
+
+      const three = summarizeCovering(inputs, 3);
+      expect(three.prefixes).toEqual(['10.0.0.0/24', '10.0.2.0/24', '10.8.0.0/23']);
+      expect(three.extraAddresses).toBe(0);
+      expect(three.extraRanges).toEqual([]);
+    });
+
+    it('should return the exact aggregation when it fits the limit', () => {
+      const separate = Array.from({ length: 32 }, (_, i) => `10.${i}.0.0/24`);
+      const result = summarizeCovering(separate, 32);
+      expect(result.prefixes).toEqual(separate);
+      expect(result.extraAddresses).toBe(0);
+      expect(result.extraRanges).toEqual([]);
+
+      // Milhares de entradas que a agregação exata reduz a poucos prefixos
+      const adjacent = Array.from({ length: 2048 }, (_, i) => `10.${i >> 8}.${i & 255}.0/24`);
+      expect(summarizeCovering(adjacent, 2).prefixes).toEqual(['10.0.0.0/13']);
+    });
+
+    it('should reject an empty list, an invalid limit or too many prefixes to optimize', () => {
+      expect(() => summarizeCovering([])).toThrow('Informe ao menos um prefixo');
+      expect(() => summarizeCovering(['10.0.0.0/8'], 0)).toThrow();
+      expect(() => summarizeCovering(['10.0.0.0/8'], 33)).toThrow('inteiro de 1 a 32');
+
+      const separate = Array.from({ length: 600 }, (_, i) => `10.${i >> 8}.${i & 255}.0/25`);
+      expect(() => summarizeCovering(separate, 32)).toThrow('resultou em 600 prefixos');
+    });
+  });
+
+  describe('Range to CIDR', () => {
+    it('should cover an unaligned range exactly', () => {
+      expect(rangeToCidrs('10.0.0.5', '10.0.1.200')).toEqual([
+        '10.0.0.5/32',
+        '10.0.0.6/31',
+        '10.0.0.8/29',
+        '10.0.0.16/28',
+        '10.0.0.32/27',
+        '10.0.0.64/26',
+        '10.0.0.128/25',
+        '10.0.1.0/25',
+        '10.0.1.128/26',
+        '10.0.1.192/29',
+        '10.0.1.200/32'
+      ]);
+    });
+
+    it('should collapse aligned ranges into a single block', () => {
+      expect(rangeToCidrs('192.168.0.0', '192.168.255.255')).toEqual(['192.168.0.0/16']);
+      expect(rangeToCidrs('0.0.0.0', '255.255.255.255')).toEqual(['0.0.0.0/0']);
+      expect(rangeToCidrs('10.0.0.1', '10.0.0.1')).toEqual(['10.0.0.1/32']);
+    });
+
+    it('should reject reversed ranges', () => {
+      expect(() => rangeToCidrs('10.0.0.9', '10.0.0.1')).toThrow('O endereço inicial deve ser menor ou igual ao final');
+    });
+
+    it('should parse range notation', () => {
+      expect(parseAddressRange('10.0.0.5 - 10.0.1.200')).toEqual({ start: '10.0.0.5', end: '10.0.1.200', size: 452 });
+      expect(parseAddressRange('10.0.0.5-10.0.0.5').size).toBe(1);
+      expect(() => parseAddressRange('10.0.0.5 a 10.0.1.200')).toThrow('Intervalo inválido');
+    });
+  });
+
+  describe('Containment and Overlap', () => {
+    it('should check whether a prefix contains an address', () => {
+      expect(contains('10.4.0.0/21', '10.4.7.9')).toBe(true);
+      expect(contains('10.4.0.0/21', '10.4.8.1')).toBe(false);
+    });
+
+    it('should check whether a prefix contains another prefix', () => {
+      expect(contains('10.4.0.0/21', '10.4.4.0/22')).toBe(true);
+      expect(contains('10.4.0.0/21', '10.4.0.0/21')).toBe(true);
+      expect(contains('10.4.0.0/21', '10.4.0.0/20')).toBe(false);
+    });
+
+    it('should detect overlapping prefixes', () => {
+      expect(overlaps('10.4.0.0/21', '10.4.0.0/16')).toBe(true);
+      expect(overlaps('10.4.0.0/21', '10.4.7.9')).toBe(true);
+      expect(overlaps('10.4.0.0/21', '10.4.8.0/21')).toBe(false);
+    });
+
+    it('should build the membership matrix', () => {
+      expect(checkMembership(
+        ['10.4.0.0/21', '10.4.8.0/22'],
+        ['10.4.7.9', '10.4.0.0/16', '192.168.0.1']
+      )).toEqual([
+        ['contains', 'disjoint'],
+        ['overlaps', 'overlaps'],
+        ['disjoint', 'disjoint']
+      ]);
+    });
+  });
+
+  describe('Classful Analysis', () => {
+    it('should count borrowed bits and subnets', () => {
+      expect(classfulAnalysis(IPv4Prefix.parse('172.16.0.0/20'))).toEqual({
+        addressClass: 'B',
+        defaultMask: '255.255.0.0',
+        defaultPrefix: 16,
+        borrowedBits: 4,
+        subnets: 16,
+        subnetsWithoutSubnetZero: 14,
+        hostsPerSubnet: 4094,
+        aggregatedNetworks: null
+      });
+    });
+
+    it('should identify every class by its first octet', () => {
+      const classOf = (ip: string) => calculateSubnet(ip, '/24').classful.addressClass;
+      expect(classOf('10.0.0.1')).toBe('A');
+      expect(classOf('127.0.0.1')).toBe('A');
+      expect(classOf('128.0.0.1')).toBe('B');
+      expect(classOf('191.255.0.1')).toBe('B');
+      expect(classOf('192.0.0.1')).toBe('C');
+      expect(classOf('224.0.0.1')).toBe('D');
+      expect(classOf('240.0.0.1')).toBe('E');
+    });
+
+    it('should report supernets instead of borrowed bits', () => {
+      const info = classfulAnalysis(IPv4Prefix.parse('192.168.0.0/22'));
+      expect(info.borrowedBits).toBeNull();
+      expect(info.subnets).toBeNull();
+      expect(info.aggregatedNetworks).toBe(4);
+    });
+
+    it('should not apply default masks to classes D and E', () => {
+      const info = classfulAnalysis(IPv4Prefix.parse('239.1.1.0/24'));
+      expect(info.addressClass).toBe('D');
+      expect(info.defaultMask).toBeNull();
+      expect(info.hostsPerSubnet).toBeNull();
+    });
+  });
+
+  describe('Flexible Address Input', () => {
+    const flexible = (text: string, leadingZeros?: 'reject' | 'decimal' | 'octal') =>
+      parseFlexibleIPv4(text, { leadingZeros }).toString();
+
+    it('should accept integer and hexadecimal notations', () => {
+      expect(flexible('3232235786')).toBe('192.168.1.10');
+      expect(flexible('0xC0A8010A')).toBe('192.168.1.10');
+      expect(flexible('0xc0.0xa8.1.10')).toBe('192.168.1.10');
+      expect(flexible('0')).toBe('0.0.0.0');
+    });
+
+    it('should expand shortened inet_aton forms', () => {
+      expect(flexible('10.1')).toBe('10.0.0.1');
+      expect(flexible('172.16.300')).toBe('172.16.1.44');
+      expect(flexible('127.1')).toBe('127.0.0.1');
+    });
+
+    it('should reject out-of-range parts', () => {
+      expect(() => flexible('4294967296')).toThrow('fora do intervalo');
+      expect(() => flexible('10.16777216')).toThrow('fora do intervalo');
+      expect(() => flexible('256.1')).toThrow('fora do intervalo');
+      expect(() => flexible('1.2.3.4.5')).toThrow('Endereço IP inválido');
+      expect(() => flexible('10..1')).toThrow('Endereço IP inválido');
+    });
+
+    it('should apply the leading zero policy', () => {
+      expect(() => flexible('010.0.0.1')).toThrow('zero à esquerda');
+      expect(flexible('010.0.0.1', 'decimal')).toBe('10.0.0.1');
+      expect(flexible('010.0.0.1', 'octal')).toBe('8.0.0.1');
+      expect(() => flexible('09.0.0.1', 'octal')).toThrow('não é um número octal');
+      expect(flexible('0.0.0.0')).toBe('0.0.0.0');
+    });
+
+    it('should split combined address and mask input', () => {
+      expect(parseAddressInput('10.20.30.40/27')).toEqual({ address: '10.20.30.40', mask: '/27' });
+      expect(parseAddressInput(' 10.20.30.40 / 27 ')).toEqual({ address: '10.20.30.40', mask: '/27' });
+      expect(parseAddressInput('192.168.1.10 255.255.255.0')).toEqual({ address: '192.168.1.10', mask: '255.255.255.0' });
+      expect(parseAddressInput('0x0A141E28')).toEqual({ address: '10.20.30.40', mask: null });
+    });
+
+    it('should reject invalid masks in combined input', () => {
+      expect(() => parseAddressInput('10.20.30.40/33')).toThrow('Máscara de sub-rede inválida');
+      expect(() => parseAddressInput('10.20.30.40 255.0.255.0')).toThrow('Máscara de sub-rede inválida');
+    });
+  });
+
+  describe('Structured errors', () => {
+    /** Captura o erro lançado pela função para inspecionar código e diagnóstico */
+    const catchError = (fn: () => unknown): SubnetError => {
+      try {
+        fn();
+      } catch (error) {
+        if (error instanceof SubnetError) return error;
+        throw error;
+      }
+      throw new Error('Nenhum erro foi lançado');
+    };
+
+    it('should point to the invalid octet of an address', () => {
+      const error = catchError(() => calculateSubnet('192.168.300.1', '/24'));
+      expect(error.code).toBe('INVALID_IP_OCTET');
+      expect(error.details).toMatchObject({ input: '192.168.300.1', octetIndex: 2, octet: '300' });
+      expect(error.message).toContain('3º octeto');
+    });
+
+    it('should report malformed addresses without an octet', () => {
+      const error = catchError(() => IPv4Address.parse('10.0.1'));
+      expect(error.code).toBe('INVALID_IP');
+      expect(error.details.octetIndex).toBeUndefined();
+    });
+
+    it('should locate where a mask stops being contiguous and suggest the nearest mask', () => {
+      const error = catchError(() => maskToCidr('255.255.255.1'));
+      expect(error.code).toBe('NON_CONTIGUOUS_MASK');
+      expect(error.details).toMatchObject({
+        bitPosition: 31,
+        octetIndex: 3,
+        suggestion: { mask: '255.255.255.0', prefixLength: 24 },
+      });
+
+      const gap = catchError(() => maskToCidr('255.0.255.0'));
+      expect(gap.details.bitPosition).toBe(16);
+      expect(gap.details.suggestion).toEqual({ mask: '255.0.0.0', prefixLength: 8 });
+
+      // Um único bit trocado: a sugestão é a máscara que o usuário provavelmente quis digitar
+      expect(catchError(() => maskToCidr('255.255.191.0')).details.suggestion).toEqual({
+        mask: '255.255.255.0',
+        prefixLength: 24,
+      });
+    });
+
+    it('should distinguish mask format, octet and prefix length errors', () => {
+      expect(catchError(() => maskToCidr('/33')).code).toBe('PREFIX_LENGTH_OUT_OF_RANGE');
+      expect(catchError(() => maskToCidr('/abc')).code).toBe('INVALID_MASK');
+      expect(catchError(() => maskToCidr('255.255')).code).toBe('INVALID_MASK');
+      expect(catchError(() => maskToCidr('255.256.0.0')).details).toMatchObject({ octetIndex: 1, octet: '256' });
+    });
+
+    it('should carry diagnostics through the flexible parser', () => {
+      expect(catchError(() => parseFlexibleIPv4('010.0.0.1')).code).toBe('AMBIGUOUS_LEADING_ZERO');
+      expect(catchError(() => parseFlexibleIPv4('10.0.x.1')).details).toMatchObject({
+        input: '10.0.x.1',
+        octetIndex: 2,
+      });
+      expect(catchError(() => parseFlexibleIPv4('10..1')).details.octetIndex).toBe(1);
+      expect(catchError(() => parseFlexibleIPv4('10.0.0.256')).details.octetIndex).toBe(3);
+      expect(catchError(() => parseAddressInput('10.0.0.1 255.0.255.0')).code).toBe('NON_CONTIGUOUS_MASK');
+    });
+
+    it('should use stable codes for calculation errors', () => {
+      expect(catchError(() => incrementIp('255.255.255.255')).code).toBe('ADDRESS_OVERFLOW');
+      expect(catchError(() => aggregatePrefixes(['10.0.0.0/40'])).code).toBe('INVALID_PREFIX');
+      expect(catchError(() => rangeToCidrs('10.0.0.9', '10.0.0.1')).code).toBe('INVALID_RANGE');
+    });
+  });
+
+  describe('Host iteration', () => {
+    it('should list the usable hosts of a small network', () => {
+      expect(Array.from(iterateHosts('192.168.1.0/29'))).toEqual([
+        '192.168.1.1', '192.168.1.2', '192.168.1.3', '192.168.1.4', '192.168.1.5', '192.168.1.6'
+      ]);
+      expect(Array.from(iterateHosts('10.0.0.0/31'))).toEqual(['10.0.0.0', '10.0.0.1']);
+      expect(Array.from(iterateHosts('10.0.0.7/32'))).toEqual(['10.0.0.7']);
+    });
+
+    it('should read a slice of a /8 by offset', () => {
+      const slice = Array.from(iterateHosts('10.0.0.0/8', 199, 250));
+      expect(slice).toHaveLength(51);
+      expect(slice[0]).toBe('10.0.0.200');
+      expect(slice[50]).toBe('10.0.0.250');
+
+      expect(Array.from(iterateHosts('10.0.0.0/8', 16777213))).toEqual(['10.255.255.254']);
+    });
+
+    it('should generate hosts lazily', () => {
+      const hosts = iterateHosts('0.0.0.0/0');
+      expect(hosts.next().value).toBe('0.0.0.1');
+      expect(hosts.next().value).toBe('0.0.0.2');
+    });
+
+    it('should clamp the end and reject invalid offsets', () => {
+      expect(Array.from(iterateHosts('192.168.1.0/30', 1, 100))).toEqual(['192.168.1.2']);
+      expect(Array.from(iterateHosts('192.168.1.0/30', 5))).toEqual([]);
+      expect(() => iterateHosts('192.168.1.0/30', -1)).toThrow('inteiros não negativos');
+      expect(() => iterateHosts('192.168.1.0', 0)).toThrow('Prefixo inválido');
+    });
+  });
+
+  describe('Address arithmetic', () => {
+    it('should add and subtract N positions across octets', () => {
+      expect(addToIp('10.0.0.250', 10)).toBe('10.0.1.4');
+      expect(addToIp('10.0.1.4', -10)).toBe('10.0.0.250');
+      expect(subtractFromIp('192.168.1.0', 1)).toBe('192.168.0.255');
+      expect(() => addToIp('255.255.255.250', 10)).toThrow('Estouro');
+      expect(() => addToIp('10.0.0.1', 1.5)).toThrow('inteiro');
+    });
+
+    it('should measure the signed distance between addresses', () => {
+      expect(ipDistance('10.0.0.1', '10.0.1.200')).toBe(455);
+      expect(ipDistance('10.0.1.200', '10.0.0.1')).toBe(-455);
+      expect(ipDistance('0.0.0.0', '255.255.255.255')).toBe(4294967295);
+    });
+
+    it('should return the nth usable host, counting from the end when negative', () => {
+      expect(nthHost('192.168.1.0/24', 1)).toBe('192.168.1.1');
+      expect(nthHost('192.168.1.0/24', 200)).toBe('192.168.1.200');
+      expect(nthHost('192.168.1.0/24', -1)).toBe('192.168.1.254');
+      expect(nthHost('10.0.0.0/31', 2)).toBe('10.0.0.1');
+      expect(() => nthHost('192.168.1.0/24', 255)).toThrow('apenas 254 hosts');
+      expect(() => nthHost('192.168.1.0/24', 0)).toThrow('começa em 1');
+    });
+
+    it('should locate an address inside its subnet', () => {
+      expect(hostOffset('192.168.1.200', '/24')).toEqual({ network: '192.168.1.0/24', offset: 200, hostNumber: 200 });
+      expect(hostOffset('10.1.2.3', '255.255.0.0')).toEqual({ network: '10.1.0.0/16', offset: 515, hostNumber: 515 });
+      expect(hostOffset('192.168.1.0', '/24').hostNumber).toBeNull();
+      expect(hostOffset('192.168.1.255', '/24').hostNumber).toBeNull();
+      expect(hostOffset('10.0.0.1', '/31')).toEqual({ network: '10.0.0.0/31', offset: 1, hostNumber: 2 });
+    });
+
+    it('should show an address in dotted, integer and binary form', () => {
+      expect(addressForms('192.168.1.1')).toEqual({
+        dotted: '192.168.1.1',
+        integer: 3232235777,
+        binary: '11000000.10101000.00000001.00000001',
+      });
+    });
+  });
+
+  describe('Wildcard masks', () => {
+    it('should describe a non-contiguous wildcard', () => {
+      expect(describeWildcard('10.0.0.0', '0.0.254.255')).toEqual({
+        address: '10.0.0.0',
+        wildcard: '0.0.254.255',
+        freeBits: 15,
+        matchCount: 32768,
+        pattern: '00001010.00000000.xxxxxxx0.xxxxxxxx',
+        prefix: null,
+      });
+    });
+
+    it('should recognize wildcards equivalent to a prefix', () => {
+      const rule = describeWildcard('192.168.1.77', '0.0.0.255');
+      expect(rule.address).toBe('192.168.1.0');
+      expect(rule.prefix).toBe('192.168.1.0/24');
+      expect(describeWildcard('10.0.0.1', '0.0.0.0').prefix).toBe('10.0.0.1/32');
+    });
+
+    it('should match addresses against the fixed bits only', () => {
+      expect(matchesWildcard('10.0.0.0', '0.0.254.255', '10.0.4.9')).toBe(true);
+      expect(matchesWildcard('10.0.0.0', '0.0.254.255', '10.0.5.9')).toBe(false);
+      expect(matchesWildcard('10.0.0.0', '0.0.254.255', '10.1.4.9')).toBe(false);
+      expect(matchesWildcard('0.0.0.1', '255.255.255.254', '172.16.0.33')).toBe(true);
+    });
+
+    it('should list the matched set lazily in ascending order', () => {
+      expect(Array.from(iterateWildcardMatches('10.0.0.0', '0.0.254.255', 0, 3))).toEqual([
+        '10.0.0.0', '10.0.0.1', '10.0.0.2'
+      ]);
+      expect(Array.from(iterateWildcardMatches('10.0.0.0', '0.0.254.255', 256, 257))).toEqual(['10.0.2.0']);
+      expect(Array.from(iterateWildcardMatches('10.0.0.0', '0.0.254.255', 32767))).toEqual(['10.0.254.255']);
+      expect(Array.from(iterateWildcardMatches('10.0.0.5', '0.0.0.10'))).toEqual([
+        '10.0.0.5', '10.0.0.7', '10.0.0.13', '10.0.0.15'
+      ]);
+    });
+
+    it('should reject invalid wildcards', () => {
+      expect(() => describeWildcard('10.0.0.0', '0.0.256.255')).toThrow('Wildcard inválida');
+      expect(() => matchesWildcard('10.0.0.0', '0.0.0.255', 'x')).toThrow('Endereço IP inválido');
+    });
+  });
+
+  describe('IPSet', () => {
+    it('should normalize overlapping and adjacent entries to minimal CIDRs', () => {
+      const set = IPSet.parse(['10.0.1.0/24', '10.0.0.0/24', '10.0.0.128/25', '10.0.2.0 - 10.0.3.255']);
+      expect(set.toCidrs()).toEqual(['10.0.0.0/22']);
+      expect(set.size).toBe(1024);
+    });
+
+    it('should compute union, intersection and difference', () => {
+      const a = IPSet.parse(['10.0.0.0/24']);
+      const b = IPSet.parse(['10.0.0.128/25', '10.0.1.0/24']);
+
+      expect(a.union(b).toCidrs()).toEqual(['10.0.0.0/23']);
+      expect(a.intersection(b).toCidrs()).toEqual(['10.0.0.128/25']);
+      expect(a.difference(b).toCidrs()).toEqual(['10.0.0.0/25']);
+      expect(b.difference(a).toCidrs()).toEqual(['10.0.1.0/24']);
+      expect(a.difference(a).isEmpty).toBe(true);
+    });
+
+    it('should complement against the whole IPv4 space', () => {
+      expect(IPSet.parse(['128.0.0.0/1']).complement().toCidrs()).toEqual(['0.0.0.0/1']);
+      expect(IPSet.empty().complement().equals(IPSet.all())).toBe(true);
+      expect(IPSet.all().complement().isEmpty).toBe(true);
+      expect(IPSet.parse(['0.0.0.0', '255.255.255.255']).complement().toRanges()).toEqual([
+        { start: '0.0.0.1', end: '255.255.255.254', size: 4294967294 }
+      ]);
+    });
+
+    it('should check membership', () => {
+      const set = IPSet.parse(['10.0.0.0/8']).difference(IPSet.parse(['10.1.0.0/16']));
+      expect(set.contains(IPv4Address.parse('10.2.3.4'))).toBe(true);
+      expect(set.contains(IPv4Address.parse('10.1.3.4'))).toBe(false);
+    });
+  });
+
+  describe('Set expressions', () => {
+    it('should subtract routed prefixes from a supernet', () => {
+      expect(evaluateSetExpression('10.0.0.0/8 - 10.1.0.0/16 - 10.200.0.0/13').toCidrs()).toEqual([
+        '10.0.0.0/16',
+        '10.2.0.0/15',
+        '10.4.0.0/14',
+        '10.8.0.0/13',
+        '10.16.0.0/12',
+        '10.32.0.0/11',
+        '10.64.0.0/10',
+        '10.128.0.0/10',
+        '10.192.0.0/13',
+        '10.208.0.0/12',
+        '10.224.0.0/11',
+      ]);
+    });
+
+    it('should honor precedence, parentheses, complement and ranges', () => {
+      expect(evaluateSetExpression('10.0.0.0/24 + 10.0.1.0/24 & 10.0.1.0/25').toCidrs()).toEqual([
+        '10.0.0.0/24',
+        '10.0.1.0/25',
+      ]);
+      expect(evaluateSetExpression('(10.0.0.0/24 + 10.0.1.0/24) & 10.0.1.0/25').toCidrs()).toEqual(['10.0.1.0/25']);
+      expect(evaluateSetExpression('~0.0.0.0/1').toCidrs()).toEqual(['128.0.0.0/1']);
+      expect(evaluateSetExpression('[10.0.0.5 - 10.0.0.9], 10.0.0.10').toCidrs()).toEqual([
+        '10.0.0.5/32',
+        '10.0.0.6/31',
+        '10.0.0.8/31',
+        '10.0.0.10/32',
+      ]);
+    });
+
+    it('should report the position of syntax errors', () => {
+      const positionOf = (expression: string) => {
+        try {
+          evaluateSetExpression(expression);
+        } catch (error) {
+          return error instanceof SubnetError ? [error.code, error.details.position] : null;
+        }
+        return null;
+      };
+
+      expect(positionOf('10.0.0.0/8 -')).toEqual(['INVALID_EXPRESSION', 12]);
+      expect(positionOf('(10.0.0.0/8')).toEqual(['INVALID_EXPRESSION', 11]);
+      expect(positionOf('10.0.0.0/8 * 10.1.0.0/16')).toEqual(['INVALID_EXPRESSION', 11]);
+      expect(positionOf('10.0.0.0/8 10.1.0.0/16')).toEqual(['INVALID_EXPRESSION', 11]);
+      expect(positionOf('10.0.0.0/8 - 10.300.0.0/16')).toEqual(['INVALID_PREFIX', 13]);
+      expect(() => evaluateSetExpression('  ')).toThrow('informe ao menos um operando');
+    });
+  });
+
+  describe('Subnet neighborhood', () => {
+    it('should list the blocks around a network', () => {
+      const neighborhood = subnetNeighborhood('192.168.1.64/26');
+      expect(neighborhood).toMatchObject({
+        network: '192.168.1.64/26',
+        previous: '192.168.1.0/26',
+        next: '192.168.1.128/26',
+        sibling: '192.168.1.0/26',
+        children: ['192.168.1.64/27', '192.168.1.96/27'],
+      });
+      expect(neighborhood.parents).toHaveLength(26);
+      expect(neighborhood.parents.slice(0, 3)).toEqual(['192.168.1.0/25', '192.168.1.0/24', '192.168.0.0/23']);
+      expect(neighborhood.parents[25]).toBe('0.0.0.0/0');
+    });
+
+    it('should normalize the network and pick the sibling half', () => {
+      const neighborhood = subnetNeighborhood('10.0.0.77/25');
+      expect(neighborhood.network).toBe('10.0.0.0/25');
+      expect(neighborhood.sibling).toBe('10.0.0.128/25');
+      expect(subnetNeighborhood('128.0.0.0/1').sibling).toBe('0.0.0.0/1');
+    });
+
+    it('should stop at the edges of the address space', () => {
+      expect(subnetNeighborhood('0.0.0.0/8')).toMatchObject({ previous: null, next: '1.0.0.0/8' });
+      expect(subnetNeighborhood('255.255.255.255/32')).toMatchObject({
+        previous: '255.255.255.254/32',
+        next: null,
+        sibling: '255.255.255.254/32',
+        children: [],
+      });
+      expect(subnetNeighborhood('0.0.0.0/0')).toEqual({
+        network: '0.0.0.0/0',
+        previous: null,
+        next: null,
+        sibling: null,
+        parents: [],
+        children: ['0.0.0.0/1', '128.0.0.0/1'],
+      });
+    });
+  });
+
+  describe('Free space', () => {
+    const allocations = ['10.0.0.0/24', '10.0.1.0/26', '10.0.1.128/25', '10.0.3.0/24'];
+
+    it('should list the unallocated remainder as minimal CIDRs', () => {
+      const report = findFreeSpace('10.0.0.0/22', allocations);
+      expect(report.freeBlocks).toEqual(['10.0.1.64/26', '10.0.2.0/24']);
+      expect(report.freeRanges).toEqual([
+        { start: '10.0.1.64', end: '10.0.1.127', size: 64 },
+        { start: '10.0.2.0', end: '10.0.2.255', size: 256 },
+      ]);
+      expect(report.freeAddresses).toBe(320);
+      expect(report.allocatedAddresses).toBe(704);
+    });
+
+    it('should sort allocations and flag nested ones', () => {
+      const report = findFreeSpace('192.168.0.0/24', [
+        '192.168.0.128/25',
+        '192.168.0.10',
+        '192.168.0.0/26',
+        '192.168.0.0/28',
+      ]);
+      expect(report.allocations).toEqual(['192.168.0.0/26', '192.168.0.0/28', '192.168.0.10/32', '192.168.0.128/25']);
+      expect(report.nested).toEqual(['192.168.0.0/28', '192.168.0.10/32']);
+      expect(report.freeBlocks).toEqual(['192.168.0.64/26']);
+    });
+
+    it('should flag allocations nested under an earlier, larger block', () => {
+      // A /28 entre a /24 e a /32 não contém a /32; quem contém é a /24
+      const report = findFreeSpace('10.0.0.0/16', ['10.0.0.0/24', '10.0.0.0/28', '10.0.0.200', '10.0.1.0/24']);
+      expect(report.nested).toEqual(['10.0.0.0/28', '10.0.0.200/32']);
+    });
+
+    it('should handle long allocation lists', () => {
+      const hosts = Array.from({ length: 50000 }, (_, i) => `10.${i >> 16}.${(i >> 8) & 255}.${i & 255}`);
+      const report = findFreeSpace('10.0.0.0/8', ['10.0.0.0/16', ...hosts]);
+
+      expect(report.nested).toHaveLength(50000);
+      expect(report.allocatedAddresses).toBe(65536);
+      expect(report.freeAddresses).toBe(2 ** 24 - 65536);
+    });
+
+    it('should treat an empty or full parent', () => {
+      expect(findFreeSpace('10.0.0.0/8', []).freeBlocks).toEqual(['10.0.0.0/8']);
+      expect(findFreeSpace('10.0.0.0/24', ['10.0.0.0/25', '10.0.0.128/25'])).toMatchObject({
+        freeBlocks: [],
+        freeAddresses: 0,
+      });
+    });
+
+    it('should reject allocations outside the parent', () => {
+      expect(() => findFreeSpace('10.0.0.0/24', ['10.0.1.0/26'])).toThrow('10.0.1.0/26 não está contido em 10.0.0.0/24');
+      expect(() => findFreeSpace('10.0.0.0/24', ['10.0.0.0/23'])).toThrow(SubnetError);
+      expect(() => findFreeSpace('10.0.0.0/24', ['abc'])).toThrow('Prefixo inválido: "abc"');
+    });
+
+    it('should find the first aligned free block', () => {
+      expect(findFirstFreeBlock('10.0.0.0/22', allocations, 26)).toEqual({ prefix: '10.0.1.64/26', available: 5 });
+      expect(findFirstFreeBlock('10.0.0.0/22', allocations, 24)).toEqual({ prefix: '10.0.2.0/24', available: 1 });
+      expect(findFirstFreeBlock('10.0.0.0/22', allocations, 23)).toEqual({ prefix: null, available: 0 });
+      // Livre a partir de .5: a primeira /30 alinhada começa em .8
+      expect(findFirstFreeBlock('10.0.0.0/28', ['10.0.0.0/30', '10.0.0.4'], 30)).toEqual({
+        prefix: '10.0.0.8/30',
+        available: 2,
+      });
+    });
+
+    it('should reject block sizes larger than the parent', () => {
+      expect(() => findFirstFreeBlock('10.0.0.0/24', [], 23)).toThrow('entre /24 e /32 dentro de 10.0.0.0/24');
+      expect(() => findFirstFreeBlock('10.0.0.0/24', [], 33)).toThrow(SubnetError);
+    });
+  });
+
+  describe('IPv6 addresses', () => {
+    it('should compress to the RFC 5952 canonical form', () => {
+      expect(compressIPv6('2001:0DB8:0000:0000:0000:0000:0000:0001')).toBe('2001:db8::1');
+      expect(compressIPv6('2001:db8:0:0:1:0:0:1')).toBe('2001:db8::1:0:0:1');
+      expect(compressIPv6('2001:db8:0:1:1:1:1:1')).toBe('2001:db8:0:1:1:1:1:1');
+      expect(compressIPv6('2001:0:0:1:0:0:0:1')).toBe('2001:0:0:1::1');
+      expect(compressIPv6('0:0:0:0:0:0:0:0')).toBe('::');
+      expect(compressIPv6('::1')).toBe('::1');
+      expect(compressIPv6('fe80::')).toBe('fe80::');
+    });
+
+    it('should expand to eight four-digit groups', () => {
+      expect(expandIPv6('2001:db8::1')).toBe('2001:0db8:0000:0000:0000:0000:0000:0001');
+      expect(expandIPv6('::')).toBe('0000:0000:0000:0000:0000:0000:0000:0000');
+      expect(expandIPv6('fe80::1%eth0')).toBe('fe80:0000:0000:0000:0000:0000:0000:0001%eth0');
+    });
+
+    it('should parse embedded IPv4 tails and zone IDs', () => {
+      expect(expandIPv6('64:ff9b::192.0.2.33')).toBe('0064:ff9b:0000:0000:0000:0000:c000:0221');
+      expect(compressIPv6('0:0:0:0:0:ffff:c000:0201')).toBe('::ffff:192.0.2.1');
+      expect(compressIPv6('::ffff:192.0.2.1')).toBe('::ffff:192.0.2.1');
+
+      const linkLocal = IPv6Address.parse('FE80::0001%eth0');
+      expect(linkLocal.zoneId).toBe('eth0');
+      expect(linkLocal.toString()).toBe('fe80::1%eth0');
+      expect(linkLocal.groups).toEqual([0xfe80, 0, 0, 0, 0, 0, 0, 1]);
+    });
+
+    it('should keep the 128-bit value in a BigInt', () => {
+      const max = IPv6Address.parse('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff');
+      expect(max.value).toBe((1n << 128n) - 1n);
+      expect(new IPv6Address(1n).toString()).toBe('::1');
+      expect(IPv6Address.parse('2001:db8::1').compare(IPv6Address.parse('2001:db8::2'))).toBeLessThan(0);
+      expect(IPv6Address.parse('fe80::1%eth0').equals(IPv6Address.parse('fe80::1%eth1'))).toBe(false);
+      expect(() => new IPv6Address(1n << 128n)).toThrow(SubnetError);
+    });
+
+    it('should reject malformed addresses', () => {
+      expect(validateIPv6('2001:db8::1')).toBe(true);
+      expect(validateIPv6('192.168.1.1')).toBe(false);
+      expect(() => IPv6Address.parse('2001:db8::1::2')).toThrow("'::' só pode aparecer uma vez");
+      expect(() => IPv6Address.parse('1:2:3:4:5:6:7')).toThrow('esperados 8 grupos de 16 bits, encontrados 7');
+      expect(() => IPv6Address.parse('1:2:3:4::5:6:7:8')).toThrow("'::' deve substituir ao menos um grupo");
+      expect(() => IPv6Address.parse('2001:db8::12345')).toThrow('o grupo "12345" deve ter de 1 a 4 dígitos');
+      expect(() => IPv6Address.parse(':1::')).toThrow("único ':'");
+      expect(() => IPv6Address.parse('1.2.3.4::')).toThrow('só pode aparecer no final');
+      expect(() => IPv6Address.parse('::ffff:192.0.2.300')).toThrow('IPv4 embutido ("192.0.2.300")');
+      expect(() => IPv6Address.parse('fe80::1%')).toThrow('identificador de zona');
+    });
+  });
+
+  describe('IPv6 subnets', () => {
+    it('should calculate the prefix, address range and BigInt counts', () => {
+      const info = calculateIPv6Subnet('2001:db8:abcd:12::1', '/48');
+      expect(info).toMatchObject({
+        address: '2001:db8:abcd:12::1',
+        prefixLength: 48,
+        networkPrefix: '2001:db8:abcd::/48',
+        firstAddress: '2001:db8:abcd::',
+        lastAddress: '2001:db8:abcd:ffff:ffff:ffff:ffff:ffff',
+        totalAddresses: 1n << 80n,
+        subnets64: 65536n,
+      });
+      expect(calculateIPv6Subnet('::', '0').totalAddresses).toBe(1n << 128n);
+      expect(calculateIPv6Subnet('2001:db8::1', '/64').subnets64).toBe(1n);
+      expect(calculateIPv6Subnet('2001:db8::1', '/127')).toMatchObject({
+        lastAddress: '2001:db8::1',
+        totalAddresses: 2n,
+        subnets64: 0n,
+      });
+    });
+
+    it('should mark each nibble as network, host or split by the prefix', () => {
+      const { nibbles } = calculateIPv6Subnet('2001:db8:abcd:12::1', '/50');
+      expect(nibbles).toHaveLength(32);
+      expect(nibbles.slice(0, 4).map(nibble => nibble.hex).join('')).toBe('2001');
+      expect(nibbles[11]).toEqual({ index: 11, hex: 'd', role: 'network', networkBits: 4 });
+      expect(nibbles[12]).toEqual({ index: 12, hex: '0', role: 'mixed', networkBits: 2 });
+      expect(nibbles[13].role).toBe('host');
+      expect(nibbles[31]).toMatchObject({ hex: '1', role: 'host' });
+    });
+
+    it('should normalize prefixes and test containment', () => {
+      const prefix = IPv6Prefix.parse('2001:DB8:0:1::/32');
+      expect(prefix.toString()).toBe('2001:db8::/32');
+      expect(prefix.contains(IPv6Address.parse('2001:db8:ffff::1'))).toBe(true);
+      expect(prefix.contains(IPv6Prefix.parse('2001:db8:1::/48'))).toBe(true);
+      expect(prefix.contains(IPv6Address.parse('2001:db9::'))).toBe(false);
+      expect(() => IPv6Prefix.parse('2001:db8::/129')).toThrow('entre /0 e /128');
+      expect(() => calculateIPv6Subnet('2001:db8::', '255.255.0.0')).toThrow('IPv6 não usa máscara decimal');
+    });
+
+    it('should detect the address family and read the prefix typed with the address', () => {
+      expect(detectAddressFamily('2001:db8::1/64')).toBe('ipv6');
+      expect(detectAddressFamily('192.168.1.1/24')).toBe('ipv4');
+      expect(parseIPv6Input(' 2001:DB8::1 / 64 ')).toEqual({ address: '2001:db8::1', mask: '/64' });
+      expect(parseIPv6Input('fe80::1%eth0')).toEqual({ address: 'fe80::1%eth0', mask: null });
+      expect(() => parseIPv6Input('2001:db8::1/200')).toThrow(SubnetError);
+    });
+  });
 });
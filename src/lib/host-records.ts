@@ -0,0 +1,184 @@
+/**
+ * Nomes de hosts de uma rede e sua exportação para DNS e /etc/hosts
+ *
+ * Os nomes vêm de um padrão com o número do host (ex: `srv-{n:02}.lab.example`)
+ * ou de uma lista explícita, e são atribuídos aos hosts utilizáveis em ordem.
+ * Cada atribuição gera o registro A da zona direta e o PTR correspondente.
+ */
+
+import { parseHostname, ptrName } from './reverse-dns';
+import { IPv4Prefix, iterateHosts, SubnetError } from './subnet-utils';
+
+/**
+ * Origem dos nomes: padrão com marcador `{n}` ou lista explícita
+ */
+export type HostnameSource = { pattern: string } | { names: string[] };
+
+/**
+ * Parâmetros da atribuição de nomes
+ */
+export interface HostAssignmentOptions {
+  /** Posição do primeiro host nomeado (1 = primeiro host utilizável; padrão 1) */
+  firstHost?: number;
+  /** Quantidade de hosts nomeados pelo padrão (obrigatória com padrão; com lista, é o tamanho da lista) */
+  count?: number;
+}
+
+/**
+ * Nome atribuído a um host
+ */
+export interface HostRecord {
+  /** Nome absoluto, sem o ponto final (ex: 'srv-01.lab.example') */
+  hostname: string;
+  /** Endereço do host */
+  address: string;
+  /** Nome reverso do endereço (ex: '1.0.0.10.in-addr.arpa') */
+  ptr: string;
+}
+
+/**
+ * Registros prontos para exportação
+ */
+export interface HostRecordsExport {
+  records: HostRecord[];
+  /** Registros A no formato BIND */
+  forward: string;
+  /** Registros PTR no formato BIND */
+  reverse: string;
+  /** Bloco para o arquivo /etc/hosts */
+  hostsFile: string;
+}
+
+/** Marcador do número do host, com largura opcional preenchida com zeros (ex: '{n}', '{n:02}') */
+const PLACEHOLDER_REGEX = /\{([^}]*)\}/g;
+
+/** Maior comprimento entre os textos (sem espalhar a lista em argumentos, que estoura a pilha em redes grandes) */
+const maxLength = (values: string[]): number => values.reduce((max, value) => Math.max(max, value.length), 0);
+
+/**
+ * Gera o nome de um host a partir do padrão
+ * @param pattern - Padrão com o marcador `{n}` ou `{n:0W}` (ex: 'srv-{n:02}.lab.example')
+ * @param n - Número do host (a partir de 1)
+ * @returns Nome com o marcador substituído (ex: 'srv-07.lab.example')
+ * @throws {SubnetError} Se o padrão tiver um marcador desconhecido
+ */
+export const expandHostnamePattern = (pattern: string, n: number): string =>
+  pattern.replace(PLACEHOLDER_REGEX, (placeholder, spec: string) => {
+    const match = /^n(?::0(\d+))?$/.exec(spec);
+    if (!match) {
+      throw new SubnetError('INVALID_ARGUMENT', `Marcador desconhecido no padrão: "${placeholder}". Use {n} ou {n:02}`, {
+        input: pattern,
+      });
+    }
+    return String(n).padStart(match[1] ? Number(match[1]) : 0, '0');
+  });
+
+/**
+ * Atribui nomes aos hosts utilizáveis de uma rede, em ordem
+ * @param network - Rede em notação CIDR (ex: '10.0.0.0/24')
+ * @param source - Padrão (ex: { pattern: 'srv-{n:02}.lab.example' }) ou lista de nomes
+ * @param options - Primeiro host nomeado e quantidade de hosts
+ * @throws {SubnetError} Se a rede ou algum nome for inválido, se houver nomes
+ *         repetidos ou se não houver hosts suficientes
+ */
+export const assignHostnames = (
+  network: string,
+  source: HostnameSource,
+  options: HostAssignmentOptions = {}
+): HostRecord[] => {
+  const prefix = IPv4Prefix.parse(network);
+  const firstHost = options.firstHost ?? 1;
+  if (!Number.isInteger(firstHost) || firstHost < 1) {
+    throw new SubnetError('INVALID_ARGUMENT', 'O primeiro host deve ser um inteiro a partir de 1');
+  }
+
+  const available = prefix.usableHosts - (firstHost - 1);
+  const notEnoughHosts = (wanted: number) =>
+    new SubnetError(
+      'INVALID_ARGUMENT',
+      `${prefix} tem ${Math.max(available, 0)} hosts a partir do ${firstHost}º; não cabem ${wanted} nomes`
+    );
+
+  let names: string[];
+  if ('pattern' in source) {
+    const { count } = options;
+    if (count === undefined || !Number.isInteger(count) || count < 1) {
+      throw new SubnetError('INVALID_ARGUMENT', 'Informe quantos hosts devem ser nomeados pelo padrão');
+    }
+    if (count > 1 && !source.pattern.includes('{')) {
+      throw new SubnetError('INVALID_ARGUMENT', 'O padrão precisa do marcador {n} para gerar nomes diferentes', {
+        input: source.pattern,
+      });
+    }
+    // Verificado antes de gerar os nomes, para não montar milhões de nomes só para rejeitá-los
+    if (count > available) {
+      throw notEnoughHosts(count);
+    }
+    names = Array.from({ length: count }, (_, index) => expandHostnamePattern(source.pattern.trim(), index + 1));
+  } else {
+    names = source.names.map(name => name.trim()).filter(Boolean);
+    if (names.length === 0) {
+      throw new SubnetError('INVALID_ARGUMENT', 'Informe ao menos um nome de host');
+    }
+  }
+
+  if (names.length > available) {
+    throw notEnoughHosts(names.length);
+  }
+
+  // Nomes comparados sem diferenciar maiúsculas, como no DNS
+  const seen = new Set<string>();
+  const hostnames = names.map(name => {
+    const hostname = parseHostname(name, 'Nome de host').slice(0, -1);
+    const key = hostname.toLowerCase();
+    if (seen.has(key)) {
+      throw new SubnetError('INVALID_ARGUMENT', `Nome de host repetido: "${hostname}"`, { input: hostname });
+    }
+    seen.add(key);
+    return hostname;
+  });
+
+  const addresses = Array.from(iterateHosts(prefix.toString(), firstHost - 1, firstHost - 1 + hostnames.length));
+  return hostnames.map((hostname, index) => ({
+    hostname,
+    address: addresses[index],
+    ptr: ptrName(addresses[index]),
+  }));
+};
+
+/**
+ * Atribui os nomes e monta os registros A, PTR e o bloco do /etc/hosts
+ * @param network - Rede em notação CIDR (ex: '10.0.0.0/24')
+ * @param source - Padrão ou lista de nomes
+ * @param options - Primeiro host nomeado e quantidade de hosts
+ * @throws {SubnetError} Nas mesmas condições de `assignHostnames`
+ */
+export const exportHostRecords = (
+  network: string,
+  source: HostnameSource,
+  options: HostAssignmentOptions = {}
+): HostRecordsExport => {
+  const records = assignHostnames(network, source, options);
+  const nameWidth = maxLength(records.map(record => record.hostname)) + 1;
+  const ptrWidth = maxLength(records.map(record => record.ptr)) + 1;
+  const addressWidth = maxLength(records.map(record => record.address));
+
+  const forward = records
+    .map(({ hostname, address }) => `${`${hostname}.`.padEnd(nameWidth)} IN A   ${address}`)
+    .join('\n');
+  const reverse = records
+    .map(({ hostname, ptr }) => `${`${ptr}.`.padEnd(ptrWidth)} IN PTR ${hostname}.`)
+    .join('\n');
+
+  // O nome curto (primeiro rótulo) entra como apelido quando o nome tem domínio
+  const hostsFile = [
+    `# ${IPv4Prefix.parse(network)}`,
+    ...records.map(({ hostname, address }) => {
+      const shortName = hostname.split('.')[0];
+      const aliases = shortName === hostname ? hostname : `${hostname} ${shortName}`;
+      return `${address.padEnd(addressWidth)}  ${aliases}`;
+    }),
+  ].join('\n');
+
+  return { records, forward, reverse, hostsFile };
+};
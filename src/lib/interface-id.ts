@@ -0,0 +1,296 @@
+/**
+ * Identificadores de interface IPv6 (os 64 bits finais de um endereço SLAAC)
+ *
+ * Três formas de gerar o identificador a partir de um prefixo /64:
+ * - EUI-64 modificado (RFC 4291, apêndice A): derivado do MAC, com FFFE no
+ *   meio e o bit U/L invertido; é previsível e revela o MAC, o que permite
+ *   descobrir qual host usa um endereço.
+ * - Estável e opaco (RFC 7217): hash do prefixo, da interface e de uma chave
+ *   secreta; fixo dentro de uma rede, mas muda ao trocar de rede.
+ * - Temporário (RFC 8981): aleatório, trocado periodicamente pelo host.
+ */
+
+import { IPv6Address, IPv6Prefix, SubnetError } from './subnet-utils';
+
+/** MAC com os 6 octetos separados por ':' ou '-', em 3 grupos de 4 dígitos (Cisco) ou sem separador */
+const MAC_REGEX = /^(?:[0-9a-f]{2}([:-])[0-9a-f]{2}(?:\1[0-9a-f]{2}){4}|[0-9a-f]{4}(?:\.[0-9a-f]{4}){2}|[0-9a-f]{12})$/i;
+
+/** Bit U/L (universal/local) no primeiro octeto do MAC e do identificador */
+const UNIVERSAL_LOCAL_BIT = 0x02;
+
+/** Bit I/G (individual/grupo) no primeiro octeto do MAC */
+const GROUP_BIT = 0x01;
+
+/** Maior contador de DAD aceito (ocupa um octeto na entrada do hash) */
+const MAX_DAD_COUNTER = 255;
+
+/**
+ * Faixas de identificadores reservados (RFC 5453), que um identificador gerado
+ * não pode usar: anycast do roteador da sub-rede, o bloco Ethernet da IANA e
+ * os anycast reservados da sub-rede
+ */
+const RESERVED_INTERFACE_IDS: [bigint, bigint][] = [
+  [0n, 0n],
+  [0x02005efffe000000n, 0x02005efffeffffffn],
+  [0xfdffffffffffff80n, 0xfdffffffffffffffn],
+];
+
+/**
+ * Um passo da derivação EUI-64, para a visualização em binário
+ */
+export interface Eui64Step {
+  /** Título curto do passo */
+  title: string;
+  /** O que muda neste passo */
+  description: string;
+  /** Octetos em hexadecimal */
+  hex: string[];
+  /** Octetos em binário (8 dígitos cada) */
+  binary: string[];
+  /** Posições dos bits inseridos ou alterados (a partir de 0, do bit mais significativo) */
+  changedBits: number[];
+}
+
+/**
+ * Endereço SLAAC derivado de um MAC pelo EUI-64 modificado
+ */
+export interface Eui64Address {
+  /** MAC normalizado (ex: '00:11:22:33:44:55') */
+  mac: string;
+  /** Prefixo /64 normalizado (ex: '2001:db8::/64') */
+  prefix: string;
+  /** Identificador de interface em 4 grupos (ex: '0211:22ff:fe33:4455') */
+  interfaceId: string;
+  /** Endereço completo na forma comprimida */
+  address: string;
+  /** Se o MAC é universal (atribuído pelo fabricante), com o bit U/L em 0 */
+  universal: boolean;
+  /** Passos da derivação: MAC, inserção do FFFE e inversão do bit U/L */
+  steps: Eui64Step[];
+}
+
+/**
+ * Endereço com identificador de interface gerado (estável ou temporário)
+ */
+export interface GeneratedAddress {
+  /** Prefixo /64 normalizado */
+  prefix: string;
+  /** Identificador de interface em 4 grupos */
+  interfaceId: string;
+  /** Endereço completo na forma comprimida */
+  address: string;
+}
+
+/**
+ * Parâmetros do identificador estável do RFC 7217
+ */
+export interface StableIdParams {
+  /** Identificador estável da interface (Net_Iface, ex: 'eth0') */
+  interfaceName: string;
+  /** Identificador da rede (Network_ID, ex: o SSID do Wi-Fi), opcional */
+  networkId?: string;
+  /** Contador de DAD: quantas vezes o endereço já colidiu nesta rede (padrão: 0) */
+  dadCounter?: number;
+  /** Chave secreta do host (secret_key); o RFC recomenda ao menos 128 bits */
+  secretKey: string;
+}
+
+/**
+ * Endereço estável do RFC 7217, com o contador de DAD efetivamente usado
+ */
+export interface StableAddress extends GeneratedAddress {
+  /** Contador usado (maior que o informado se o hash caiu em um identificador reservado) */
+  dadCounter: number;
+}
+
+/**
+ * Interpreta o prefixo de autoconfiguração; sem o comprimento, assume /64
+ * @throws {SubnetError} Se o prefixo for inválido ou não for /64
+ */
+const parseSlaacPrefix = (prefix: string): IPv6Prefix => {
+  const text = prefix.trim();
+  const parsed = IPv6Prefix.parse(text.includes('/') ? text : `${text}/64`);
+  if (parsed.length !== 64) {
+    throw new SubnetError(
+      'PREFIX_LENGTH_OUT_OF_RANGE',
+      `A autoconfiguração (SLAAC) usa identificadores de interface de 64 bits: o prefixo deve ser /64, não /${parsed.length}`,
+      { input: prefix }
+    );
+  }
+  return parsed;
+};
+
+/** Inteiro formado pelos octetos, do mais significativo para o menos significativo */
+const bytesToBigInt = (bytes: ArrayLike<number>): bigint =>
+  Array.from(bytes).reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+
+/** Octeto em hexadecimal com 2 dígitos */
+const toHex = (byte: number): string => byte.toString(16).padStart(2, '0');
+
+/** Indica se o identificador está em uma faixa reservada pelo RFC 5453 */
+export const isReservedInterfaceId = (interfaceId: bigint): boolean =>
+  RESERVED_INTERFACE_IDS.some(([first, last]) => interfaceId >= first && interfaceId <= last);
+
+/**
+ * Junta o prefixo e o identificador de interface em um endereço
+ */
+const combine = (prefix: IPv6Prefix, interfaceId: bigint): GeneratedAddress => {
+  const address = new IPv6Address(prefix.network.value | interfaceId);
+  return {
+    prefix: prefix.toString(),
+    interfaceId: address.toExpanded().split(':').slice(4).join(':'),
+    address: address.toString(),
+  };
+};
+
+/**
+ * Interpreta um endereço MAC
+ * @param mac - MAC em qualquer formato comum (ex: '00:11:22:33:44:55', '00-11-22-33-44-55', '0011.2233.4455')
+ * @returns Os 6 octetos
+ * @throws {SubnetError} Se o formato for inválido
+ */
+export const parseMac = (mac: string): number[] => {
+  const text = mac.trim();
+  if (!MAC_REGEX.test(text)) {
+    throw new SubnetError(
+      'INVALID_MAC',
+      `Endereço MAC inválido: "${mac}". Use o formato 00:11:22:33:44:55, 00-11-22-33-44-55 ou 0011.2233.4455`,
+      { input: mac }
+    );
+  }
+  const digits = text.replace(/[:.-]/g, '');
+  return Array.from({ length: 6 }, (_, i) => parseInt(digits.substring(i * 2, i * 2 + 2), 16));
+};
+
+/**
+ * Formata os octetos de um MAC no formato com dois-pontos, em minúsculas
+ */
+export const formatMac = (bytes: number[]): string => bytes.map(toHex).join(':');
+
+/**
+ * Calcula o endereço SLAAC de um MAC pelo EUI-64 modificado, com os passos da derivação
+ * @param prefix - Prefixo /64 (ex: '2001:db8::/64'); sem o comprimento, assume /64
+ * @param mac - MAC da interface (ex: '00:11:22:33:44:55')
+ * @throws {SubnetError} Se o prefixo não for /64 ou o MAC for inválido ou de grupo
+ */
+export const eui64Address = (prefix: string, mac: string): Eui64Address => {
+  const network = parseSlaacPrefix(prefix);
+  const bytes = parseMac(mac);
+  if (bytes[0] & GROUP_BIT) {
+    throw new SubnetError(
+      'INVALID_MAC',
+      `Endereço MAC inválido: ${formatMac(bytes)} é de grupo (bit I/G em 1) e não identifica uma interface`,
+      { input: mac }
+    );
+  }
+
+  const step = (title: string, description: string, octets: number[], changedBits: number[]): Eui64Step => ({
+    title,
+    description,
+    hex: octets.map(toHex),
+    binary: octets.map(byte => byte.toString(2).padStart(8, '0')),
+    changedBits,
+  });
+
+  const universal = (bytes[0] & UNIVERSAL_LOCAL_BIT) === 0;
+  const withFffe = [...bytes.slice(0, 3), 0xff, 0xfe, ...bytes.slice(3)];
+  const flipped = [withFffe[0] ^ UNIVERSAL_LOCAL_BIT, ...withFffe.slice(1)];
+
+  return {
+    mac: formatMac(bytes),
+    universal,
+    ...combine(network, bytesToBigInt(flipped)),
+    steps: [
+      step(
+        'Endereço MAC',
+        '48 bits: os 3 primeiros octetos (OUI) identificam o fabricante e os 3 últimos, a placa',
+        bytes,
+        []
+      ),
+      step(
+        'Inserir FFFE',
+        'FF:FE entra entre o OUI e o restante do MAC, completando 64 bits',
+        withFffe,
+        Array.from({ length: 16 }, (_, i) => 24 + i)
+      ),
+      step(
+        'Inverter o bit U/L',
+        `O 7º bit do primeiro octeto (U/L) passa de ${universal ? '0 para 1' : '1 para 0'}: no identificador de ` +
+          'interface, 1 indica um identificador universal, e por isso identificadores manuais como ::1 ficam curtos',
+        flipped,
+        [6]
+      ),
+    ],
+  };
+};
+
+/**
+ * Recupera o MAC de um endereço gerado por EUI-64, desfazendo a inversão do bit U/L
+ * @param address - Endereço IPv6 (ex: '2001:db8::211:22ff:fe33:4455')
+ * @returns O MAC (ex: '00:11:22:33:44:55'), ou null se o identificador não tiver FFFE no meio
+ * @throws {SubnetError} Se o endereço for inválido
+ */
+export const macFromEui64 = (address: string): string | null => {
+  const value = IPv6Address.parse(address).value;
+  const bytes = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt(56 - i * 8)) & 0xffn));
+  if (bytes[3] !== 0xff || bytes[4] !== 0xfe) return null;
+  return formatMac([bytes[0] ^ UNIVERSAL_LOCAL_BIT, bytes[1], bytes[2], bytes[5], bytes[6], bytes[7]]);
+};
+
+/**
+ * Gera o endereço estável e opaco do RFC 7217
+ *
+ * O identificador são os 64 primeiros bits de SHA-256(Prefixo | Net_Iface |
+ * Network_ID | DAD_Counter | secret_key), com o prefixo em 8 octetos, o
+ * contador em 1 octeto e os textos em UTF-8. Se o resultado cair em uma faixa
+ * reservada, o contador é incrementado, como numa colisão de DAD.
+ * @param prefix - Prefixo /64 anunciado pelo roteador
+ * @param params - Interface, rede, contador de DAD e chave secreta
+ * @throws {SubnetError} Se o prefixo não for /64 ou faltar a interface ou a chave
+ */
+export const stablePrivacyAddress = async (prefix: string, params: StableIdParams): Promise<StableAddress> => {
+  const network = parseSlaacPrefix(prefix);
+  if (!params.interfaceName.trim()) {
+    throw new SubnetError('INVALID_ARGUMENT', 'Informe o identificador da interface (ex: eth0)');
+  }
+  if (!params.secretKey) {
+    throw new SubnetError('INVALID_ARGUMENT', 'Informe a chave secreta do host');
+  }
+  let dadCounter = params.dadCounter ?? 0;
+  if (!Number.isInteger(dadCounter) || dadCounter < 0 || dadCounter > MAX_DAD_COUNTER) {
+    throw new SubnetError('INVALID_ARGUMENT', `O contador de DAD deve ser um inteiro entre 0 e ${MAX_DAD_COUNTER}`);
+  }
+
+  const encoder = new TextEncoder();
+  const prefixBytes = Array.from({ length: 8 }, (_, i) => Number((network.network.value >> BigInt(120 - i * 8)) & 0xffn));
+
+  for (; dadCounter <= MAX_DAD_COUNTER; dadCounter++) {
+    const input = new Uint8Array([
+      ...prefixBytes,
+      ...encoder.encode(params.interfaceName.trim()),
+      ...encoder.encode(params.networkId ?? ''),
+      dadCounter,
+      ...encoder.encode(params.secretKey),
+    ]);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+    const interfaceId = bytesToBigInt(digest.subarray(0, 8));
+    if (!isReservedInterfaceId(interfaceId)) {
+      return { ...combine(network, interfaceId), dadCounter };
+    }
+  }
+  throw new SubnetError('INVALID_ARGUMENT', 'Não foi possível gerar um identificador fora das faixas reservadas');
+};
+
+/**
+ * Gera um endereço temporário (RFC 8981) com identificador aleatório
+ * @param prefix - Prefixo /64 anunciado pelo roteador
+ * @throws {SubnetError} Se o prefixo não for /64
+ */
+export const temporaryAddress = (prefix: string): GeneratedAddress => {
+  const network = parseSlaacPrefix(prefix);
+  let interfaceId: bigint;
+  do {
+    interfaceId = bytesToBigInt(crypto.getRandomValues(new Uint8Array(8)));
+  } while (isReservedInterfaceId(interfaceId));
+  return combine(network, interfaceId);
+};
@@ -0,0 +1,250 @@
+/**
+ * Análise do tipo de um endereço IPv6
+ *
+ * O tipo vem da arquitetura de endereçamento (RFC 4291): unicast global,
+ * local único, link-local, multicast etc. Para multicast, os 4 bits de flags
+ * e os 4 de escopo ficam no segundo octeto (ff<flags><escopo>::). Todo
+ * endereço unicast tem um grupo de nó solicitado (ff02::1:ffXX:XXXX, com os
+ * 24 bits finais do endereço), usado pelo Neighbor Discovery no lugar do ARP,
+ * e todo grupo multicast é entregue em Ethernet ao MAC 33:33 seguido dos
+ * 32 bits finais do grupo (RFC 2464).
+ */
+
+import { classifyIPv6Address, type SpecialPurposeBlock } from './special-purpose';
+import { IPv6Address, IPv6Prefix } from './subnet-utils';
+
+/**
+ * Tipo principal de um endereço IPv6
+ */
+export type IPv6AddressType =
+  | 'unspecified'
+  | 'loopback'
+  | 'ipv4-mapped'
+  | 'ipv4-translated'
+  | 'multicast'
+  | 'link-local'
+  | 'site-local'
+  | 'unique-local'
+  | 'documentation'
+  | 'global-unicast'
+  | 'reserved';
+
+/**
+ * Escopo de um endereço (RFC 4007); os valores de multicast seguem o RFC 7346
+ */
+export type IPv6Scope =
+  | 'interface-local'
+  | 'link-local'
+  | 'realm-local'
+  | 'admin-local'
+  | 'site-local'
+  | 'organization-local'
+  | 'global'
+  | 'reserved'
+  | 'unassigned';
+
+/**
+ * Detalhes de um endereço multicast
+ */
+export interface IPv6MulticastInfo {
+  /** Valor do campo de escopo (0-15) */
+  scopeValue: number;
+  /** Escopo do grupo */
+  scope: IPv6Scope;
+  /** Flag T: 1 = grupo temporário (dinâmico), 0 = permanente (atribuído pela IANA) */
+  transient: boolean;
+  /** Flag P: grupo baseado no prefixo unicast da rede (RFC 3306) */
+  prefixBased: boolean;
+  /** Flag R: endereço do rendezvous point embutido no grupo (RFC 3956) */
+  embeddedRendezvousPoint: boolean;
+  /** Nome do grupo bem conhecido (ex: 'Todos os nós'), ou null */
+  wellKnownGroup: string | null;
+}
+
+/**
+ * Grupo de nó solicitado de um endereço unicast
+ */
+export interface SolicitedNodeInfo {
+  /** Endereço do grupo (ex: 'ff02::1:ff33:4455') */
+  address: string;
+  /** MAC Ethernet do grupo (ex: '33:33:ff:33:44:55') */
+  mac: string;
+}
+
+/**
+ * Análise completa de um endereço IPv6
+ */
+export interface IPv6AddressAnalysis {
+  /** Endereço na forma comprimida da RFC 5952 */
+  address: string;
+  /** Tipo principal */
+  type: IPv6AddressType;
+  /** Nome do tipo em português */
+  typeLabel: string;
+  /** Escopo do endereço, ou null para o endereço não especificado */
+  scope: IPv6Scope | null;
+  /** Blocos do registro de uso especial que contêm o endereço, do mais específico para o mais geral */
+  specialPurpose: SpecialPurposeBlock[];
+  /** Detalhes de multicast, ou null se o endereço não for multicast */
+  multicast: IPv6MulticastInfo | null;
+  /** MAC Ethernet de destino de um endereço multicast, ou null */
+  multicastMac: string | null;
+  /** Grupo de nó solicitado de um endereço unicast, ou null */
+  solicitedNode: SolicitedNodeInfo | null;
+}
+
+/** Nome de cada tipo de endereço */
+export const IPV6_TYPE_LABELS: Record<IPv6AddressType, string> = {
+  unspecified: 'Não especificado',
+  loopback: 'Loopback',
+  'ipv4-mapped': 'IPv4 mapeado',
+  'ipv4-translated': 'Tradução IPv4/IPv6 (NAT64)',
+  multicast: 'Multicast',
+  'link-local': 'Link-local unicast',
+  'site-local': 'Site-local (obsoleto)',
+  'unique-local': 'Local único (ULA)',
+  documentation: 'Documentação',
+  'global-unicast': 'Unicast global',
+  reserved: 'Reservado pela IETF',
+};
+
+/** Nome de cada escopo */
+export const IPV6_SCOPE_LABELS: Record<IPv6Scope, string> = {
+  'interface-local': 'Interface',
+  'link-local': 'Enlace',
+  'realm-local': 'Domínio (realm)',
+  'admin-local': 'Administrativo',
+  'site-local': 'Site',
+  'organization-local': 'Organização',
+  global: 'Global',
+  reserved: 'Reservado',
+  unassigned: 'Não atribuído',
+};
+
+/** Escopos definidos para o campo de escopo do multicast; os demais valores não são atribuídos */
+const MULTICAST_SCOPES: Record<number, IPv6Scope> = {
+  0x0: 'reserved',
+  0x1: 'interface-local',
+  0x2: 'link-local',
+  0x3: 'realm-local',
+  0x4: 'admin-local',
+  0x5: 'site-local',
+  0x8: 'organization-local',
+  0xe: 'global',
+  0xf: 'reserved',
+};
+
+/** Grupos multicast permanentes mais comuns, pela forma comprimida */
+const WELL_KNOWN_GROUPS: Record<string, string> = {
+  'ff01::1': 'Todos os nós',
+  'ff01::2': 'Todos os roteadores',
+  'ff02::1': 'Todos os nós',
+  'ff02::2': 'Todos os roteadores',
+  'ff02::5': 'Roteadores OSPFv3',
+  'ff02::6': 'Roteadores designados OSPFv3',
+  'ff02::9': 'Roteadores RIPng',
+  'ff02::a': 'Roteadores EIGRP',
+  'ff02::d': 'Roteadores PIM',
+  'ff02::16': 'Roteadores MLDv2',
+  'ff02::fb': 'mDNS',
+  'ff02::1:2': 'Agentes DHCPv6 (relays e servidores)',
+  'ff05::2': 'Todos os roteadores',
+  'ff05::1:3': 'Servidores DHCPv6',
+};
+
+/** Prefixos que definem o tipo principal, do mais específico para o mais geral */
+const TYPE_PREFIXES: [IPv6AddressType, IPv6Prefix][] = (
+  [
+    ['unspecified', '::/128'],
+    ['loopback', '::1/128'],
+    ['ipv4-mapped', '::ffff:0:0/96'],
+    // Fora de 2000::/3, mas unicast: o bem conhecido é roteável globalmente (RFC 6052, RFC 8215)
+    ['ipv4-translated', '64:ff9b::/96'],
+    ['ipv4-translated', '64:ff9b:1::/48'],
+    ['multicast', 'ff00::/8'],
+    ['link-local', 'fe80::/10'],
+    ['site-local', 'fec0::/10'],
+    ['unique-local', 'fc00::/7'],
+    ['documentation', '2001:db8::/32'],
+    ['documentation', '3fff::/20'],
+    ['global-unicast', '2000::/3'],
+  ] as [IPv6AddressType, string][]
+).map(([type, prefix]) => [type, IPv6Prefix.parse(prefix)]);
+
+/** Prefixo dos grupos de nó solicitado (ff02::1:ff00:0/104) */
+const SOLICITED_NODE_PREFIX = IPv6Address.parse('ff02::1:ff00:0').value;
+
+/**
+ * MAC Ethernet de um grupo multicast: 33:33 e os 32 bits finais do grupo
+ */
+const multicastMacOf = (address: IPv6Address): string => {
+  const low = Number(address.value & 0xffffffffn);
+  return [0x33, 0x33, low >>> 24, (low >>> 16) & 255, (low >>> 8) & 255, low & 255]
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join(':');
+};
+
+/**
+ * Interpreta os campos de flags e escopo de um endereço multicast
+ */
+const describeMulticast = (address: IPv6Address): IPv6MulticastInfo => {
+  const flags = Number((address.value >> 116n) & 0xfn);
+  const scopeValue = Number((address.value >> 112n) & 0xfn);
+  const canonical = new IPv6Address(address.value).toString();
+
+  return {
+    scopeValue,
+    scope: MULTICAST_SCOPES[scopeValue] ?? 'unassigned',
+    transient: (flags & 0x1) !== 0,
+    prefixBased: (flags & 0x2) !== 0,
+    embeddedRendezvousPoint: (flags & 0x4) !== 0,
+    wellKnownGroup:
+      WELL_KNOWN_GROUPS[canonical] ??
+      (address.value >> 24n === SOLICITED_NODE_PREFIX >> 24n ? 'Nó solicitado (Neighbor Discovery)' : null),
+  };
+};
+
+/**
+ * Escopo de um endereço unicast (RFC 4007): loopback e link-local valem só no
+ * enlace; ULA tem escopo global, embora não seja roteado na Internet
+ */
+const unicastScope = (type: IPv6AddressType): IPv6Scope | null => {
+  if (type === 'unspecified') return null;
+  if (type === 'loopback' || type === 'link-local') return 'link-local';
+  if (type === 'site-local') return 'site-local';
+  return 'global';
+};
+
+/**
+ * Calcula o grupo de nó solicitado de um endereço unicast
+ * @param ip - Endereço IPv6 unicast (ex: '2001:db8::211:22ff:fe33:4455')
+ * @returns Grupo (ff02::1:ff00:0/104 + 24 bits finais do endereço) e o MAC Ethernet correspondente
+ * @throws {SubnetError} Se o endereço for inválido
+ */
+export const solicitedNodeAddress = (ip: string): SolicitedNodeInfo => {
+  const group = new IPv6Address(SOLICITED_NODE_PREFIX | (IPv6Address.parse(ip).value & 0xffffffn));
+  return { address: group.toString(), mac: multicastMacOf(group) };
+};
+
+/**
+ * Analisa o tipo, o escopo e os endereços multicast associados a um endereço IPv6
+ * @param ip - Endereço IPv6, com ou sem zona (ex: 'fe80::1%eth0', 'ff02::1')
+ * @throws {SubnetError} Se o endereço for inválido
+ */
+export const analyzeIPv6Address = (ip: string): IPv6AddressAnalysis => {
+  const address = IPv6Address.parse(ip);
+  const type = TYPE_PREFIXES.find(([, prefix]) => prefix.contains(address))?.[0] ?? 'reserved';
+  const multicast = type === 'multicast' ? describeMulticast(address) : null;
+
+  return {
+    address: address.toString(),
+    type,
+    typeLabel: IPV6_TYPE_LABELS[type],
+    scope: multicast ? multicast.scope : unicastScope(type),
+    specialPurpose: classifyIPv6Address(ip),
+    multicast,
+    multicastMac: multicast ? multicastMacOf(address) : null,
+    // O endereço não especificado não pertence a nenhuma interface, e multicast não tem nó solicitado
+    solicitedNode: multicast || type === 'unspecified' ? null : solicitedNodeAddress(ip),
+  };
+};
@@ -0,0 +1,243 @@
+/**
+ * IPv4 embutido em endereços IPv6 (transição e tradução)
+ *
+ * - IPv4 mapeado (RFC 4291): ::ffff:a.b.c.d, os 32 bits finais.
+ * - 6to4 (RFC 3056): 2002:AABB:CCDD::/48, o IPv4 logo depois do 2002.
+ * - NAT64 (RFC 6052): o IPv4 segue o prefixo (/32, /40, /48, /56, /64 ou
+ *   /96), pulando o octeto "u" (bits 64-71), que fica sempre em zero.
+ * - Teredo (RFC 4380): 2001:0:<servidor>:<flags>:<porta>:<cliente>, com a
+ *   porta e o IPv4 do cliente invertidos bit a bit (ofuscados) para passar por NATs.
+ */
+
+import { IPv4Address, IPv6Address, IPv6Prefix, SubnetError } from './subnet-utils';
+
+/** Prefixo bem conhecido do NAT64 (RFC 6052) */
+export const NAT64_WELL_KNOWN_PREFIX = '64:ff9b::/96';
+
+/** Comprimentos de prefixo NAT64 definidos pelo RFC 6052 */
+export const NAT64_PREFIX_LENGTHS = [32, 40, 48, 56, 64, 96];
+
+/** Posição do octeto "u" (bits 64-71), que o IPv4 embutido pula */
+const U_OCTET = 8;
+
+/** Blocos em que o IPv4 fica em posição fixa */
+const IPV4_MAPPED = IPv6Prefix.parse('::ffff:0:0/96');
+const SIX_TO_FOUR = IPv6Prefix.parse('2002::/16');
+const TEREDO = IPv6Prefix.parse('2001::/32');
+
+/**
+ * Forma de embutir um IPv4 em um IPv6
+ */
+export type EmbeddingKind = 'ipv4-mapped' | '6to4' | 'nat64' | 'teredo-server' | 'teredo-client';
+
+/**
+ * IPv4 embutido em um endereço IPv6
+ */
+export interface EmbeddedIPv4 {
+  /** Forma de embutir */
+  kind: EmbeddingKind;
+  /** Endereço IPv6 na forma comprimida */
+  ipv6: string;
+  /** Endereço IPv6 na forma expandida, para localizar os nibbles */
+  expanded: string;
+  /** IPv4 embutido (no Teredo, o do cliente já sem a ofuscação) */
+  ipv4: string;
+  /** Posições (0-31) dos nibbles do IPv6 que carregam o IPv4 */
+  ipv4Nibbles: number[];
+  /** Prefixo envolvido (o /48 do 6to4 ou o prefixo NAT64), ou null */
+  prefix: string | null;
+}
+
+/**
+ * Campos de um endereço Teredo
+ */
+export interface TeredoInfo {
+  /** Endereço IPv6 na forma comprimida */
+  address: string;
+  /** IPv4 do servidor Teredo */
+  server: string;
+  /** IPv4 público do cliente (após desfazer a ofuscação) */
+  clientIPv4: string;
+  /** Porta UDP pública do cliente (após desfazer a ofuscação) */
+  clientPort: number;
+  /** Campo de flags (16 bits) */
+  flags: number;
+  /** Flag C: cliente atrás de um NAT do tipo cone */
+  cone: boolean;
+}
+
+/** Os 16 octetos de um IPv6 */
+const toBytes = (address: IPv6Address): number[] =>
+  Array.from({ length: 16 }, (_, i) => Number((address.value >> BigInt(120 - i * 8)) & 0xffn));
+
+/** IPv6 formado pelos 16 octetos */
+const fromBytes = (bytes: number[]): IPv6Address =>
+  new IPv6Address(bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n));
+
+/** Nibbles (2 por octeto) ocupados pelos octetos nas posições informadas */
+const nibblesOf = (byteIndexes: number[]): number[] => byteIndexes.flatMap(index => [index * 2, index * 2 + 1]);
+
+/**
+ * Posições dos 4 octetos do IPv4 atrás de um prefixo NAT64, pulando o octeto "u"
+ */
+const nat64BytePositions = (prefixLength: number): number[] => {
+  const positions: number[] = [];
+  for (let position = prefixLength / 8; positions.length < 4; position++) {
+    if (position !== U_OCTET) positions.push(position);
+  }
+  return positions;
+};
+
+/**
+ * Monta o resultado a partir do IPv6 e dos octetos que carregam o IPv4
+ */
+const embedded = (
+  kind: EmbeddingKind,
+  address: IPv6Address,
+  ipv4Bytes: number[],
+  ipv4: IPv4Address,
+  prefix: string | null = null
+): EmbeddedIPv4 => ({
+  kind,
+  ipv6: address.toString(),
+  expanded: address.toExpanded(),
+  ipv4: ipv4.toString(),
+  ipv4Nibbles: nibblesOf(ipv4Bytes),
+  prefix,
+});
+
+/** IPv4 formado pelos octetos do IPv6 nas posições informadas */
+const ipv4At = (bytes: number[], positions: number[]): IPv4Address =>
+  new IPv4Address(positions.reduce((value, position) => value * 256 + bytes[position], 0));
+
+/**
+ * Interpreta e valida um prefixo NAT64
+ * @throws {SubnetError} Se o comprimento não for um dos do RFC 6052 ou o octeto "u" não for zero
+ */
+const parseNat64Prefix = (prefix: string): IPv6Prefix => {
+  const parsed = IPv6Prefix.parse(prefix.trim());
+  if (!NAT64_PREFIX_LENGTHS.includes(parsed.length)) {
+    throw new SubnetError(
+      'PREFIX_LENGTH_OUT_OF_RANGE',
+      `O prefixo NAT64 deve ter ${NAT64_PREFIX_LENGTHS.map(length => `/${length}`).join(', ')}, não /${parsed.length}`,
+      { input: prefix }
+    );
+  }
+  if (parsed.length > 64 && toBytes(parsed.network)[U_OCTET] !== 0) {
+    throw new SubnetError('INVALID_PREFIX', 'Prefixo NAT64 inválido: os bits 64 a 71 (octeto "u") devem ser zero', {
+      input: prefix,
+    });
+  }
+  return parsed;
+};
+
+/**
+ * Converte um IPv4 para a forma IPv4 mapeada (::ffff:a.b.c.d)
+ * @param ipv4 - Endereço IPv4 (ex: '192.0.2.1')
+ * @throws {SubnetError} Se o IPv4 for inválido
+ */
+export const ipv4ToMapped = (ipv4: string): EmbeddedIPv4 => {
+  const address = IPv4Address.parse(ipv4);
+  const mapped = new IPv6Address(IPV4_MAPPED.network.value | BigInt(address.value));
+  return embedded('ipv4-mapped', mapped, [12, 13, 14, 15], address);
+};
+
+/**
+ * Calcula o prefixo 6to4 (/48) de um IPv4 público
+ * @param ipv4 - Endereço IPv4 (ex: '192.0.2.1')
+ * @returns O IPv6 é o início do /48 (ex: '2002:c000:201::')
+ * @throws {SubnetError} Se o IPv4 for inválido
+ */
+export const ipv4To6to4 = (ipv4: string): EmbeddedIPv4 => {
+  const address = IPv4Address.parse(ipv4);
+  const network = new IPv6Address(SIX_TO_FOUR.network.value | (BigInt(address.value) << 80n));
+  return embedded('6to4', network, [2, 3, 4, 5], address, `${network}/48`);
+};
+
+/**
+ * Sintetiza o IPv6 de um IPv4 atrás de um prefixo NAT64 (RFC 6052)
+ * @param ipv4 - Endereço IPv4 (ex: '192.0.2.33')
+ * @param prefix - Prefixo NAT64 de /32 a /96 (padrão: 64:ff9b::/96)
+ * @throws {SubnetError} Se o IPv4 ou o prefixo forem inválidos
+ */
+export const ipv4ToNat64 = (ipv4: string, prefix: string = NAT64_WELL_KNOWN_PREFIX): EmbeddedIPv4 => {
+  const address = IPv4Address.parse(ipv4);
+  const nat64 = parseNat64Prefix(prefix);
+  const positions = nat64BytePositions(nat64.length);
+
+  const bytes = toBytes(nat64.network);
+  address.octets.forEach((octet, i) => {
+    bytes[positions[i]] = octet;
+  });
+  return embedded('nat64', fromBytes(bytes), positions, address, nat64.toString());
+};
+
+/**
+ * Extrai o IPv4 de um endereço sintetizado por NAT64
+ * @param ipv6 - Endereço IPv6 (ex: '64:ff9b::c000:221')
+ * @param prefix - Prefixo NAT64 usado na síntese (padrão: 64:ff9b::/96)
+ * @throws {SubnetError} Se o endereço não pertencer ao prefixo
+ */
+export const nat64ToIPv4 = (ipv6: string, prefix: string = NAT64_WELL_KNOWN_PREFIX): EmbeddedIPv4 => {
+  const address = IPv6Address.parse(ipv6);
+  const nat64 = parseNat64Prefix(prefix);
+  if (!nat64.contains(address)) {
+    throw new SubnetError('INVALID_ARGUMENT', `${address} não pertence ao prefixo NAT64 ${nat64}`);
+  }
+  const positions = nat64BytePositions(nat64.length);
+  return embedded('nat64', address, positions, ipv4At(toBytes(address), positions), nat64.toString());
+};
+
+/**
+ * Decodifica os campos de um endereço Teredo (2001::/32)
+ * @param ipv6 - Endereço Teredo (ex: '2001:0:4136:e378:8000:63bf:3fff:fdd2')
+ * @throws {SubnetError} Se o endereço não for Teredo
+ */
+export const decodeTeredo = (ipv6: string): TeredoInfo => {
+  const address = IPv6Address.parse(ipv6);
+  if (!TEREDO.contains(address)) {
+    throw new SubnetError('INVALID_ARGUMENT', `${address} não é um endereço Teredo (2001::/32)`);
+  }
+  const bytes = toBytes(address);
+  const flags = (bytes[8] << 8) | bytes[9];
+
+  return {
+    address: address.toString(),
+    server: ipv4At(bytes, [4, 5, 6, 7]).toString(),
+    clientIPv4: ipv4At(bytes.map(byte => byte ^ 0xff), [12, 13, 14, 15]).toString(),
+    clientPort: ((bytes[10] << 8) | bytes[11]) ^ 0xffff,
+    flags,
+    cone: (flags & 0x8000) !== 0,
+  };
+};
+
+/**
+ * Encontra todos os IPv4 embutidos em um endereço IPv6, pela forma reconhecida
+ * @param ipv6 - Endereço IPv6
+ * @param nat64Prefix - Prefixo NAT64 da rede (padrão: 64:ff9b::/96)
+ * @returns Um item por forma encontrada; lista vazia se o endereço não embute IPv4
+ * @throws {SubnetError} Se o endereço ou o prefixo forem inválidos
+ */
+export const extractEmbeddedIPv4 = (ipv6: string, nat64Prefix: string = NAT64_WELL_KNOWN_PREFIX): EmbeddedIPv4[] => {
+  const address = IPv6Address.parse(ipv6);
+  const nat64 = parseNat64Prefix(nat64Prefix);
+  const bytes = toBytes(address);
+  const found: EmbeddedIPv4[] = [];
+
+  if (IPV4_MAPPED.contains(address)) {
+    found.push(embedded('ipv4-mapped', address, [12, 13, 14, 15], ipv4At(bytes, [12, 13, 14, 15])));
+  }
+  if (SIX_TO_FOUR.contains(address)) {
+    const prefix = new IPv6Prefix(address, 48);
+    found.push(embedded('6to4', address, [2, 3, 4, 5], ipv4At(bytes, [2, 3, 4, 5]), prefix.toString()));
+  }
+  if (TEREDO.contains(address)) {
+    const teredo = decodeTeredo(ipv6);
+    found.push(embedded('teredo-server', address, [4, 5, 6, 7], IPv4Address.parse(teredo.server)));
+    found.push(embedded('teredo-client', address, [12, 13, 14, 15], IPv4Address.parse(teredo.clientIPv4)));
+  }
+  if (nat64.contains(address)) {
+    found.push(nat64ToIPv4(ipv6, nat64Prefix));
+  }
+  return found;
+};
@@ -0,0 +1,200 @@
+/**
+ * Zonas de DNS reverso (in-addr.arpa) de uma rede
+ *
+ * As zonas reversas seguem os limites de octeto: uma rede que não termina
+ * em /8, /16 ou /24 ocupa várias zonas inteiras, e uma rede menor que /24
+ * ocupa só parte de uma. Nesse último caso a delegação usa a técnica do
+ * RFC 2317: a zona pai aponta cada endereço, por CNAME, para uma zona filha
+ * cujo nome identifica o bloco (ex: `64/27.1.168.192.in-addr.arpa`).
+ */
+
+import { IPv4Address, IPv4Prefix, SubnetError } from './subnet-utils';
+
+/** Sufixo das zonas reversas IPv4 */
+const REVERSE_SUFFIX = 'in-addr.arpa';
+
+/** Nome DNS: rótulos de letras, dígitos e hífens separados por pontos, com o ponto final opcional */
+const HOSTNAME_REGEX = /^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)*\.?$/;
+
+/**
+ * Formato do rótulo da zona filha na delegação RFC 2317
+ *
+ * - `cidr`: primeiro endereço e comprimento (ex: '64/27'), como no próprio RFC
+ * - `range`: primeiro e último endereço (ex: '64-95'), para servidores que não aceitam '/'
+ */
+export type ClasslessLabelStyle = 'cidr' | 'range';
+
+/**
+ * Parâmetros dos registros gerados
+ */
+export interface ReverseDnsOptions {
+  /** Servidores de nomes da zona filha (padrão: ns1 e ns2.example.com.) */
+  nameservers?: string[];
+  /** Responsável pela zona, no formato do SOA (padrão: 'hostmaster.example.com.') */
+  hostmaster?: string;
+  /** Número de série do SOA (padrão: data atual no formato AAAAMMDD01) */
+  serial?: number;
+  /** Formato do rótulo da zona filha (padrão: 'cidr') */
+  labelStyle?: ClasslessLabelStyle;
+}
+
+/**
+ * Delegação RFC 2317 de uma rede menor que /24
+ */
+export interface ClasslessDelegation {
+  /** Zona /24 que contém a rede (ex: '1.168.192.in-addr.arpa') */
+  parentZone: string;
+  /** Zona filha delegada (ex: '64/27.1.168.192.in-addr.arpa') */
+  childZone: string;
+  /** Registros NS e CNAME a incluir na zona pai */
+  parentRecords: string;
+  /** Esqueleto do arquivo da zona filha, com SOA, NS e PTRs a preencher */
+  childZoneFile: string;
+}
+
+/**
+ * Zonas reversas ocupadas por uma rede
+ */
+export interface ReverseDnsPlan {
+  /** Rede normalizada (ex: '192.168.1.64/27') */
+  network: string;
+  /** Zonas in-addr.arpa que a rede ocupa, em ordem crescente */
+  zones: string[];
+  /** Indica se a rede ocupa a zona inteira (false em redes menores que /24) */
+  fullZones: boolean;
+  /** Delegação RFC 2317; null quando a rede ocupa zonas inteiras */
+  delegation: ClasslessDelegation | null;
+}
+
+/**
+ * Nome reverso de um endereço (ex: '192.168.1.10' → '10.1.168.192.in-addr.arpa')
+ * @throws {SubnetError} Se o endereço for inválido
+ */
+export const ptrName = (ip: string): string =>
+  [...IPv4Address.parse(ip).octets].reverse().join('.') + `.${REVERSE_SUFFIX}`;
+
+/**
+ * Nome da zona reversa de um prefixo alinhado em octeto (/0, /8, /16, /24)
+ */
+const zoneName = (prefix: IPv4Prefix): string => {
+  const octets = prefix.network.octets.slice(0, prefix.length / 8).reverse();
+  return [...octets, REVERSE_SUFFIX].join('.');
+};
+
+/** Garante o ponto final de um nome absoluto (ex: 'ns1.example.com' → 'ns1.example.com.') */
+const absoluteName = (name: string): string => (name.endsWith('.') ? name : `${name}.`);
+
+/**
+ * Valida e normaliza um nome DNS informado pelo usuário
+ * @param name - Nome (ex: 'ns1.example.com')
+ * @param field - Nome do campo, usado na mensagem de erro
+ * @returns Nome absoluto, com o ponto final (ex: 'ns1.example.com.')
+ * @throws {SubnetError} Se o nome for inválido
+ */
+export const parseHostname = (name: string, field = 'Nome'): string => {
+  const trimmed = name.trim();
+  if (!HOSTNAME_REGEX.test(trimmed)) {
+    throw new SubnetError('INVALID_ARGUMENT', `${field} inválido: "${trimmed}"`, { input: trimmed });
+  }
+  return absoluteName(trimmed);
+};
+
+/** Número de série no formato AAAAMMDD01, a partir da data atual */
+const defaultSerial = (): number => {
+  const now = new Date();
+  return (now.getFullYear() * 10000 + (now.getMonth() + 1) * 100 + now.getDate()) * 100 + 1;
+};
+
+/**
+ * Monta os registros da delegação RFC 2317 de uma rede entre /25 e /32
+ */
+const classlessDelegation = (prefix: IPv4Prefix, options: ReverseDnsOptions): ClasslessDelegation => {
+  const nameservers = (options.nameservers ?? ['ns1.example.com.', 'ns2.example.com.']).map(name =>
+    parseHostname(name, 'Servidor de nomes')
+  );
+  if (nameservers.length === 0) {
+    throw new SubnetError('INVALID_ARGUMENT', 'Informe ao menos um servidor de nomes');
+  }
+  const hostmaster = parseHostname(options.hostmaster ?? 'hostmaster.example.com.', 'Responsável pela zona');
+  const serial = options.serial ?? defaultSerial();
+
+  const first = prefix.network.octets[3];
+  const last = prefix.broadcast.octets[3];
+  const label = options.labelStyle === 'range' ? `${first}-${last}` : `${first}/${prefix.length}`;
+  const parentZone = zoneName(new IPv4Prefix(prefix.network, 24));
+  const childZone = `${label}.${parentZone}`;
+
+  const hostOctets: number[] = [];
+  for (let octet = first; octet <= last; octet++) hostOctets.push(octet);
+  const width = Math.max(label.length, String(last).length);
+
+  const parentRecords = [
+    `; Delegação RFC 2317 de ${prefix} (incluir na zona ${parentZone})`,
+    `$ORIGIN ${parentZone}.`,
+    ...nameservers.map(ns => `${label.padEnd(width)} IN NS    ${ns}`),
+    ...hostOctets.map(octet => `${String(octet).padEnd(width)} IN CNAME ${octet}.${label}`),
+  ].join('\n');
+
+  // Endereços de rede e broadcast não recebem PTR, exceto em /31 e /32 (RFC 3021)
+  const ptrOctets = prefix.length >= 31 ? hostOctets : hostOctets.slice(1, -1);
+  const childZoneFile = [
+    `; Zona filha de ${prefix} (RFC 2317)`,
+    `$ORIGIN ${childZone}.`,
+    '$TTL 3600',
+    `@ IN SOA ${nameservers[0]} ${hostmaster} (`,
+    `    ${serial} ; serial`,
+    '    3600 ; refresh',
+    '    900 ; retry',
+    '    1209600 ; expire',
+    '    3600 ) ; TTL negativo',
+    ...nameservers.map(ns => `  IN NS ${ns}`),
+    '',
+    '; Preencha os nomes e remova o ";" das linhas em uso',
+    ...ptrOctets.map(octet => `; ${octet} IN PTR host-${octet}.example.com.`),
+  ].join('\n');
+
+  return { parentZone, childZone, parentRecords, childZoneFile };
+};
+
+/**
+ * Lista as zonas in-addr.arpa ocupadas por uma rede
+ *
+ * Redes maiores que a zona ocupam várias zonas inteiras (ex: uma /22 ocupa
+ * quatro zonas /24); redes menores que /24 ocupam parte de uma.
+ * @param network - Rede em notação CIDR (ex: '10.0.0.0/22')
+ * @returns Nomes das zonas em ordem crescente
+ * @throws {SubnetError} Se a rede for inválida
+ */
+export const reverseZones = (network: string): string[] => {
+  const prefix = IPv4Prefix.parse(network);
+
+  // As zonas ficam no limite de octeto igual ou acima do prefixo, sem passar de /24
+  const zoneLength = Math.min(24, Math.ceil(prefix.length / 8) * 8);
+  const zoneCount = prefix.length <= zoneLength ? 2 ** (zoneLength - prefix.length) : 1;
+  const zoneSize = 2 ** (32 - zoneLength);
+
+  const zones: string[] = [];
+  for (let index = 0; index < zoneCount; index++) {
+    zones.push(zoneName(new IPv4Prefix(new IPv4Address(prefix.network.value + index * zoneSize), zoneLength)));
+  }
+  return zones;
+};
+
+/**
+ * Calcula as zonas reversas de uma rede e, para redes menores que /24, a
+ * delegação RFC 2317 (registros da zona pai e esqueleto da zona filha)
+ * @param network - Rede em notação CIDR (ex: '192.168.1.64/27')
+ * @param options - Servidores de nomes, responsável, número de série e formato do rótulo
+ * @throws {SubnetError} Se a rede, os servidores de nomes ou o responsável forem inválidos
+ */
+export const reverseDnsPlan = (network: string, options: ReverseDnsOptions = {}): ReverseDnsPlan => {
+  const prefix = IPv4Prefix.parse(network);
+  const fullZones = prefix.length <= 24;
+
+  return {
+    network: prefix.toString(),
+    zones: reverseZones(network),
+    fullZones,
+    delegation: fullZones ? null : classlessDelegation(prefix, options),
+  };
+};
@@ -0,0 +1,258 @@
+/**
+ * Tabela de rotas com busca pelo prefixo mais longo (longest prefix match)
+ *
+ * Uma rota casa com um destino quando `destino AND máscara` é igual ao
+ * endereço de rede da rota, a mesma operação de `bitwiseAnd`. A árvore
+ * binária de prefixos faz essa comparação para todas as rotas de uma vez:
+ * cada nível corresponde a um bit da máscara, e o caminho percorrido pelo
+ * destino passa exatamente pelas rotas que casam com ele.
+ */
+
+import { IPv4Address, IPv4Prefix, SubnetError } from './subnet-utils';
+
+/**
+ * Rota de uma tabela de roteamento
+ */
+export interface Route {
+  /** Destino em notação CIDR (ex: '10.0.0.0/8') */
+  prefix: string;
+  /** Próximo salto: endereço IP ou interface de saída (ex: '192.168.1.1', 'Gi0/1') */
+  nextHop: string;
+  /** Distância administrativa (0-255); menor é mais confiável */
+  administrativeDistance: number;
+  /** Métrica do protocolo de roteamento; menor é melhor */
+  metric: number;
+}
+
+/**
+ * Resultado de uma rota na disputa por um destino
+ *
+ * - `selected`: rota escolhida
+ * - `ecmp`: empata com a escolhida em prefixo, distância e métrica (múltiplos caminhos de mesmo custo)
+ * - `less-specific`: casa, mas há uma rota com prefixo mais longo
+ * - `higher-distance`: mesmo prefixo da escolhida, com distância administrativa maior
+ * - `higher-metric`: mesmo prefixo e distância da escolhida, com métrica maior
+ */
+export type RouteOutcome = 'selected' | 'ecmp' | 'less-specific' | 'higher-distance' | 'higher-metric';
+
+/**
+ * Rota que casou com o destino e o motivo de ter sido (ou não) escolhida
+ */
+export interface RouteCandidate {
+  route: Route;
+  outcome: RouteOutcome;
+}
+
+/**
+ * Resultado da busca de um destino na tabela
+ */
+export interface RouteLookup {
+  /** Endereço de destino normalizado */
+  destination: string;
+  /** Rota escolhida, ou null se nenhuma rota (nem a padrão) casar */
+  winner: Route | null;
+  /** Todas as rotas que casaram, da preferida para a menos preferida */
+  candidates: RouteCandidate[];
+}
+
+/** Rota já interpretada, com a ordem de inserção para desempatar */
+interface StoredRoute {
+  route: Route;
+  prefix: IPv4Prefix;
+  order: number;
+}
+
+/** Nó da árvore binária: filhos para o bit 0 e o bit 1 e as rotas que terminam nele */
+interface TrieNode {
+  children: [TrieNode | null, TrieNode | null];
+  routes: StoredRoute[];
+}
+
+const createNode = (): TrieNode => ({ children: [null, null], routes: [] });
+
+/** Bit do endereço na profundidade informada (0 = bit mais significativo) */
+const bitAt = (address: IPv4Address, depth: number): 0 | 1 => ((address.value >>> (31 - depth)) & 1) as 0 | 1;
+
+/** Preferência entre rotas do mesmo prefixo: menor distância, menor métrica, ordem de inserção */
+const comparePreference = (a: StoredRoute, b: StoredRoute): number =>
+  a.route.administrativeDistance - b.route.administrativeDistance ||
+  a.route.metric - b.route.metric ||
+  a.order - b.order;
+
+/** Formato '[distância/métrica]' usado pelo IOS (ex: '[110/20]') */
+const BRACKET_PREFERENCE_REGEX = /^\[(\d+)\/(\d+)\]$/;
+
+/**
+ * Tabela de rotas IPv4 indexada por uma árvore binária de prefixos
+ */
+export class RouteTable {
+  private readonly root: TrieNode = createNode();
+  private readonly stored: StoredRoute[] = [];
+
+  /**
+   * Cria a tabela a partir de uma lista de rotas
+   * @throws {SubnetError} Se alguma rota for inválida
+   */
+  static fromRoutes(routes: Route[]): RouteTable {
+    const table = new RouteTable();
+    routes.forEach(route => table.add(route));
+    return table;
+  }
+
+  /**
+   * Interpreta uma tabela colada pelo usuário, com uma rota por linha
+   *
+   * Cada linha tem o destino (`10.0.0.0/8` ou `10.0.0.0 255.0.0.0`), o
+   * próximo salto e, opcionalmente, a distância administrativa e a métrica
+   * (`110 20` ou `[110/20]`). Sem elas, a rota é tratada como estática
+   * (distância 1, métrica 0). Linhas em branco e iniciadas por `#` ou `!`
+   * são ignoradas.
+   * @param text - Tabela (ex: '0.0.0.0/0 203.0.113.1\n10.0.0.0/8 192.168.1.1 [110/20]')
+   * @throws {SubnetError} Com a linha da primeira rota inválida
+   */
+  static parse(text: string): RouteTable {
+    const table = new RouteTable();
+
+    text.split('\n').forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#') || line.startsWith('!')) return;
+
+      try {
+        table.add(parseRouteLine(line));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new SubnetError('INVALID_ROUTE', `Rota inválida na linha ${index + 1}: ${reason}`, {
+          input: line,
+          line: index + 1,
+        });
+      }
+    });
+
+    return table;
+  }
+
+  /**
+   * Adiciona uma rota à tabela
+   * @throws {SubnetError} Se o destino, o próximo salto, a distância ou a métrica forem inválidos
+   */
+  add(route: Route): void {
+    const prefix = IPv4Prefix.parse(route.prefix);
+    const nextHop = route.nextHop.trim();
+    if (!nextHop) {
+      throw new SubnetError('INVALID_ROUTE', 'Informe o próximo salto da rota', { input: route.prefix });
+    }
+    const { administrativeDistance, metric } = route;
+    if (!Number.isInteger(administrativeDistance) || administrativeDistance < 0 || administrativeDistance > 255) {
+      throw new SubnetError('INVALID_ROUTE', 'A distância administrativa deve ser um inteiro entre 0 e 255', {
+        input: String(administrativeDistance),
+      });
+    }
+    if (!Number.isInteger(metric) || metric < 0) {
+      throw new SubnetError('INVALID_ROUTE', 'A métrica deve ser um inteiro não negativo', { input: String(metric) });
+    }
+
+    const entry: StoredRoute = {
+      route: { prefix: prefix.toString(), nextHop, administrativeDistance, metric },
+      prefix,
+      order: this.stored.length,
+    };
+
+    let node = this.root;
+    for (let depth = 0; depth < prefix.length; depth++) {
+      const bit = bitAt(prefix.network, depth);
+      node = node.children[bit] ?? (node.children[bit] = createNode());
+    }
+    node.routes.push(entry);
+    this.stored.push(entry);
+  }
+
+  /** Rotas na ordem de inserção, com os destinos normalizados */
+  get routes(): Route[] {
+    return this.stored.map(entry => entry.route);
+  }
+
+  /** Quantidade de rotas na tabela */
+  get size(): number {
+    return this.stored.length;
+  }
+
+  /**
+   * Busca o destino na tabela pelo prefixo mais longo
+   *
+   * Entre rotas do mesmo prefixo vence a de menor distância administrativa
+   * e, em empate, a de menor métrica; rotas que empatam também nisso são
+   * marcadas como `ecmp`.
+   * @param destination - Endereço de destino (ex: '10.1.2.3')
+   * @throws {SubnetError} Se o endereço for inválido
+   */
+  lookup(destination: string): RouteLookup {
+    const address = IPv4Address.parse(destination.trim());
+
+    // Cada nível do caminho guarda as rotas cujo prefixo casa com o destino
+    const levels: StoredRoute[][] = [];
+    let node: TrieNode | null = this.root;
+    for (let depth = 0; node; depth++) {
+      if (node.routes.length > 0) levels.push([...node.routes].sort(comparePreference));
+      node = depth < 32 ? node.children[bitAt(address, depth)] : null;
+    }
+
+    const [best, ...rest] = levels.reverse();
+    if (!best) {
+      return { destination: address.toString(), winner: null, candidates: [] };
+    }
+
+    const [winner] = best;
+    const candidates: RouteCandidate[] = best.map(entry => {
+      const outcome: RouteOutcome =
+        entry === winner
+          ? 'selected'
+          : entry.route.administrativeDistance > winner.route.administrativeDistance
+            ? 'higher-distance'
+            : entry.route.metric > winner.route.metric
+              ? 'higher-metric'
+              : 'ecmp';
+      return { route: entry.route, outcome };
+    });
+    rest.flat().forEach(entry => candidates.push({ route: entry.route, outcome: 'less-specific' }));
+
+    return { destination: address.toString(), winner: winner.route, candidates };
+  }
+}
+
+/**
+ * Interpreta uma linha da tabela de rotas
+ * @throws {SubnetError} Se algum campo da linha for inválido
+ */
+const parseRouteLine = (line: string): Route => {
+  const tokens = line.split(/\s+/);
+
+  // Destino em CIDR ocupa um campo; no formato endereço + máscara, dois
+  const [prefix, rest] = tokens[0].includes('/')
+    ? [IPv4Prefix.parse(tokens[0]), tokens.slice(1)]
+    : [IPv4Prefix.fromMask(tokens[0], tokens[1] ?? ''), tokens.slice(2)];
+
+  const [nextHop, ...preference] = rest;
+  if (!nextHop) {
+    throw new SubnetError('INVALID_ROUTE', 'Informe o próximo salto da rota', { input: line });
+  }
+
+  let administrativeDistance = 1;
+  let metric = 0;
+  const bracket = preference.length === 1 ? BRACKET_PREFERENCE_REGEX.exec(preference[0]) : null;
+  if (bracket) {
+    administrativeDistance = Number(bracket[1]);
+    metric = Number(bracket[2]);
+  } else if (preference.length > 0) {
+    if (preference.length > 2 || !preference.every(token => /^\d+$/.test(token))) {
+      throw new SubnetError(
+        'INVALID_ROUTE',
+        'Use a distância administrativa e a métrica como números (ex: 110 20 ou [110/20])',
+        { input: line }
+      );
+    }
+    administrativeDistance = Number(preference[0]);
+    metric = preference.length === 2 ? Number(preference[1]) : 0;
+  }
+
+  return { prefix: prefix.toString(), nextHop, administrativeDistance, metric };
+};
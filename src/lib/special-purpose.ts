@@ -0,0 +1,179 @@
+/**
+ * Classificação de endereços IPv4 e IPv6 de uso especial
+ *
+ * Cópias embutidas dos registros IANA "IPv4 Special-Purpose Address Registry"
+ * e "IPv6 Special-Purpose Address Registry" (RFC 6890), complementadas pelos
+ * blocos principais dos registros de endereços multicast.
+ */
+
+import { IPv4Address, IPv4Prefix, IPv6Address, IPv6Prefix } from './subnet-utils';
+
+/**
+ * Bloco de endereços de uso especial e seus atributos no registro
+ *
+ * Atributos `null` não são definidos pelo registro de origem.
+ */
+export interface SpecialPurposeBlock {
+  /** Bloco em notação CIDR */
+  prefix: string;
+  /** Nome do bloco no registro */
+  name: string;
+  /** Documento(s) de referência */
+  rfc: string;
+  /** Registro IANA de origem */
+  registry: 'special-purpose' | 'multicast';
+  /** Pode ser usado como endereço de origem */
+  source: boolean | null;
+  /** Pode ser usado como endereço de destino */
+  destination: boolean | null;
+  /** Roteadores podem encaminhar pacotes com este endereço */
+  forwardable: boolean | null;
+  /** Alcançável globalmente na Internet */
+  globallyReachable: boolean | null;
+  /** Reservado pelo protocolo (não pode ser reatribuído) */
+  reservedByProtocol: boolean | null;
+}
+
+/** Atributos na ordem do registro; o alcance global é null onde o registro diz "N/A" */
+type BlockAttributes = [boolean, boolean, boolean, boolean | null, boolean];
+
+/** Cria uma entrada do registro de uso especial a partir da tupla de atributos */
+const special = (
+  prefix: string,
+  name: string,
+  rfc: string,
+  [source, destination, forwardable, globallyReachable, reservedByProtocol]: BlockAttributes
+): SpecialPurposeBlock => ({
+  prefix,
+  name,
+  rfc,
+  registry: 'special-purpose',
+  source,
+  destination,
+  forwardable,
+  globallyReachable,
+  reservedByProtocol,
+});
+
+/** Cria uma entrada do registro multicast (sem atributos de uso especial) */
+const multicast = (prefix: string, name: string, rfc: string): SpecialPurposeBlock => ({
+  prefix,
+  name,
+  rfc,
+  registry: 'multicast',
+  source: false,
+  destination: true,
+  forwardable: null,
+  globallyReachable: null,
+  reservedByProtocol: null,
+});
+
+/**
+ * Registro embutido; atributos na ordem: origem, destino, encaminhável,
+ * alcançável globalmente, reservado pelo protocolo
+ */
+export const SPECIAL_PURPOSE_REGISTRY: SpecialPurposeBlock[] = [
+  special('0.0.0.0/8', 'Esta rede ("This network")', 'RFC 791', [true, false, false, false, true]),
+  special('0.0.0.0/32', 'Este host nesta rede', 'RFC 1122', [true, false, false, false, true]),
+  special('10.0.0.0/8', 'Uso privado', 'RFC 1918', [true, true, true, false, false]),
+  special('100.64.0.0/10', 'Espaço compartilhado (CGNAT)', 'RFC 6598', [true, true, true, false, false]),
+  special('127.0.0.0/8', 'Loopback', 'RFC 1122', [false, false, false, false, true]),
+  special('169.254.0.0/16', 'Link-local', 'RFC 3927', [true, true, false, false, true]),
+  special('172.16.0.0/12', 'Uso privado', 'RFC 1918', [true, true, true, false, false]),
+  special('192.0.0.0/24', 'Atribuições de protocolo do IETF', 'RFC 6890', [false, false, false, false, false]),
+  special('192.0.0.0/29', 'Prefixo de continuidade de serviço IPv4 (DS-Lite)', 'RFC 7335', [true, true, true, false, false]),
+  special('192.0.0.8/32', 'Endereço IPv4 fictício', 'RFC 7600', [true, false, false, false, false]),
+  special('192.0.0.9/32', 'Anycast do Port Control Protocol', 'RFC 7723', [true, true, true, true, false]),
+  special('192.0.0.10/32', 'Anycast de TURN', 'RFC 8155', [true, true, true, true, false]),
+  special('192.0.0.170/32', 'Descoberta de NAT64/DNS64', 'RFC 8880, RFC 7050', [false, false, false, false, true]),
+  special('192.0.0.171/32', 'Descoberta de NAT64/DNS64', 'RFC 8880, RFC 7050', [false, false, false, false, true]),
+  special('192.0.2.0/24', 'Documentação (TEST-NET-1)', 'RFC 5737', [false, false, false, false, false]),
+  special('192.31.196.0/24', 'AS112-v4', 'RFC 7535', [true, true, true, true, false]),
+  special('192.52.193.0/24', 'AMT', 'RFC 7450', [true, true, true, true, false]),
+  special('192.168.0.0/16', 'Uso privado', 'RFC 1918', [true, true, true, false, false]),
+  special('192.175.48.0/24', 'Delegação direta do serviço AS112', 'RFC 7534', [true, true, true, true, false]),
+  special('198.18.0.0/15', 'Testes de desempenho (benchmarking)', 'RFC 2544', [true, true, true, false, false]),
+  special('198.51.100.0/24', 'Documentação (TEST-NET-2)', 'RFC 5737', [false, false, false, false, false]),
+  special('203.0.113.0/24', 'Documentação (TEST-NET-3)', 'RFC 5737', [false, false, false, false, false]),
+  special('240.0.0.0/4', 'Reservado', 'RFC 1112', [false, false, false, false, true]),
+  special('255.255.255.255/32', 'Broadcast limitado', 'RFC 8190, RFC 919', [false, true, false, false, true]),
+  multicast('224.0.0.0/4', 'Multicast', 'RFC 5771'),
+  multicast('224.0.0.0/24', 'Multicast de controle da rede local', 'RFC 5771'),
+  multicast('232.0.0.0/8', 'Multicast de origem específica (SSM)', 'RFC 4607'),
+  multicast('233.0.0.0/8', 'Multicast GLOP', 'RFC 3180'),
+  multicast('239.0.0.0/8', 'Multicast de escopo administrativo', 'RFC 2365'),
+];
+
+/** Registro com os prefixos já interpretados, para não refazer o parse a cada consulta */
+const PARSED_REGISTRY = SPECIAL_PURPOSE_REGISTRY.map(block => ({
+  block,
+  prefix: IPv4Prefix.parse(block.prefix),
+}));
+
+/**
+ * Classifica um endereço segundo o registro de uso especial
+ * @param ip - Endereço IP (ex: '100.64.1.1')
+ * @returns Blocos que contêm o endereço, do mais específico para o mais geral;
+ *          lista vazia para endereços unicast públicos comuns
+ * @throws {SubnetError} Se o IP for inválido
+ */
+export const classifyAddress = (ip: string): SpecialPurposeBlock[] => {
+  const address = IPv4Address.parse(ip);
+
+  return PARSED_REGISTRY
+    .filter(entry => entry.prefix.contains(address))
+    .sort((a, b) => b.prefix.length - a.prefix.length)
+    .map(entry => entry.block);
+};
+
+/**
+ * Registro IPv6 embutido; atributos na mesma ordem do registro IPv4
+ */
+export const IPV6_SPECIAL_PURPOSE_REGISTRY: SpecialPurposeBlock[] = [
+  special('::/128', 'Endereço não especificado', 'RFC 4291', [true, false, false, false, true]),
+  special('::1/128', 'Loopback', 'RFC 4291', [false, false, false, false, true]),
+  special('::ffff:0:0/96', 'IPv4 mapeado (IPv4-mapped)', 'RFC 4291', [false, false, false, false, true]),
+  special('64:ff9b::/96', 'Tradução IPv4/IPv6 (NAT64)', 'RFC 6052', [true, true, true, true, false]),
+  special('64:ff9b:1::/48', 'Tradução IPv4/IPv6 local', 'RFC 8215', [true, true, true, false, false]),
+  special('100::/64', 'Somente descarte (discard-only)', 'RFC 6666', [true, true, true, false, false]),
+  special('2001::/23', 'Atribuições de protocolo do IETF', 'RFC 2928', [false, false, false, false, false]),
+  special('2001::/32', 'Teredo', 'RFC 4380, RFC 8190', [true, true, true, null, false]),
+  special('2001:1::1/128', 'Anycast do Port Control Protocol', 'RFC 7723', [true, true, true, true, false]),
+  special('2001:1::2/128', 'Anycast de TURN', 'RFC 8155', [true, true, true, true, false]),
+  special('2001:2::/48', 'Testes de desempenho (benchmarking)', 'RFC 5180', [true, true, true, false, false]),
+  special('2001:3::/32', 'AMT', 'RFC 7450', [true, true, true, true, false]),
+  special('2001:4:112::/48', 'AS112-v6', 'RFC 7535', [true, true, true, true, false]),
+  special('2001:20::/28', 'ORCHIDv2', 'RFC 7343', [true, true, true, true, false]),
+  special('2001:30::/28', 'Identificadores de drones (DRIP)', 'RFC 9374', [true, true, true, true, false]),
+  special('2001:db8::/32', 'Documentação', 'RFC 3849', [false, false, false, false, false]),
+  special('2002::/16', '6to4', 'RFC 3056', [true, true, true, null, false]),
+  special('2620:4f:8000::/48', 'Delegação direta do serviço AS112', 'RFC 7534', [true, true, true, true, false]),
+  special('3fff::/20', 'Documentação', 'RFC 9637', [false, false, false, false, false]),
+  special('5f00::/16', 'SIDs de Segment Routing (SRv6)', 'RFC 9602', [true, true, true, false, false]),
+  special('fc00::/7', 'Endereço local único (ULA)', 'RFC 4193, RFC 8190', [true, true, true, false, false]),
+  special('fe80::/10', 'Link-local unicast', 'RFC 4291', [true, true, false, false, true]),
+  multicast('ff00::/8', 'Multicast', 'RFC 4291'),
+  multicast('ff02::1:ff00:0/104', 'Multicast de nó solicitado (solicited-node)', 'RFC 4291'),
+];
+
+/** Registro IPv6 com os prefixos já interpretados */
+const PARSED_IPV6_REGISTRY = IPV6_SPECIAL_PURPOSE_REGISTRY.map(block => ({
+  block,
+  prefix: IPv6Prefix.parse(block.prefix),
+}));
+
+/**
+ * Classifica um endereço IPv6 segundo o registro de uso especial
+ * @param ip - Endereço IPv6 (ex: '2001:db8::1')
+ * @returns Blocos que contêm o endereço, do mais específico para o mais geral;
+ *          lista vazia para endereços unicast globais comuns
+ * @throws {SubnetError} Se o endereço for inválido
+ */
+export const classifyIPv6Address = (ip: string): SpecialPurposeBlock[] => {
+  const address = IPv6Address.parse(ip);
+
+  return PARSED_IPV6_REGISTRY
+    .filter(entry => entry.prefix.contains(address))
+    .sort((a, b) => b.prefix.length - a.prefix.length)
+    .map(entry => entry.block);
+};
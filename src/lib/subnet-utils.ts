@@ -28,6 +28,798 @@ export interface SubnetInfo {
   binaryIP: string;
   /** Representação binária da máscara */
   binaryMask: string;
+  /** Análise no modelo classful (legado) */
+  classful: ClassfulInfo;
+}
+
+/**
+ * Classe de um endereço IPv4 no modelo classful (legado)
+ */
+export type AddressClass = 'A' | 'B' | 'C' | 'D' | 'E';
+
+/**
+ * Análise de uma sub-rede no vocabulário classful
+ *
+ * Campos `null` não se aplicam: classes D e E não têm máscara padrão, e
+ * prefixos menores que a máscara padrão são superredes, não sub-redes.
+ */
+export interface ClassfulInfo {
+  /** Classe do endereço (A-E), definida pelos primeiros bits do primeiro octeto */
+  addressClass: AddressClass;
+  /** Máscara padrão da classe (ex: '255.255.0.0' para classe B) */
+  defaultMask: string | null;
+  /** Comprimento do prefixo padrão da classe */
+  defaultPrefix: number | null;
+  /** Bits emprestados da parte de host para formar sub-redes */
+  borrowedBits: number | null;
+  /** Sub-redes geradas pelos bits emprestados (2^n) */
+  subnets: number | null;
+  /** Sub-redes pela regra antiga que descarta a sub-rede zero e a de broadcast (2^n - 2) */
+  subnetsWithoutSubnetZero: number | null;
+  /** Hosts por sub-rede pela fórmula clássica (2^h - 2) */
+  hostsPerSubnet: number | null;
+  /** Quantidade de redes classful agregadas quando o prefixo é uma superrede */
+  aggregatedNetworks: number | null;
+}
+
+/**
+ * Códigos estáveis dos erros de validação e cálculo
+ *
+ * Os códigos `INVALID_IP*` e `AMBIGUOUS_LEADING_ZERO` se referem ao endereço;
+ * `INVALID_MASK*`, `PREFIX_LENGTH_OUT_OF_RANGE` e `NON_CONTIGUOUS_MASK`, à máscara.
+ */
+export type SubnetErrorCode =
+  | 'INVALID_IP'
+  | 'INVALID_IP_OCTET'
+  | 'INVALID_IPV6'
+  | 'INVALID_MAC'
+  | 'AMBIGUOUS_LEADING_ZERO'
+  | 'INVALID_MASK'
+  | 'INVALID_MASK_OCTET'
+  | 'PREFIX_LENGTH_OUT_OF_RANGE'
+  | 'NON_CONTIGUOUS_MASK'
+  | 'INVALID_WILDCARD'
+  | 'INVALID_PREFIX'
+  | 'INVALID_RANGE'
+  | 'INVALID_EXPRESSION'
+  | 'INVALID_ROUTE'
+  | 'ADDRESS_OVERFLOW'
+  | 'INVALID_ARGUMENT';
+
+/**
+ * Diagnóstico anexado a um erro; cada campo só é preenchido quando se aplica
+ */
+export interface SubnetErrorDetails {
+  /** Texto que causou o erro (endereço ou máscara, sem o restante da entrada) */
+  input?: string;
+  /** Índice (0-3) do octeto, ou da parte na notação abreviada, que é inválido */
+  octetIndex?: number;
+  /** Texto do octeto inválido */
+  octet?: string;
+  /** Texto do grupo de 16 bits inválido em um endereço IPv6 */
+  group?: string;
+  /** Posição (0-31, a partir do bit mais significativo) do primeiro bit 1 depois de um 0 */
+  bitPosition?: number;
+  /** Máscara contígua mais próxima da informada, sugerida como correção */
+  suggestion?: { mask: string; prefixLength: number };
+  /** Posição (índice do caractere) do erro dentro de uma expressão */
+  position?: number;
+  /** Linha (a partir de 1) do erro em um texto com várias entradas */
+  line?: number;
+}
+
+/**
+ * Erro de validação ou cálculo com código estável e diagnóstico estruturado
+ *
+ * A mensagem é legível por humanos; a interface deve decidir o que exibir
+ * pelo `code` e pelos `details`, nunca pelo texto da mensagem.
+ */
+export class SubnetError extends Error {
+  readonly code: SubnetErrorCode;
+  readonly details: SubnetErrorDetails;
+
+  constructor(code: SubnetErrorCode, message: string, details: SubnetErrorDetails = {}) {
+    super(message);
+    this.name = 'SubnetError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Maior valor possível para um endereço IPv4 (255.255.255.255) */
+const MAX_IPV4 = 0xffffffff;
+
+/** Formato de um IPv4 em notação decimal pontuada (4 grupos de 1-3 dígitos separados por .) */
+const IPV4_REGEX = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+/**
+ * Converte um IPv4 em notação decimal pontuada para inteiro sem sinal de 32 bits
+ * @param ip - Endereço IP (ex: '192.168.1.1')
+ * @returns Valor numérico do endereço, ou null se o formato for inválido
+ */
+const parseIPv4Value = (ip: string): number | null => {
+  const match = IPV4_REGEX.exec(ip);
+  if (!match) return null;
+
+  let value = 0;
+  for (let i = 1; i <= 4; i++) {
+    const octet = Number(match[i]);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+};
+
+/**
+ * Localiza o problema de um texto que não é um IPv4 em notação decimal pontuada
+ * @returns Motivo em português e, quando a estrutura está correta, o octeto inválido
+ */
+const findDottedQuadProblem = (text: string): { reason: string; octetIndex?: number; octet?: string } => {
+  const parts = text.split('.');
+  if (parts.length !== 4) {
+    return { reason: `esperados 4 octetos separados por ponto, encontrados ${parts.length}` };
+  }
+
+  const octetIndex = parts.findIndex(part => !/^\d{1,3}$/.test(part) || Number(part) > 255);
+  const octet = parts[octetIndex];
+  return {
+    reason: `o ${octetIndex + 1}º octeto ("${octet}") deve ser um número entre 0 e 255`,
+    octetIndex,
+    octet,
+  };
+};
+
+/**
+ * Cria o erro de um endereço que não passou na validação estrita
+ */
+const invalidAddressError = (ip: string): SubnetError => {
+  const { reason, octetIndex, octet } = findDottedQuadProblem(ip);
+  return new SubnetError(
+    octetIndex === undefined ? 'INVALID_IP' : 'INVALID_IP_OCTET',
+    `Endereço IP inválido: ${reason}`,
+    { input: ip, octetIndex, octet }
+  );
+};
+
+/** Quantidade de bits 1 em um inteiro de 32 bits */
+const popCount = (value: number): number => {
+  let count = 0;
+  for (let bits = value >>> 0; bits !== 0; bits = (bits & (bits - 1)) >>> 0) {
+    count++;
+  }
+  return count;
+};
+
+/**
+ * Calcula a máscara correspondente a um comprimento de prefixo
+ * @param length - Comprimento do prefixo (0-32)
+ * @returns Máscara como inteiro sem sinal de 32 bits (ex: 24 -> 0xFFFFFF00)
+ */
+const prefixLengthToMaskValue = (length: number): number =>
+  length === 0 ? 0 : (MAX_IPV4 << (32 - length)) >>> 0;
+
+/**
+ * Converte uma máscara (inteiro de 32 bits) para comprimento de prefixo
+ * @param mask - Máscara como inteiro sem sinal de 32 bits
+ * @returns Comprimento do prefixo, ou null se a máscara não for contígua
+ */
+const maskValueToPrefixLength = (mask: number): number | null => {
+  // Numa máscara válida, o complemento é da forma 0...01...1 (somar 1 não gera sobreposição)
+  const inverted = ~mask >>> 0;
+  if ((inverted & (inverted + 1)) !== 0) return null;
+
+  let length = 0;
+  for (let bits = mask; bits !== 0; bits = (bits << 1) >>> 0) {
+    length++;
+  }
+  return length;
+};
+
+/**
+ * Cria o erro de uma máscara não contígua, apontando onde a sequência de
+ * bits 1 é interrompida e qual máscara válida está mais próxima
+ * @param mask - Máscara informada
+ * @param value - Valor numérico da máscara
+ */
+const nonContiguousMaskError = (mask: string, value: number): SubnetError => {
+  // Depois dos 1s iniciais vem um 0; o erro está no primeiro 1 que aparece depois dele
+  const leadingOnes = Math.clz32(~value);
+  const bitPosition = leadingOnes + Math.clz32((value << leadingOnes) >>> 0);
+
+  // Máscara contígua com menos bits diferentes; em empate, a mais curta
+  let prefixLength = 0;
+  for (let length = 1; length <= 32; length++) {
+    if (popCount(value ^ prefixLengthToMaskValue(length)) < popCount(value ^ prefixLengthToMaskValue(prefixLength))) {
+      prefixLength = length;
+    }
+  }
+  const suggestion = {
+    mask: new IPv4Address(prefixLengthToMaskValue(prefixLength)).toString(),
+    prefixLength,
+  };
+
+  return new SubnetError(
+    'NON_CONTIGUOUS_MASK',
+    `Máscara de sub-rede inválida: os bits deixam de ser contíguos no bit ${bitPosition + 1} ` +
+      `(${Math.floor(bitPosition / 8) + 1}º octeto); máscara válida mais próxima: ${suggestion.mask} (/${prefixLength})`,
+    { input: mask, octetIndex: Math.floor(bitPosition / 8), bitPosition, suggestion }
+  );
+};
+
+/**
+ * Interpreta uma máscara em notação CIDR ('/24') ou decimal ('255.255.255.0')
+ * @param mask - Máscara de sub-rede
+ * @returns Comprimento do prefixo (0-32)
+ * @throws {SubnetError} Se a máscara for inválida, com o octeto ou bit problemático
+ */
+const parseMask = (mask: string): number => {
+  if (mask.startsWith('/')) {
+    const cidr = /^\/(\d{1,2})$/.exec(mask);
+    if (cidr && Number(cidr[1]) <= 32) return Number(cidr[1]);
+
+    if (/^\/\d+$/.test(mask)) {
+      throw new SubnetError(
+        'PREFIX_LENGTH_OUT_OF_RANGE',
+        `Máscara de sub-rede inválida: o prefixo ${mask} deve estar entre /0 e /32`,
+        { input: mask }
+      );
+    }
+    throw new SubnetError(
+      'INVALID_MASK',
+      'Máscara de sub-rede inválida: após a barra informe apenas o comprimento do prefixo (ex: /24)',
+      { input: mask }
+    );
+  }
+
+  const value = parseIPv4Value(mask);
+  if (value === null) {
+    const { reason, octetIndex, octet } = findDottedQuadProblem(mask);
+    throw new SubnetError(
+      octetIndex === undefined ? 'INVALID_MASK' : 'INVALID_MASK_OCTET',
+      `Máscara de sub-rede inválida: ${reason}`,
+      { input: mask, octetIndex, octet }
+    );
+  }
+
+  const length = maskValueToPrefixLength(value);
+  if (length === null) {
+    throw nonContiguousMaskError(mask, value);
+  }
+  return length;
+};
+
+/**
+ * Endereço IPv4 representado como inteiro sem sinal de 32 bits
+ *
+ * Todas as operações trabalham diretamente sobre o valor numérico, sem
+ * dividir e juntar strings a cada passo.
+ */
+export class IPv4Address {
+  /** Valor numérico do endereço (0 a 4294967295) */
+  readonly value: number;
+
+  /**
+   * @param value - Inteiro sem sinal de 32 bits
+   * @throws {SubnetError} Se o valor estiver fora do intervalo de 32 bits
+   */
+  constructor(value: number) {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_IPV4) {
+      throw new SubnetError('INVALID_IP', 'Endereço IP inválido: o valor deve ser um inteiro entre 0 e 4294967295', {
+        input: String(value),
+      });
+    }
+    this.value = value;
+  }
+
+  /**
+   * Interpreta um endereço em notação decimal pontuada
+   * @param ip - Endereço IP (ex: '192.168.1.1')
+   * @throws {SubnetError} Se o formato for inválido
+   */
+  static parse(ip: string): IPv4Address {
+    const value = parseIPv4Value(ip);
+    if (value === null) {
+      throw invalidAddressError(ip);
+    }
+    return new IPv4Address(value);
+  }
+
+  /** Octetos do endereço, do mais significativo para o menos significativo */
+  get octets(): [number, number, number, number] {
+    const v = this.value;
+    return [v >>> 24, (v >>> 16) & 255, (v >>> 8) & 255, v & 255];
+  }
+
+  /** Endereço em notação decimal pontuada (ex: '192.168.1.1') */
+  toString(): string {
+    return this.octets.join('.');
+  }
+
+  /** Endereço em binário, octeto a octeto (ex: '11000000.10101000.00000001.00000001') */
+  toBinary(): string {
+    return this.octets.map(octet => octet.toString(2).padStart(8, '0')).join('.');
+  }
+
+  /**
+   * Compara dois endereços numericamente
+   * @returns Negativo se este for menor, positivo se for maior e 0 se forem iguais
+   */
+  compare(other: IPv4Address): number {
+    return this.value - other.value;
+  }
+
+  /** Indica se os dois endereços são iguais */
+  equals(other: IPv4Address): boolean {
+    return this.value === other.value;
+  }
+
+  /**
+   * Desloca o endereço em um número de posições (positivo ou negativo)
+   * @throws {SubnetError} Se o resultado sair do intervalo 0.0.0.0 - 255.255.255.255
+   */
+  add(delta: number): IPv4Address {
+    if (!Number.isInteger(delta)) {
+      throw new SubnetError('INVALID_ARGUMENT', 'O deslocamento deve ser um número inteiro');
+    }
+    const result = this.value + delta;
+    if (result > MAX_IPV4) {
+      throw new SubnetError('ADDRESS_OVERFLOW', 'Estouro: endereço IP máximo atingido (255.255.255.255)');
+    }
+    if (result < 0) {
+      throw new SubnetError('ADDRESS_OVERFLOW', 'Estouro: endereço IP mínimo atingido (0.0.0.0)');
+    }
+    return new IPv4Address(result);
+  }
+
+  /** Operação AND bit a bit */
+  and(other: IPv4Address): IPv4Address {
+    return new IPv4Address((this.value & other.value) >>> 0);
+  }
+
+  /** Operação OR bit a bit */
+  or(other: IPv4Address): IPv4Address {
+    return new IPv4Address((this.value | other.value) >>> 0);
+  }
+
+  /** Complemento bit a bit (NOT) */
+  not(): IPv4Address {
+    return new IPv4Address(~this.value >>> 0);
+  }
+}
+
+/**
+ * Prefixo IPv4 (endereço de rede + comprimento), sempre normalizado
+ * para o início do bloco
+ */
+export class IPv4Prefix {
+  /** Endereço de rede (primeiro endereço do bloco) */
+  readonly network: IPv4Address;
+  /** Comprimento do prefixo (0-32) */
+  readonly length: number;
+
+  /**
+   * @param address - Qualquer endereço contido no bloco
+   * @param length - Comprimento do prefixo (0-32)
+   * @throws {SubnetError} Se o comprimento for inválido
+   */
+  constructor(address: IPv4Address, length: number) {
+    if (!Number.isInteger(length) || length < 0 || length > 32) {
+      throw new SubnetError('PREFIX_LENGTH_OUT_OF_RANGE', 'CIDR deve estar entre 0 e 32', { input: String(length) });
+    }
+    this.length = length;
+    this.network = new IPv4Address((address.value & prefixLengthToMaskValue(length)) >>> 0);
+  }
+
+  /**
+   * Interpreta um prefixo em notação CIDR
+   * @param cidr - Prefixo (ex: '192.168.1.0/24')
+   * @throws {SubnetError} Se o endereço ou o comprimento forem inválidos
+   */
+  static parse(cidr: string): IPv4Prefix {
+    const slash = cidr.indexOf('/');
+    if (slash === -1) {
+      throw new SubnetError('INVALID_PREFIX', 'Prefixo inválido. Use o formato 192.168.1.0/24', { input: cidr });
+    }
+    return IPv4Prefix.fromMask(cidr.substring(0, slash).trim(), cidr.substring(slash).trim());
+  }
+
+  /**
+   * Cria o prefixo a partir de um IP e de uma máscara
+   * @param ip - Endereço IP (ex: '192.168.1.1')
+   * @param mask - Máscara em notação CIDR ('/24') ou decimal ('255.255.255.0')
+   * @throws {SubnetError} Se o IP ou a máscara forem inválidos
+   */
+  static fromMask(ip: string, mask: string): IPv4Prefix {
+    return new IPv4Prefix(IPv4Address.parse(ip), parseMask(mask));
+  }
+
+  /** Máscara de sub-rede */
+  get mask(): IPv4Address {
+    return new IPv4Address(prefixLengthToMaskValue(this.length));
+  }
+
+  /** Máscara wildcard (complemento da máscara) */
+  get wildcard(): IPv4Address {
+    return new IPv4Address(~prefixLengthToMaskValue(this.length) >>> 0);
+  }
+
+  /** Endereço de broadcast (último endereço do bloco) */
+  get broadcast(): IPv4Address {
+    return new IPv4Address(this.network.value + this.size - 1);
+  }
+
+  /** Quantidade total de endereços do bloco */
+  get size(): number {
+    return 2 ** (32 - this.length);
+  }
+
+  /** Primeiro host utilizável (em /31 e /32 todos os endereços são utilizáveis - RFC 3021) */
+  get firstHost(): IPv4Address {
+    return this.length >= 31 ? this.network : this.network.add(1);
+  }
+
+  /** Último host utilizável (em /31 e /32 todos os endereços são utilizáveis - RFC 3021) */
+  get lastHost(): IPv4Address {
+    return this.length >= 31 ? this.broadcast : this.broadcast.add(-1);
+  }
+
+  /** Quantidade de hosts utilizáveis */
+  get usableHosts(): number {
+    return this.length >= 31 ? this.size : this.size - 2;
+  }
+
+  /**
+   * Host utilizável em uma posição
+   * @param index - Posição a partir de 0 (0 = primeiro host utilizável)
+   * @throws {SubnetError} Se a posição estiver fora da faixa de hosts
+   */
+  hostAt(index: number): IPv4Address {
+    if (!Number.isInteger(index) || index < 0 || index >= this.usableHosts) {
+      throw new SubnetError('INVALID_ARGUMENT', `${this} tem apenas ${this.usableHosts} hosts utilizáveis`);
+    }
+    return this.firstHost.add(index);
+  }
+
+  /**
+   * Percorre os hosts utilizáveis sob demanda, sem montar a lista inteira
+   * @param start - Posição do primeiro host gerado (0 = primeiro host utilizável)
+   * @param end - Posição final, exclusiva (padrão: depois do último host)
+   */
+  *hosts(start = 0, end = this.usableHosts): Generator<IPv4Address> {
+    const first = this.firstHost.value;
+    const stop = Math.min(end, this.usableHosts);
+    for (let offset = Math.max(0, start); offset < stop; offset++) {
+      yield new IPv4Address(first + offset);
+    }
+  }
+
+  /** Indica se o endereço, ou o prefixo inteiro, pertence ao bloco */
+  contains(target: IPv4Address | IPv4Prefix): boolean {
+    if (target instanceof IPv4Prefix) {
+      return target.length >= this.length && this.contains(target.network);
+    }
+    return target.value >= this.network.value && target.value <= this.broadcast.value;
+  }
+
+  /** Indica se os dois blocos têm algum endereço em comum */
+  overlaps(other: IPv4Prefix): boolean {
+    // Prefixos são aninhados: ou um contém o outro, ou são disjuntos
+    return this.contains(other) || other.contains(this);
+  }
+
+  /**
+   * Ordena prefixos pelo endereço de rede e, em empate, do maior bloco para o menor
+   */
+  compare(other: IPv4Prefix): number {
+    return this.network.compare(other.network) || this.length - other.length;
+  }
+
+  /** Indica se os dois prefixos são iguais */
+  equals(other: IPv4Prefix): boolean {
+    return this.length === other.length && this.network.equals(other.network);
+  }
+
+  /** Prefixo em notação CIDR (ex: '192.168.1.0/24') */
+  toString(): string {
+    return `${this.network}/${this.length}`;
+  }
+}
+
+/** Maior valor possível para um endereço IPv6 (2^128 - 1) */
+const MAX_IPV6 = (1n << 128n) - 1n;
+
+/** Grupo de 16 bits de um IPv6 (1-4 dígitos hexadecimais) */
+const IPV6_GROUP_REGEX = /^[0-9a-f]{1,4}$/i;
+
+/** Identificador de zona (RFC 4007): qualquer texto sem espaços, '%' ou '/' */
+const ZONE_ID_REGEX = /^[^\s%/]+$/;
+
+/**
+ * Cria o erro de um texto que não é um endereço IPv6
+ */
+const invalidIPv6Error = (input: string, reason: string, group?: string): SubnetError =>
+  new SubnetError('INVALID_IPV6', `Endereço IPv6 inválido: ${reason}`, { input, group });
+
+/**
+ * Converte as partes escritas de um IPv6 (de um lado do '::') em grupos de 16 bits
+ * @param parts - Partes separadas por ':'
+ * @param allowIPv4 - Se a última parte pode ser um IPv4 embutido (ocupa 2 grupos)
+ * @param input - Texto completo, para o diagnóstico
+ */
+const parseIPv6Parts = (parts: string[], allowIPv4: boolean, input: string): number[] => {
+  const groups: number[] = [];
+  parts.forEach((part, index) => {
+    if (part.includes('.')) {
+      if (!allowIPv4 || index !== parts.length - 1) {
+        throw invalidIPv6Error(input, `o IPv4 embutido ("${part}") só pode aparecer no final`, part);
+      }
+      const ipv4 = parseIPv4Value(part);
+      if (ipv4 === null) {
+        throw invalidIPv6Error(input, `o IPv4 embutido ("${part}") ${findDottedQuadProblem(part).reason}`, part);
+      }
+      groups.push(ipv4 >>> 16, ipv4 & 0xffff);
+      return;
+    }
+    if (!IPV6_GROUP_REGEX.test(part)) {
+      throw invalidIPv6Error(input, `o grupo "${part}" deve ter de 1 a 4 dígitos hexadecimais`, part);
+    }
+    groups.push(parseInt(part, 16));
+  });
+  return groups;
+};
+
+/**
+ * Interpreta um IPv6 em qualquer notação aceita pela RFC 4291: grupos
+ * hexadecimais, '::' no lugar de grupos zerados e IPv4 embutido no final
+ * @param address - Endereço sem identificador de zona
+ * @returns Os 8 grupos de 16 bits
+ */
+const parseIPv6Groups = (address: string): number[] => {
+  if (!address) {
+    throw invalidIPv6Error(address, 'endereço vazio');
+  }
+  if ((address.startsWith(':') && !address.startsWith('::')) || (address.endsWith(':') && !address.endsWith('::'))) {
+    throw invalidIPv6Error(address, "o endereço não pode começar ou terminar com um único ':'");
+  }
+
+  const compression = address.indexOf('::');
+  if (compression !== -1 && address.indexOf('::', compression + 1) !== -1) {
+    throw invalidIPv6Error(address, "'::' só pode aparecer uma vez");
+  }
+
+  if (compression === -1) {
+    const groups = parseIPv6Parts(address.split(':'), true, address);
+    if (groups.length !== 8) {
+      throw invalidIPv6Error(address, `esperados 8 grupos de 16 bits, encontrados ${groups.length}`);
+    }
+    return groups;
+  }
+
+  const head = address.substring(0, compression);
+  const tail = address.substring(compression + 2);
+  const headGroups = head ? parseIPv6Parts(head.split(':'), false, address) : [];
+  const tailGroups = tail ? parseIPv6Parts(tail.split(':'), true, address) : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (missing < 1) {
+    throw invalidIPv6Error(address, "'::' deve substituir ao menos um grupo, mas o endereço já tem 8 grupos");
+  }
+  return [...headGroups, ...new Array<number>(missing).fill(0), ...tailGroups];
+};
+
+/**
+ * Endereço IPv6 representado como inteiro sem sinal de 128 bits (BigInt),
+ * com o identificador de zona opcional (ex: 'fe80::1%eth0')
+ */
+export class IPv6Address {
+  /** Valor numérico do endereço (0 a 2^128 - 1) */
+  readonly value: bigint;
+  /** Identificador de zona (RFC 4007), ou null se não houver */
+  readonly zoneId: string | null;
+
+  /**
+   * @param value - Inteiro sem sinal de 128 bits
+   * @param zoneId - Identificador de zona (ex: 'eth0')
+   * @throws {SubnetError} Se o valor estiver fora do intervalo de 128 bits ou a zona for inválida
+   */
+  constructor(value: bigint, zoneId: string | null = null) {
+    if (typeof value !== 'bigint' || value < 0n || value > MAX_IPV6) {
+      throw new SubnetError('INVALID_IPV6', 'Endereço IPv6 inválido: o valor deve ser um inteiro entre 0 e 2^128 - 1', {
+        input: String(value),
+      });
+    }
+    if (zoneId !== null && !ZONE_ID_REGEX.test(zoneId)) {
+      throw new SubnetError(
+        'INVALID_IPV6',
+        `Endereço IPv6 inválido: o identificador de zona "${zoneId}" não pode ser vazio nem conter espaços, '%' ou '/'`,
+        { input: zoneId }
+      );
+    }
+    this.value = value;
+    this.zoneId = zoneId;
+  }
+
+  /**
+   * Interpreta um endereço IPv6, com ou sem compressão, IPv4 embutido e zona
+   * @param ip - Endereço IPv6 (ex: '2001:db8::1', '::ffff:192.0.2.1', 'fe80::1%eth0')
+   * @throws {SubnetError} Se o formato for inválido
+   */
+  static parse(ip: string): IPv6Address {
+    const percent = ip.indexOf('%');
+    const address = percent === -1 ? ip : ip.substring(0, percent);
+    const zoneId = percent === -1 ? null : ip.substring(percent + 1);
+
+    const groups = parseIPv6Groups(address);
+    return new IPv6Address(
+      groups.reduce((value, group) => (value << 16n) | BigInt(group), 0n),
+      zoneId
+    );
+  }
+
+  /** Os 8 grupos de 16 bits, do mais significativo para o menos significativo */
+  get groups(): number[] {
+    const groups: number[] = [];
+    for (let shift = 112n; shift >= 0n; shift -= 16n) {
+      groups.push(Number((this.value >> shift) & 0xffffn));
+    }
+    return groups;
+  }
+
+  /** Sufixo '%zona', ou vazio se não houver zona */
+  private get zoneSuffix(): string {
+    return this.zoneId === null ? '' : `%${this.zoneId}`;
+  }
+
+  /**
+   * Forma canônica comprimida (RFC 5952): minúsculas, sem zeros à esquerda e
+   * '::' na maior sequência de 2 ou mais grupos zerados (a primeira, em empate).
+   * Endereços IPv4-mapped (::ffff:0:0/96) terminam com o IPv4 em notação pontuada.
+   */
+  toString(): string {
+    if (this.value >> 32n === 0xffffn) {
+      return `::ffff:${new IPv4Address(Number(this.value & 0xffffffffn))}${this.zoneSuffix}`;
+    }
+
+    const groups = this.groups;
+    let runStart = -1;
+    let runLength = 1;
+    for (let i = 0; i < groups.length; ) {
+      let end = i;
+      while (end < groups.length && groups[end] === 0) end++;
+      if (end - i > runLength) {
+        runStart = i;
+        runLength = end - i;
+      }
+      i = Math.max(end, i + 1);
+    }
+
+    const hex = groups.map(group => group.toString(16));
+    const text =
+      runStart === -1
+        ? hex.join(':')
+        : `${hex.slice(0, runStart).join(':')}::${hex.slice(runStart + runLength).join(':')}`;
+    return text + this.zoneSuffix;
+  }
+
+  /** Forma expandida: 8 grupos de 4 dígitos hexadecimais (ex: '2001:0db8:0000:...:0001') */
+  toExpanded(): string {
+    return this.groups.map(group => group.toString(16).padStart(4, '0')).join(':') + this.zoneSuffix;
+  }
+
+  /**
+   * Compara dois endereços numericamente (a zona não é considerada)
+   * @returns Negativo se este for menor, positivo se for maior e 0 se forem iguais
+   */
+  compare(other: IPv6Address): number {
+    return this.value < other.value ? -1 : this.value > other.value ? 1 : 0;
+  }
+
+  /** Indica se os dois endereços, incluindo a zona, são iguais */
+  equals(other: IPv6Address): boolean {
+    return this.value === other.value && this.zoneId === other.zoneId;
+  }
+}
+
+/**
+ * Calcula a máscara IPv6 correspondente a um comprimento de prefixo
+ * @param length - Comprimento do prefixo (0-128)
+ */
+const ipv6MaskValue = (length: number): bigint =>
+  length === 0 ? 0n : (MAX_IPV6 << BigInt(128 - length)) & MAX_IPV6;
+
+/**
+ * Interpreta o comprimento de um prefixo IPv6 ('/64' ou '64')
+ * @param mask - Comprimento do prefixo, com ou sem a barra
+ * @returns Comprimento do prefixo (0-128)
+ * @throws {SubnetError} Se não for um número entre 0 e 128
+ */
+export const parseIPv6PrefixLength = (mask: string): number => {
+  const match = /^\/?(\d+)$/.exec(mask.trim());
+  if (!match) {
+    throw new SubnetError(
+      'INVALID_MASK',
+      'Prefixo IPv6 inválido: informe apenas o comprimento do prefixo (ex: /64); IPv6 não usa máscara decimal',
+      { input: mask }
+    );
+  }
+  const length = Number(match[1]);
+  if (length > 128) {
+    throw new SubnetError(
+      'PREFIX_LENGTH_OUT_OF_RANGE',
+      `Prefixo IPv6 inválido: o prefixo /${length} deve estar entre /0 e /128`,
+      { input: mask }
+    );
+  }
+  return length;
+};
+
+/**
+ * Prefixo IPv6 (endereço de rede + comprimento), sempre normalizado
+ * para o início do bloco
+ */
+export class IPv6Prefix {
+  /** Endereço de rede (primeiro endereço do bloco), sem zona */
+  readonly network: IPv6Address;
+  /** Comprimento do prefixo (0-128) */
+  readonly length: number;
+
+  /**
+   * @param address - Qualquer endereço contido no bloco
+   * @param length - Comprimento do prefixo (0-128)
+   * @throws {SubnetError} Se o comprimento for inválido
+   */
+  constructor(address: IPv6Address, length: number) {
+    if (!Number.isInteger(length) || length < 0 || length > 128) {
+      throw new SubnetError('PREFIX_LENGTH_OUT_OF_RANGE', 'O prefixo IPv6 deve estar entre 0 e 128', {
+        input: String(length),
+      });
+    }
+    this.length = length;
+    this.network = new IPv6Address(address.value & ipv6MaskValue(length));
+  }
+
+  /**
+   * Interpreta um prefixo em notação CIDR
+   * @param cidr - Prefixo (ex: '2001:db8::/32')
+   * @throws {SubnetError} Se o endereço ou o comprimento forem inválidos
+   */
+  static parse(cidr: string): IPv6Prefix {
+    const slash = cidr.indexOf('/');
+    if (slash === -1) {
+      throw new SubnetError('INVALID_PREFIX', 'Prefixo inválido. Use o formato 2001:db8::/32', { input: cidr });
+    }
+    return new IPv6Prefix(
+      IPv6Address.parse(cidr.substring(0, slash).trim()),
+      parseIPv6PrefixLength(cidr.substring(slash))
+    );
+  }
+
+  /** Quantidade total de endereços do bloco (2^(128 - prefixo)) */
+  get size(): bigint {
+    return 1n << BigInt(128 - this.length);
+  }
+
+  /** Último endereço do bloco */
+  get lastAddress(): IPv6Address {
+    return new IPv6Address(this.network.value + this.size - 1n);
+  }
+
+  /** Indica se o endereço, ou o prefixo inteiro, pertence ao bloco */
+  contains(target: IPv6Address | IPv6Prefix): boolean {
+    if (target instanceof IPv6Prefix) {
+      return target.length >= this.length && this.contains(target.network);
+    }
+    return target.value >= this.network.value && target.value <= this.lastAddress.value;
+  }
+
+  /** Indica se os dois prefixos são iguais */
+  equals(other: IPv6Prefix): boolean {
+    return this.length === other.length && this.network.equals(other.network);
+  }
+
+  /** Prefixo em notação CIDR comprimida (ex: '2001:db8::/32') */
+  toString(): string {
+    return `${this.network}/${this.length}`;
+  }
 }
 
 /**
@@ -35,343 +827,1762 @@ export interface SubnetInfo {
  * @param ip - Endereço IP para validar (ex: '192.168.1.1')
  * @returns true se o formato for válido, false caso contrário
  */
-export const validateIP = (ip: string): boolean => {
-  // Expressão regular para validar formato de IP (4 grupos de 1-3 dígitos separados por .)
-  const ipRegex = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
-  const match = ip.match(ipRegex);
-  
-  // Se não corresponde ao formato básico, retorna falso
-  if (!match) return false;
-  
-  // Converte os octetos para números e verifica se estão entre 0 e 255
-  const octets = match.slice(1, 5).map(Number);
-  return octets.every(octet => octet >= 0 && octet <= 255);
+export const validateIP = (ip: string): boolean => parseIPv4Value(ip) !== null;
+
+/**
+ * Valida uma máscara de sub-rede em formato CIDR ou decimal
+ * @param mask - Máscara de sub-rede (ex: '255.255.255.0' ou '/24')
+ * @returns true se a máscara for válida, false caso contrário
+ */
+export const validateSubnetMask = (mask: string): boolean => {
+  try {
+    parseMask(mask);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Valida o formato de um endereço IPv6 (com '::', IPv4 embutido e zona)
+ * @param ip - Endereço IPv6 para validar (ex: '2001:db8::1')
+ * @returns true se o formato for válido, false caso contrário
+ */
+export const validateIPv6 = (ip: string): boolean => {
+  try {
+    IPv6Address.parse(ip);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Converte um IPv6 para a forma canônica comprimida da RFC 5952
+ * @param ip - Endereço IPv6 (ex: '2001:0DB8:0000:0000:0000:0000:0000:0001')
+ * @returns Endereço comprimido (ex: '2001:db8::1')
+ * @throws {SubnetError} Se o endereço for inválido
+ */
+export const compressIPv6 = (ip: string): string => IPv6Address.parse(ip).toString();
+
+/**
+ * Converte um IPv6 para a forma expandida, com os 8 grupos de 4 dígitos
+ * @param ip - Endereço IPv6 (ex: '2001:db8::1')
+ * @returns Endereço expandido (ex: '2001:0db8:0000:0000:0000:0000:0000:0001')
+ * @throws {SubnetError} Se o endereço for inválido
+ */
+export const expandIPv6 = (ip: string): string => IPv6Address.parse(ip).toExpanded();
+
+/**
+ * Família de um endereço IP
+ */
+export type AddressFamily = 'ipv4' | 'ipv6';
+
+/**
+ * Identifica a família de um endereço digitado: qualquer ':' indica IPv6,
+ * já que nenhuma notação IPv4 aceita usa dois-pontos
+ * @param text - Endereço digitado, com ou sem prefixo
+ */
+export const detectAddressFamily = (text: string): AddressFamily => (text.includes(':') ? 'ipv6' : 'ipv4');
+
+/**
+ * Política para números com zero à esquerda (ex: '010'), que algumas
+ * ferramentas leem como octal (inet_aton) e outras como decimal:
+ * - reject: rejeita a entrada por ser ambígua
+ * - decimal: lê como decimal ('010' = 10)
+ * - octal: lê como octal ('010' = 8), como o inet_aton
+ */
+export type LeadingZeroPolicy = 'reject' | 'decimal' | 'octal';
+
+/**
+ * Opções do interpretador flexível de endereços
+ */
+export interface AddressInputOptions {
+  /** Tratamento de zeros à esquerda (padrão: 'reject') */
+  leadingZeros?: LeadingZeroPolicy;
+}
+
+/**
+ * Endereço (e máscara opcional) extraído de uma entrada livre
+ */
+export interface ParsedAddressInput {
+  /** Endereço em notação decimal pontuada canônica */
+  address: string;
+  /** Máscara informada junto ao endereço ('/27' ou '255.255.255.0'), ou null */
+  mask: string | null;
+}
+
+/**
+ * Interpreta uma parte numérica de um endereço (decimal, hexadecimal ou octal)
+ * @param details - Diagnóstico anexado ao erro (entrada e posição da parte)
+ * @throws {SubnetError} Se a parte for inválida ou violar a política de zeros à esquerda
+ */
+const parseAddressPart = (part: string, policy: LeadingZeroPolicy, details: SubnetErrorDetails): number => {
+  if (/^0x[0-9a-f]+$/i.test(part)) {
+    return parseInt(part.substring(2), 16);
+  }
+  if (!/^\d+$/.test(part)) {
+    throw new SubnetError('INVALID_IP_OCTET', `Endereço IP inválido: "${part}" não é um número`, details);
+  }
+  if (part.length > 1 && part.startsWith('0')) {
+    if (policy === 'reject') {
+      throw new SubnetError(
+        'AMBIGUOUS_LEADING_ZERO',
+        `Endereço IP inválido: "${part}" tem zero à esquerda e pode ser lido como octal`,
+        details
+      );
+    }
+    if (policy === 'octal') {
+      if (!/^[0-7]+$/.test(part)) {
+        throw new SubnetError('INVALID_IP_OCTET', `Endereço IP inválido: "${part}" não é um número octal`, details);
+      }
+      return parseInt(part, 8);
+    }
+  }
+  return Number(part);
+};
+
+/**
+ * Interpreta um endereço IPv4 em qualquer notação aceita pelo inet_aton
+ *
+ * Aceita decimal pontuado ('192.168.1.10'), inteiro de 32 bits
+ * ('3232235786'), hexadecimal ('0xC0A8010A') e formas abreviadas, em que a
+ * última parte preenche os octetos restantes ('10.1' = 10.0.0.1,
+ * '172.16.300' = 172.16.1.44).
+ * @param text - Endereço em qualquer notação suportada
+ * @param options - Política para zeros à esquerda
+ * @returns Endereço interpretado
+ * @throws {SubnetError} Se a entrada for inválida, indicando a parte problemática
+ */
+export const parseFlexibleIPv4 = (text: string, options: AddressInputOptions = {}): IPv4Address => {
+  const policy = options.leadingZeros ?? 'reject';
+  const input = text.trim();
+  const parts = input.split('.');
+  if (parts.length > 4) {
+    throw new SubnetError('INVALID_IP', `Endereço IP inválido: no máximo 4 partes, encontradas ${parts.length}`, {
+      input,
+    });
+  }
+  // Com 4 partes cada uma é um octeto; nas formas abreviadas, a última ocupa vários
+  const partName = (index: number) => (parts.length === 4 ? `o ${index + 1}º octeto` : `a ${index + 1}ª parte`);
+
+  const empty = parts.indexOf('');
+  if (empty !== -1) {
+    throw new SubnetError('INVALID_IP_OCTET', `Endereço IP inválido: ${partName(empty)} está em branco`, {
+      input,
+      octetIndex: empty,
+      octet: '',
+    });
+  }
+
+  const values = parts.map((part, index) =>
+    parseAddressPart(part, policy, { input, octetIndex: index, octet: part })
+  );
+
+  // As partes iniciais ocupam um octeto cada; a última ocupa todos os bits restantes
+  const lastBits = 8 * (5 - values.length);
+  const outOfRange = values.findIndex((value, i) => value >= 2 ** (i === values.length - 1 ? lastBits : 8));
+  if (outOfRange !== -1) {
+    const limit = 2 ** (outOfRange === values.length - 1 ? lastBits : 8) - 1;
+    throw new SubnetError(
+      'INVALID_IP_OCTET',
+      `Endereço IP inválido: ${partName(outOfRange)} ("${parts[outOfRange]}") está fora do intervalo permitido (0-${limit})`,
+      { input, octetIndex: outOfRange, octet: parts[outOfRange] }
+    );
+  }
+
+  const last = values.pop() as number;
+  const high = values.reduce((acc, value, i) => acc + value * 2 ** (24 - 8 * i), 0);
+  return new IPv4Address(high + last);
+};
+
+/**
+ * Interpreta uma entrada livre com endereço e, opcionalmente, máscara
+ *
+ * Formatos aceitos: '192.168.1.10', '192.168.1.10/24' e
+ * '192.168.1.10 255.255.255.0', com o endereço em qualquer notação de
+ * `parseFlexibleIPv4`.
+ * @param text - Entrada do usuário
+ * @param options - Política para zeros à esquerda
+ * @returns Endereço canônico e máscara (ou null se não informada)
+ * @throws {SubnetError} Se o endereço ou a máscara forem inválidos
+ */
+export const parseAddressInput = (text: string, options: AddressInputOptions = {}): ParsedAddressInput => {
+  const match = /^\s*([^\s/]+)\s*(?:\/\s*(\S+)|\s+(\S+))?\s*$/.exec(text);
+  if (!match) {
+    throw new SubnetError('INVALID_IP', 'Endereço IP inválido: use o formato 192.168.1.1 ou 192.168.1.1/24', {
+      input: text,
+    });
+  }
+
+  const address = parseFlexibleIPv4(match[1], options).toString();
+  const mask = match[2] !== undefined ? `/${match[2]}` : match[3] ?? null;
+  if (mask !== null) {
+    parseMask(mask);
+  }
+
+  return { address, mask };
+};
+
+/**
+ * Interpreta o campo de endereço IPv6, com o comprimento do prefixo opcional
+ * (ex: '2001:db8::1', '2001:db8::1/64', 'fe80::1%eth0/64')
+ * @returns Endereço na forma comprimida da RFC 5952 e o prefixo ('/64'), ou null
+ * @throws {SubnetError} Se o endereço ou o prefixo forem inválidos
+ */
+export const parseIPv6Input = (text: string): ParsedAddressInput => {
+  const match = /^\s*([^\s/]+)\s*(?:\/\s*(\S+))?\s*$/.exec(text);
+  if (!match) {
+    throw new SubnetError('INVALID_IPV6', 'Endereço IPv6 inválido: use o formato 2001:db8::1 ou 2001:db8::1/64', {
+      input: text,
+    });
+  }
+
+  const address = IPv6Address.parse(match[1]).toString();
+  const mask = match[2] !== undefined ? `/${match[2]}` : null;
+  if (mask !== null) {
+    parseIPv6PrefixLength(mask);
+  }
+
+  return { address, mask };
+};
+
+/**
+ * Converte um endereço IP para sua representação binária
+ * @param ip - Endereço IP em formato decimal (ex: '192.168.1.1')
+ * @returns String com a representação binária do IP (ex: '11000000.10101000.00000001.00000001')
+ */
+export const ipToBinary = (ip: string): string => IPv4Address.parse(ip).toBinary();
+
+/**
+ * Converte uma string binária para um endereço IP decimal
+ * @param binary - String binária no formato '11000000.10101000.00000001.00000001'
+ * @returns Endereço IP no formato decimal (ex: '192.168.1.1')
+ * @throws {SubnetError} Se o formato binário for inválido
+ */
+export const binaryToIp = (binary: string): string => {
+  // Verifica se o formato está correto (4 octetos binários de 8 bits cada)
+  const binaryRegex = /^([01]{8}\.?){4}$/;
+  if (!binaryRegex.test(binary)) {
+    throw new SubnetError('INVALID_IP', 'Formato binário inválido. Use o formato: 11000000.10101000.00000001.00000001', {
+      input: binary,
+    });
+  }
+
+  return new IPv4Address(parseInt(binary.replace(/\./g, ''), 2)).toString();
+};
+
+/**
+ * Converte notação CIDR para máscara de sub-rede decimal
+ * @param cidr - Valor CIDR (0-32)
+ * @returns Máscara de sub-rede no formato decimal (ex: '255.255.255.0')
+ * @throws {SubnetError} Se o valor CIDR for inválido
+ */
+export const cidrToMask = (cidr: number): string => {
+  // Valida o valor CIDR
+  if (!Number.isInteger(cidr) || cidr < 0 || cidr > 32) {
+    throw new SubnetError('PREFIX_LENGTH_OUT_OF_RANGE', 'CIDR deve estar entre 0 e 32', { input: String(cidr) });
+  }
+
+  return new IPv4Address(prefixLengthToMaskValue(cidr)).toString();
+};
+
+/**
+ * Converte máscara de sub-rede decimal para notação CIDR
+ * @param mask - Máscara de sub-rede (ex: '255.255.255.0')
+ * @returns Valor CIDR (0-32)
+ * @throws {SubnetError} Se a máscara for inválida
+ */
+export const maskToCidr = (mask: string): number => parseMask(mask);
+
+/**
+ * Calcula a máscara wildcard a partir da máscara de sub-rede
+ * @param subnetMask - Máscara de sub-rede (ex: '255.255.255.0')
+ * @returns Máscara wildcard (ex: '0.0.0.255')
+ * @throws {SubnetError} Se a máscara for inválida
+ */
+export const getWildcardMask = (subnetMask: string): string => {
+  // A máscara wildcard é o complemento bit a bit da máscara de sub-rede
+  const length = parseMask(subnetMask);
+  return new IPv4Address(~prefixLengthToMaskValue(length) >>> 0).toString();
+};
+
+/**
+ * Interpreta os dois operandos de uma operação bit a bit
+ * @throws {SubnetError} Se algum dos IPs for inválido
+ */
+const parseOperands = (ip1: string, ip2: string): [IPv4Address, IPv4Address] => {
+  if (!validateIP(ip1) || !validateIP(ip2)) {
+    throw new SubnetError('INVALID_IP', 'Um ou mais endereços IP são inválidos');
+  }
+  return [IPv4Address.parse(ip1), IPv4Address.parse(ip2)];
+};
+
+/**
+ * Realiza operação AND bit a bit entre dois IPs
+ * @param ip1 - Primeiro IP
+ * @param ip2 - Segundo IP
+ * @returns Resultado da operação AND bit a bit
+ * @throws {SubnetError} Se algum dos IPs for inválido
+ */
+export const bitwiseAnd = (ip1: string, ip2: string): string => {
+  const [a, b] = parseOperands(ip1, ip2);
+  return a.and(b).toString();
+};
+
+/**
+ * Realiza operação OR bit a bit entre dois endereços IP
+ * @param ip1 - Primeiro endereço IP
+ * @param ip2 - Segundo endereço IP
+ * @returns Resultado da operação OR bit a bit
+ * @throws {SubnetError} Se algum dos IPs for inválido
+ */
+export const bitwiseOr = (ip1: string, ip2: string): string => {
+  const [a, b] = parseOperands(ip1, ip2);
+  return a.or(b).toString();
+};
+
+/**
+ * Incrementa um endereço IP em 1
+ * @param ip - Endereço IP a ser incrementado
+ * @returns Novo endereço IP incrementado
+ * @throws {SubnetError} Se o IP for inválido ou estourar o limite máximo
+ */
+export const incrementIp = (ip: string): string => IPv4Address.parse(ip).add(1).toString();
+
+/**
+ * Decrementa um endereço IP em 1
+ * @param ip - Endereço IP a ser decrementado
+ * @returns Novo endereço IP decrementado
+ * @throws {SubnetError} Se o IP for inválido ou estiver no limite mínimo
+ */
+export const decrementIp = (ip: string): string => IPv4Address.parse(ip).add(-1).toString();
+
+/**
+ * Soma N posições a um endereço IP
+ * @param ip - Endereço IP (ex: '10.0.0.1')
+ * @param amount - Quantidade a somar; valores negativos subtraem
+ * @returns Endereço resultante (ex: addToIp('10.0.0.250', 10) = '10.0.1.4')
+ * @throws {SubnetError} Se o IP for inválido, N não for inteiro ou o resultado estourar
+ */
+export const addToIp = (ip: string, amount: number): string => IPv4Address.parse(ip).add(amount).toString();
+
+/**
+ * Subtrai N posições de um endereço IP
+ * @param ip - Endereço IP (ex: '10.0.1.4')
+ * @param amount - Quantidade a subtrair; valores negativos somam
+ * @returns Endereço resultante
+ * @throws {SubnetError} Se o IP for inválido, N não for inteiro ou o resultado estourar
+ */
+export const subtractFromIp = (ip: string, amount: number): string => addToIp(ip, -amount);
+
+/**
+ * Calcula a distância entre dois endereços
+ * @param from - Endereço de origem
+ * @param to - Endereço de destino
+ * @returns Quantas posições separam `to` de `from` (negativo se `to` vier antes)
+ * @throws {SubnetError} Se algum dos IPs for inválido
+ */
+export const ipDistance = (from: string, to: string): number =>
+  IPv4Address.parse(to).value - IPv4Address.parse(from).value;
+
+/**
+ * Retorna o N-ésimo host utilizável de uma rede
+ * @param network - Rede em notação CIDR (ex: '192.168.1.0/24')
+ * @param n - Posição a partir de 1 (1 = primeiro host); negativos contam do fim (-1 = último host)
+ * @returns Endereço do host (ex: nthHost('192.168.1.0/24', 200) = '192.168.1.200')
+ * @throws {SubnetError} Se a rede for inválida ou a posição estiver fora da faixa de hosts
+ */
+export const nthHost = (network: string, n: number): string => {
+  const prefix = IPv4Prefix.parse(network);
+  if (n === 0) {
+    throw new SubnetError('INVALID_ARGUMENT', 'A posição do host começa em 1 (ou -1 para o último host)');
+  }
+  return prefix.hostAt(n > 0 ? n - 1 : prefix.usableHosts + n).toString();
+};
+
+/**
+ * Posição de um endereço dentro da sua sub-rede
+ */
+export interface AddressOffset {
+  /** Sub-rede do endereço em notação CIDR */
+  network: string;
+  /** Deslocamento a partir do endereço de rede (0 = endereço de rede) */
+  offset: number;
+  /** Posição entre os hosts utilizáveis (1 = primeiro host), ou null para rede e broadcast */
+  hostNumber: number | null;
+}
+
+/**
+ * Calcula a posição de um endereço dentro da sua sub-rede
+ * @param ip - Endereço IP (ex: '10.0.0.200')
+ * @param mask - Máscara em notação CIDR ('/24') ou decimal ('255.255.255.0')
+ * @returns Sub-rede, deslocamento a partir da rede e número do host
+ * @throws {SubnetError} Se o IP ou a máscara forem inválidos
+ */
+export const hostOffset = (ip: string, mask: string): AddressOffset => {
+  const address = IPv4Address.parse(ip);
+  const prefix = new IPv4Prefix(address, parseMask(mask));
+  const offset = address.value - prefix.network.value;
+  const hostIndex = address.value - prefix.firstHost.value;
+
+  return {
+    network: prefix.toString(),
+    offset,
+    hostNumber: hostIndex >= 0 && hostIndex < prefix.usableHosts ? hostIndex + 1 : null,
+  };
+};
+
+/**
+ * Representações de um endereço IPv4
+ */
+export interface AddressForms {
+  /** Notação decimal pontuada (ex: '192.168.1.1') */
+  dotted: string;
+  /** Inteiro sem sinal de 32 bits (ex: 3232235777) */
+  integer: number;
+  /** Binário octeto a octeto (ex: '11000000.10101000.00000001.00000001') */
+  binary: string;
+}
+
+/**
+ * Retorna um endereço nas formas decimal pontuada, inteira e binária
+ * @param ip - Endereço IP (ex: '192.168.1.1')
+ * @throws {SubnetError} Se o IP for inválido
+ */
+export const addressForms = (ip: string): AddressForms => {
+  const address = IPv4Address.parse(ip);
+  return { dotted: address.toString(), integer: address.value, binary: address.toBinary() };
+};
+
+/**
+ * Classifica um endereço no modelo classful
+ * @param address - Endereço IPv4
+ * @returns Classe e comprimento do prefixo padrão (null para classes D e E)
+ */
+const addressClassOf = (address: IPv4Address): { addressClass: AddressClass; defaultPrefix: number | null } => {
+  const firstOctet = address.octets[0];
+  if (firstOctet < 128) return { addressClass: 'A', defaultPrefix: 8 };
+  if (firstOctet < 192) return { addressClass: 'B', defaultPrefix: 16 };
+  if (firstOctet < 224) return { addressClass: 'C', defaultPrefix: 24 };
+  if (firstOctet < 240) return { addressClass: 'D', defaultPrefix: null };
+  return { addressClass: 'E', defaultPrefix: null };
+};
+
+/**
+ * Analisa um prefixo no vocabulário classful: classe, máscara padrão,
+ * bits emprestados e quantidade de sub-redes e hosts
+ * @param prefix - Prefixo da sub-rede
+ * @param address - Endereço que define a classe (padrão: endereço de rede)
+ * @returns Análise classful do prefixo
+ */
+export const classfulAnalysis = (prefix: IPv4Prefix, address: IPv4Address = prefix.network): ClassfulInfo => {
+  const { addressClass, defaultPrefix } = addressClassOf(address);
+  const info: ClassfulInfo = {
+    addressClass,
+    defaultMask: null,
+    defaultPrefix,
+    borrowedBits: null,
+    subnets: null,
+    subnetsWithoutSubnetZero: null,
+    hostsPerSubnet: null,
+    aggregatedNetworks: null,
+  };
+  if (defaultPrefix === null) return info;
+
+  info.defaultMask = cidrToMask(defaultPrefix);
+  info.hostsPerSubnet = Math.max(0, prefix.size - 2);
+
+  if (prefix.length < defaultPrefix) {
+    info.aggregatedNetworks = 2 ** (defaultPrefix - prefix.length);
+    return info;
+  }
+
+  const borrowedBits = prefix.length - defaultPrefix;
+  info.borrowedBits = borrowedBits;
+  info.subnets = 2 ** borrowedBits;
+  // Sem bits emprestados não há divisão, então a regra não descarta nada
+  info.subnetsWithoutSubnetZero = borrowedBits === 0 ? 1 : 2 ** borrowedBits - 2;
+  return info;
+};
+
+/**
+ * Monta as informações de sub-rede de um prefixo
+ * @param prefix - Prefixo da sub-rede
+ * @param address - Endereço usado na representação binária (padrão: endereço de rede)
+ * @returns Objeto com todas as informações da sub-rede
+ */
+export const describePrefix = (prefix: IPv4Prefix, address: IPv4Address = prefix.network): SubnetInfo => ({
+  networkAddress: prefix.network.toString(),
+  broadcastAddress: prefix.broadcast.toString(),
+  firstHost: prefix.firstHost.toString(),
+  lastHost: prefix.lastHost.toString(),
+  totalHosts: prefix.size,
+  usableHosts: prefix.usableHosts,
+  subnetMask: prefix.mask.toString(),
+  wildcardMask: prefix.wildcard.toString(),
+  binaryIP: address.toBinary(),
+  binaryMask: prefix.mask.toBinary(),
+  classful: classfulAnalysis(prefix, address),
+});
+
+/**
+ * Calcula informações detalhadas sobre uma sub-rede com base no IP e máscara fornecidos
+ * @param ipAddress - Endereço IP (ex: '192.168.1.1')
+ * @param subnetMask - Máscara de sub-rede (ex: '255.255.255.0' ou '/24')
+ * @returns Objeto com todas as informações da sub-rede
+ * @throws {SubnetError} Se o IP ou máscara forem inválidos
+ */
+export const calculateSubnet = (ipAddress: string, subnetMask: string): SubnetInfo => {
+  const address = IPv4Address.parse(ipAddress);
+  const prefix = new IPv4Prefix(address, parseMask(subnetMask));
+
+  return describePrefix(prefix, address);
+};
+
+/**
+ * Papel de um nibble (dígito hexadecimal) em relação ao prefixo: inteiro na
+ * parte de rede, inteiro na parte de host ou dividido pela fronteira do prefixo
+ */
+export type NibbleRole = 'network' | 'host' | 'mixed';
+
+/**
+ * Um dos 32 nibbles de um endereço IPv6
+ */
+export interface IPv6Nibble {
+  /** Posição (0-31), a partir do nibble mais significativo */
+  index: number;
+  /** Dígito hexadecimal */
+  hex: string;
+  /** Papel do nibble em relação ao prefixo */
+  role: NibbleRole;
+  /** Quantos dos 4 bits do nibble pertencem ao prefixo */
+  networkBits: number;
+}
+
+/**
+ * Informações de um prefixo IPv6 calculado
+ *
+ * As contagens usam BigInt: um /64 sozinho tem 2^64 endereços, além do que
+ * `number` representa com exatidão.
+ */
+export interface IPv6SubnetInfo {
+  /** Endereço informado, na forma comprimida da RFC 5952 */
+  address: string;
+  /** Endereço informado, na forma expandida */
+  expandedAddress: string;
+  /** Comprimento do prefixo (0-128) */
+  prefixLength: number;
+  /** Prefixo de rede em notação CIDR (ex: '2001:db8::/48') */
+  networkPrefix: string;
+  /** Primeiro endereço do bloco (o próprio endereço de rede: IPv6 não tem broadcast) */
+  firstAddress: string;
+  /** Último endereço do bloco */
+  lastAddress: string;
+  /** Quantidade total de endereços do bloco */
+  totalAddresses: bigint;
+  /** Quantidade de sub-redes /64 contidas no bloco (0 se o prefixo for mais longo que /64) */
+  subnets64: bigint;
+  /** Os 32 nibbles do endereço informado, marcados como rede, host ou misto */
+  nibbles: IPv6Nibble[];
+}
+
+/**
+ * Calcula as informações de um prefixo IPv6
+ * @param ipAddress - Endereço IPv6 (ex: '2001:db8:abcd:12::1')
+ * @param prefixLength - Comprimento do prefixo ('/48' ou '48')
+ * @returns Prefixo de rede, faixa de endereços, contagens e nibbles
+ * @throws {SubnetError} Se o endereço ou o prefixo forem inválidos
+ */
+export const calculateIPv6Subnet = (ipAddress: string, prefixLength: string): IPv6SubnetInfo => {
+  const address = IPv6Address.parse(ipAddress);
+  const prefix = new IPv6Prefix(address, parseIPv6PrefixLength(prefixLength));
+
+  const nibbles = address.value
+    .toString(16)
+    .padStart(32, '0')
+    .split('')
+    .map((hex, index): IPv6Nibble => {
+      const networkBits = Math.min(4, Math.max(0, prefix.length - index * 4));
+      return {
+        index,
+        hex,
+        role: networkBits === 4 ? 'network' : networkBits === 0 ? 'host' : 'mixed',
+        networkBits,
+      };
+    });
+
+  return {
+    address: address.toString(),
+    expandedAddress: address.toExpanded(),
+    prefixLength: prefix.length,
+    networkPrefix: prefix.toString(),
+    firstAddress: prefix.network.toString(),
+    lastAddress: prefix.lastAddress.toString(),
+    totalAddresses: prefix.size,
+    subnets64: prefix.length <= 64 ? 1n << BigInt(64 - prefix.length) : 0n,
+    nibbles,
+  };
+};
+
+/**
+ * Valida o trecho pedido a um iterador (início inclusivo, fim exclusivo)
+ * @throws {SubnetError} Se as posições não forem inteiros não negativos
+ */
+const assertPositions = (start: number, end?: number): void => {
+  if (!Number.isInteger(start) || start < 0 || (end !== undefined && (!Number.isInteger(end) || end < 0))) {
+    throw new SubnetError('INVALID_ARGUMENT', 'As posições devem ser inteiros não negativos');
+  }
+};
+
+/**
+ * Percorre os hosts utilizáveis de uma rede sob demanda
+ *
+ * Apenas os endereços consumidos são gerados, então é possível ler um
+ * trecho de uma /8 sem montar 16 milhões de strings.
+ * @param network - Rede em notação CIDR (ex: '10.0.0.0/8')
+ * @param start - Posição do primeiro host (0 = primeiro host utilizável)
+ * @param end - Posição final, exclusiva (padrão: depois do último host)
+ * @returns Iterador com os endereços em notação decimal pontuada
+ * @throws {SubnetError} Se a rede for inválida ou as posições não forem inteiros não negativos
+ */
+export const iterateHosts = (network: string, start = 0, end?: number): Generator<string> => {
+  const prefix = IPv4Prefix.parse(network);
+  assertPositions(start, end);
+
+  // A validação acima é imediata; só a geração dos endereços fica para depois
+  const hosts = prefix.hosts(start, end);
+  return (function* () {
+    for (const host of hosts) yield host.toString();
+  })();
+};
+
+/**
+ * Blocos vizinhos de uma rede no espaço de endereçamento
+ */
+export interface SubnetNeighborhood {
+  /** Rede consultada, normalizada (ex: '192.168.1.64/26') */
+  network: string;
+  /** Bloco de mesmo tamanho imediatamente anterior; null no início do espaço */
+  previous: string | null;
+  /** Bloco de mesmo tamanho imediatamente posterior; null no fim do espaço */
+  next: string | null;
+  /** Outra metade do bloco pai (é o anterior ou o próximo); null na /0 */
+  sibling: string | null;
+  /** Blocos que contêm a rede, do pai imediato até a /0 */
+  parents: string[];
+  /** As duas metades da rede; vazio na /32 */
+  children: string[];
+}
+
+/**
+ * Calcula os blocos ao redor de uma rede: anterior e próximo de mesmo
+ * tamanho, a cadeia de blocos pais até a /0 e as duas metades
+ * @param network - Rede em notação CIDR (ex: '192.168.1.64/26')
+ * @throws {SubnetError} Se a rede for inválida
+ */
+export const subnetNeighborhood = (network: string): SubnetNeighborhood => {
+  const prefix = IPv4Prefix.parse(network);
+  const { length, size } = prefix;
+  const start = prefix.network.value;
+
+  const parents: string[] = [];
+  for (let parentLength = length - 1; parentLength >= 0; parentLength--) {
+    parents.push(new IPv4Prefix(prefix.network, parentLength).toString());
+  }
+
+  const previous = start - size >= 0 ? new IPv4Prefix(new IPv4Address(start - size), length).toString() : null;
+  const next = start + size <= MAX_IPV4 ? new IPv4Prefix(new IPv4Address(start + size), length).toString() : null;
+  // O bit logo após o prefixo diz qual metade do pai a rede ocupa
+  const isLowerHalf = length > 0 && (start & 2 ** (32 - length)) === 0;
+
+  return {
+    network: prefix.toString(),
+    previous,
+    next,
+    sibling: length === 0 ? null : isLowerHalf ? next : previous,
+    parents,
+    children:
+      length === 32
+        ? []
+        : [
+            new IPv4Prefix(prefix.network, length + 1).toString(),
+            new IPv4Prefix(new IPv4Address(start + size / 2), length + 1).toString(),
+          ],
+  };
+};
+
+/**
+ * Critério de divisão de uma rede: novo comprimento de prefixo ou quantidade mínima de sub-redes
+ */
+export type SplitTarget = { newPrefix: number } | { subnetCount: number };
+
+/**
+ * Resultado da divisão de uma rede em sub-redes de mesmo tamanho (FLSM)
+ */
+export interface SubnetSplit {
+  /** Rede original, já normalizada (ex: '192.168.10.0/24') */
+  network: string;
+  /** Comprimento de prefixo das sub-redes resultantes */
+  newPrefix: number;
+  /** Bits emprestados da parte de host */
+  borrowedBits: number;
+  /** Quantidade de sub-redes geradas */
+  subnetCount: number;
+  /**
+   * Retorna as sub-redes no intervalo [start, end), sem gerar as demais
+   * @param start - Índice da primeira sub-rede
+   * @param end - Índice após a última sub-rede (padrão: todas)
+   */
+  slice: (start: number, end?: number) => SubnetInfo[];
+}
+
+/**
+ * Divide uma rede em sub-redes de mesmo tamanho
+ * @param network - Rede em notação CIDR (ex: '192.168.10.0/24')
+ * @param target - Novo prefixo (ex: { newPrefix: 27 }) ou quantidade de sub-redes (ex: { subnetCount: 8 })
+ * @returns Descrição da divisão; as sub-redes são geradas sob demanda por `slice`
+ * @throws {SubnetError} Se a rede for inválida ou a divisão for impossível
+ */
+export const splitSubnet = (network: string, target: SplitTarget): SubnetSplit => {
+  const parent = IPv4Prefix.parse(network);
+
+  let newPrefix: number;
+  if ('newPrefix' in target) {
+    newPrefix = target.newPrefix;
+    if (!Number.isInteger(newPrefix) || newPrefix < parent.length || newPrefix > 32) {
+      throw new SubnetError('INVALID_ARGUMENT', `O novo prefixo deve estar entre /${parent.length} e /32`);
+    }
+  } else {
+    const { subnetCount } = target;
+    if (!Number.isInteger(subnetCount) || subnetCount < 1) {
+      throw new SubnetError('INVALID_ARGUMENT', 'A quantidade de sub-redes deve ser um inteiro positivo');
+    }
+    // Menor quantidade de bits que comporta o número de sub-redes pedido
+    let bits = 0;
+    while (2 ** bits < subnetCount) bits++;
+    newPrefix = parent.length + bits;
+    if (newPrefix > 32) {
+      throw new SubnetError('INVALID_ARGUMENT', `Não é possível dividir ${parent} em ${subnetCount} sub-redes`);
+    }
+  }
+
+  const borrowedBits = newPrefix - parent.length;
+  const subnetCount = 2 ** borrowedBits;
+  const blockSize = 2 ** (32 - newPrefix);
+
+  const slice = (start: number, end = subnetCount): SubnetInfo[] => {
+    const subnets: SubnetInfo[] = [];
+    for (let i = Math.max(0, start); i < Math.min(end, subnetCount); i++) {
+      subnets.push(describePrefix(new IPv4Prefix(parent.network.add(i * blockSize), newPrefix)));
+    }
+    return subnets;
+  };
+
+  return {
+    network: parent.toString(),
+    newPrefix,
+    borrowedBits,
+    subnetCount,
+    slice,
+  };
+};
+
+/**
+ * Decompõe um intervalo de endereços no menor conjunto de prefixos alinhados
+ * @param start - Primeiro endereço (inteiro de 32 bits)
+ * @param end - Último endereço, inclusivo (inteiro de 32 bits)
+ * @returns Prefixos em ordem crescente que cobrem exatamente o intervalo
+ */
+const rangeToPrefixes = (start: number, end: number): IPv4Prefix[] => {
+  const prefixes: IPv4Prefix[] = [];
+  let cursor = start;
+
+  while (cursor <= end) {
+    // Maior bloco alinhado no cursor que não ultrapassa o fim do intervalo
+    let length = 32;
+    while (length > 0) {
+      const size = 2 ** (32 - length + 1);
+      if (cursor % size !== 0 || cursor + size - 1 > end) break;
+      length--;
+    }
+    prefixes.push(new IPv4Prefix(new IPv4Address(cursor), length));
+    cursor += 2 ** (32 - length);
+  }
+
+  return prefixes;
+};
+
+/**
+ * Segmento de rede a ser alocado pelo planejador VLSM
+ */
+export interface VlsmRequirement {
+  /** Nome do segmento (ex: 'Vendas') */
+  name: string;
+  /** Quantidade de hosts necessária */
+  hosts: number;
+}
+
+/**
+ * Sub-rede alocada para um segmento, com os mesmos campos de `calculateSubnet`
+ */
+export interface VlsmAllocation extends SubnetInfo {
+  /** Nome do segmento */
+  name: string;
+  /** Quantidade de hosts pedida */
+  requiredHosts: number;
+  /** Comprimento do prefixo alocado */
+  prefixLength: number;
+}
+
+/**
+ * Resultado do planejamento VLSM
+ */
+export interface VlsmPlan {
+  /** Bloco de origem, já normalizado (ex: '192.168.0.0/24') */
+  network: string;
+  /** Sub-redes alocadas, da maior para a menor */
+  allocations: VlsmAllocation[];
+  /** Segmentos que não couberam no bloco */
+  unallocated: VlsmRequirement[];
+  /** Espaço livre restante em prefixos CIDR */
+  freeBlocks: string[];
+  /** Quantidade de endereços livres */
+  freeAddresses: number;
+}
+
+/**
+ * Calcula o menor prefixo que comporta a quantidade de hosts pedida, com a
+ * mesma regra de `IPv4Prefix.usableHosts`: /31 ponto a ponto (RFC 3021) e /32
+ * para um único host; nos demais, rede e broadcast ficam reservados
+ */
+const prefixLengthForHosts = (hosts: number): number => {
+  let length = 32;
+  while (length > 0 && new IPv4Prefix(new IPv4Address(0), length).usableHosts < hosts) length--;
+  return length;
+};
+
+/**
+ * Aloca sub-redes de tamanho variável (VLSM) dentro de um bloco
+ *
+ * Os segmentos são atendidos do maior para o menor, o que mantém cada
+ * alocação alinhada ao limite de bits do seu tamanho.
+ * @param network - Bloco de origem em notação CIDR (ex: '192.168.0.0/24')
+ * @param requirements - Segmentos com nome e quantidade de hosts
+ * @returns Alocações, segmentos que não couberam e espaço livre
+ * @throws {SubnetError} Se o bloco for inválido ou algum segmento pedir menos de 1 host
+ */
+export const planVlsm = (network: string, requirements: VlsmRequirement[]): VlsmPlan => {
+  const parent = IPv4Prefix.parse(network);
+
+  const invalid = requirements.find(req => !Number.isInteger(req.hosts) || req.hosts < 1);
+  if (invalid) {
+    throw new SubnetError('INVALID_ARGUMENT', `Quantidade de hosts inválida para o segmento "${invalid.name}"`);
+  }
+
+  // Ordenação estável: em caso de empate, mantém a ordem informada
+  const sorted = [...requirements].sort((a, b) => b.hosts - a.hosts);
+
+  const end = parent.broadcast.value;
+  let cursor = parent.network.value;
+  const allocations: VlsmAllocation[] = [];
+  const unallocated: VlsmRequirement[] = [];
+
+  for (const req of sorted) {
+    const prefixLength = prefixLengthForHosts(req.hosts);
+    const size = 2 ** (32 - prefixLength);
+
+    if (prefixLength < parent.length || cursor + size - 1 > end) {
+      unallocated.push(req);
+      continue;
+    }
+
+    const prefix = new IPv4Prefix(new IPv4Address(cursor), prefixLength);
+    allocations.push({
+      ...describePrefix(prefix),
+      name: req.name,
+      requiredHosts: req.hosts,
+      prefixLength,
+    });
+    cursor += size;
+  }
+
+  const free = cursor <= end ? rangeToPrefixes(cursor, end) : [];
+
+  return {
+    network: parent.toString(),
+    allocations,
+    unallocated,
+    freeBlocks: free.map(prefix => prefix.toString()),
+    freeAddresses: end - cursor + 1,
+  };
 };
 
 /**
- * Valida uma máscara de sub-rede em formato CIDR ou decimal
- * @param mask - Máscara de sub-rede (ex: '255.255.255.0' ou '/24')
- * @returns true se a máscara for válida, false caso contrário
+ * Interpreta um prefixo CIDR ou um IP isolado (tratado como /32)
+ * @throws {SubnetError} Identificando a entrada inválida
  */
-export const validateSubnetMask = (mask: string): boolean => {
-  // Verifica se está em notação CIDR (ex: /24)
-  if (mask.startsWith('/')) {
-    const cidr = parseInt(mask.substring(1), 10);
-    return !isNaN(cidr) && cidr >= 0 && cidr <= 32;
-  }
-  
-  // Verifica se é uma máscara em formato decimal (ex: 255.255.255.0)
-  if (validateIP(mask)) {
-    const binary = ipToBinary(mask).replace(/\./g, '');
-    
-    // Verifica se é uma máscara válida (1s consecutivos seguidos de 0s consecutivos)
-    const hasOnlyBinary = /^[01]+$/.test(binary);
-    const hasLeadingOnes = /^1*0*$/.test(binary);
-    
-    return hasOnlyBinary && hasLeadingOnes && binary.length === 32;
+const parsePrefixOrHost = (entry: string): IPv4Prefix => {
+  try {
+    return entry.includes('/')
+      ? IPv4Prefix.parse(entry)
+      : new IPv4Prefix(IPv4Address.parse(entry), 32);
+  } catch {
+    throw new SubnetError('INVALID_PREFIX', `Prefixo inválido: "${entry}"`, { input: entry });
   }
-  
-  return false;
 };
 
 /**
- * Converte um endereço IP para sua representação binária
- * @param ip - Endereço IP em formato decimal (ex: '192.168.1.1')
- * @returns String com a representação binária do IP (ex: '11000000.10101000.00000001.00000001')
+ * Separa uma lista colada pelo usuário (linhas, vírgulas, ponto e vírgula ou espaços)
+ * @param text - Texto com uma entrada por item (ex: '10.0.0.0/24, 10.0.1.0/24')
+ * @returns Entradas não vazias, na ordem original
+ */
+export const splitEntries = (text: string): string[] =>
+  text.split(/[\s,;]+/).filter(Boolean);
+
+/**
+ * Prefixo sumarizado e as entradas que ele absorveu
  */
-export const ipToBinary = (ip: string): string => {
-  if (!validateIP(ip)) {
-    throw new Error('Endereço IP inválido');
+export interface PrefixSummary {
+  /** Prefixo resultante em notação CIDR */
+  prefix: string;
+  /** Entradas originais (normalizadas) contidas no prefixo */
+  members: string[];
+}
+
+/**
+ * Intervalo contínuo de endereços formado por prefixos sobrepostos ou adjacentes
+ */
+interface MergedRange {
+  start: number;
+  end: number;
+  members: IPv4Prefix[];
+}
+
+/**
+ * Ordena as entradas e funde os intervalos que se sobrepõem ou se tocam
+ * @throws {SubnetError} Se alguma entrada for inválida
+ */
+const mergeRanges = (cidrs: string[]): MergedRange[] => {
+  const inputs = cidrs
+    .map(entry => parsePrefixOrHost(entry.trim()))
+    .sort((a, b) => a.compare(b));
+
+  const ranges: MergedRange[] = [];
+  for (const prefix of inputs) {
+    const start = prefix.network.value;
+    const end = prefix.broadcast.value;
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+      if (!last.members.some(member => member.equals(prefix))) {
+        last.members.push(prefix);
+      }
+    } else {
+      ranges.push({ start, end, members: [prefix] });
+    }
   }
-  
-  return ip.split('.').map(octet => 
-    parseInt(octet, 10).toString(2).padStart(8, '0')
-  ).join('.');
+
+  return ranges;
 };
 
 /**
- * Converte uma string binária para um endereço IP decimal
- * @param binary - String binária no formato '11000000.10101000.00000001.00000001'
- * @returns Endereço IP no formato decimal (ex: '192.168.1.1')
- * @throws {Error} Se o formato binário for inválido
+ * Agrega uma lista de prefixos no menor conjunto exato equivalente
+ *
+ * Prefixos sobrepostos ou adjacentes são fundidos; o resultado cobre
+ * exatamente os mesmos endereços que a entrada, nem mais nem menos.
+ * @param cidrs - Prefixos em notação CIDR; IPs isolados são tratados como /32
+ * @returns Prefixos sumarizados em ordem crescente, com as entradas que cada um absorveu
+ * @throws {SubnetError} Se alguma entrada for inválida
  */
-export const binaryToIp = (binary: string): string => {
-  // Verifica se o formato está correto (4 octetos binários de 8 bits cada)
-  const binaryRegex = /^([01]{8}\.?){4}$/;
-  if (!binaryRegex.test(binary)) {
-    throw new Error('Formato binário inválido. Use o formato: 11000000.10101000.00000001.00000001');
-  }
-  
-  try {
-    return binary.split('.').map(octet => 
-      parseInt(octet, 2).toString()
-    ).join('.');
-  } catch (error) {
-    throw new Error('Falha ao converter binário para IP: ' + error.message);
-  }
+export const aggregatePrefixes = (cidrs: string[]): PrefixSummary[] =>
+  // Cada entrada é um bloco alinhado, logo cabe inteira em um único prefixo do intervalo
+  mergeRanges(cidrs).flatMap(range =>
+    rangeToPrefixes(range.start, range.end).map(summary => ({
+      prefix: summary.toString(),
+      members: range.members
+        .filter(member => summary.contains(member.network))
+        .map(member => member.toString()),
+    }))
+  );
+
+/**
+ * Intervalo contínuo de endereços
+ */
+export interface AddressRange {
+  /** Primeiro endereço do intervalo */
+  start: string;
+  /** Último endereço do intervalo (inclusivo) */
+  end: string;
+  /** Quantidade de endereços no intervalo */
+  size: number;
+}
+
+/**
+ * Cria a descrição de um intervalo a partir dos valores numéricos dos extremos
+ */
+const describeRange = (start: number, end: number): AddressRange => ({
+  start: new IPv4Address(start).toString(),
+  end: new IPv4Address(end).toString(),
+  size: end - start + 1,
+});
+
+/**
+ * Menor prefixo que contém os dois endereços
+ * @param start - Menor endereço (inteiro de 32 bits)
+ * @param end - Maior endereço (inteiro de 32 bits)
+ */
+const coveringPrefix = (start: number, end: number): IPv4Prefix => {
+  // O prefixo comum termina no primeiro bit em que os dois endereços diferem
+  const length = Math.clz32((start ^ end) >>> 0);
+  return new IPv4Prefix(new IPv4Address(start), length);
 };
 
 /**
- * Converte notação CIDR para máscara de sub-rede decimal
- * @param cidr - Valor CIDR (0-32)
- * @returns Máscara de sub-rede no formato decimal (ex: '255.255.255.0')
- * @throws {Error} Se o valor CIDR for inválido
+ * Sumarização com perda: poucos prefixos que cobrem todas as entradas
  */
-export const cidrToMask = (cidr: number): string => {
-  // Valida o valor CIDR
-  if (isNaN(cidr) || cidr < 0 || cidr > 32) {
-    throw new Error('CIDR deve estar entre 0 e 32');
+export interface CoveringSummary {
+  /** Prefixos de cobertura em notação CIDR, em ordem crescente */
+  prefixes: string[];
+  /** Quantidade de endereços das entradas */
+  coveredAddresses: number;
+  /** Quantidade de endereços incluídos indevidamente pelo resumo */
+  extraAddresses: number;
+  /** Intervalos incluídos indevidamente pelo resumo */
+  extraRanges: AddressRange[];
+}
+
+/** Maior `maxPrefixes` aceito pela sumarização com perda */
+export const MAX_COVERING_PREFIXES = 32;
+
+/** Maior quantidade de prefixos, após a agregação exata, que a sumarização com perda otimiza */
+export const MAX_COVERING_ENTRIES = 512;
+
+/**
+ * Encontra até `maxPrefixes` prefixos que cobrem todas as entradas com a
+ * menor sobrecobertura possível
+ *
+ * Com `maxPrefixes = 1`, retorna o menor supernet comum. Se a agregação
+ * exata já couber no limite, ela é o resultado, sem sobrecobertura. Senão,
+ * a busca custa O(K·n²) sobre os n prefixos agregados, por isso K e n são limitados.
+ * @param cidrs - Prefixos em notação CIDR; IPs isolados são tratados como /32
+ * @param maxPrefixes - Quantidade máxima de prefixos no resultado (1 a MAX_COVERING_PREFIXES)
+ * @returns Prefixos de cobertura e os intervalos incluídos a mais
+ * @throws {SubnetError} Se a lista estiver vazia, alguma entrada for inválida, o limite
+ *         estiver fora da faixa ou a agregação exata passar de MAX_COVERING_ENTRIES prefixos
+ */
+export const summarizeCovering = (cidrs: string[], maxPrefixes = 1): CoveringSummary => {
+  if (!Number.isInteger(maxPrefixes) || maxPrefixes < 1 || maxPrefixes > MAX_COVERING_PREFIXES) {
+    throw new SubnetError(
+      'INVALID_ARGUMENT',
+      `A quantidade máxima de prefixos deve ser um inteiro de 1 a ${MAX_COVERING_PREFIXES}`
+    );
+  }
+
+  const items = mergeRanges(cidrs).flatMap(range => rangeToPrefixes(range.start, range.end));
+  if (items.length === 0) {
+    throw new SubnetError('INVALID_ARGUMENT', 'Informe ao menos um prefixo');
+  }
+
+  const n = items.length;
+
+  // covered[i] = endereços das i primeiras entradas, para custo O(1) de cada grupo
+  const covered = [0];
+  items.forEach((item, i) => covered.push(covered[i] + item.size));
+
+  // A agregação exata já cabe no limite: nada a otimizar
+  if (n <= maxPrefixes) {
+    return {
+      prefixes: items.map(item => item.toString()),
+      coveredAddresses: covered[n],
+      extraAddresses: 0,
+      extraRanges: [],
+    };
+  }
+  if (n > MAX_COVERING_ENTRIES) {
+    throw new SubnetError(
+      'INVALID_ARGUMENT',
+      `A agregação exata resultou em ${n} prefixos; a sumarização com perda aceita até ${MAX_COVERING_ENTRIES}`
+    );
+  }
+
+  // Tamanho do prefixo comum calculado direto pelos bits, sem criar objetos
+  const groupCost = (first: number, last: number): number =>
+    2 ** (32 - Math.clz32((items[first].network.value ^ items[last].broadcast.value) >>> 0)) -
+    (covered[last + 1] - covered[first]);
+
+  // Programação dinâmica sobre grupos contíguos: best[k][j] é a menor
+  // sobrecobertura para as j primeiras entradas usando k prefixos
+  const best: number[][] = [[0, ...Array(n).fill(Infinity)]];
+  const choice: number[][] = [[]];
+  for (let k = 1; k <= maxPrefixes; k++) {
+    best.push(Array(n + 1).fill(Infinity));
+    choice.push(Array(n + 1).fill(-1));
+    for (let j = 1; j <= n; j++) {
+      for (let i = k - 1; i < j; i++) {
+        const cost = best[k - 1][i] + groupCost(i, j - 1);
+        if (cost < best[k][j]) {
+          best[k][j] = cost;
+          choice[k][j] = i;
+        }
+      }
+    }
+  }
+
+  // Em caso de empate, prefere menos prefixos
+  let groups = 1;
+  for (let k = 2; k <= maxPrefixes; k++) {
+    if (best[k][n] < best[groups][n]) groups = k;
+  }
+
+  const bounds: [number, number][] = [];
+  for (let k = groups, j = n; k > 0; k--) {
+    const i = choice[k][j];
+    bounds.unshift([i, j - 1]);
+    j = i;
   }
-  
-  // Cria a máscara octeto por octeto
-  const mask = [];
-  for (let i = 0; i < 4; i++) {
-    // Calcula quantos bits devem ser 1s neste octeto
-    const bits = Math.min(8, Math.max(0, cidr - (i * 8)));
-    // Converte para decimal (ex: 24 bits = 255.255.255.0)
-    mask.push(bits === 0 ? 0 : 256 - Math.pow(2, 8 - bits));
+
+  const prefixes: IPv4Prefix[] = [];
+  const extraRanges: AddressRange[] = [];
+  for (const [first, last] of bounds) {
+    const summary = coveringPrefix(items[first].network.value, items[last].broadcast.value);
+    prefixes.push(summary);
+
+    let cursor = summary.network.value;
+    for (let i = first; i <= last; i++) {
+      if (items[i].network.value > cursor) {
+        extraRanges.push(describeRange(cursor, items[i].network.value - 1));
+      }
+      cursor = items[i].broadcast.value + 1;
+    }
+    if (cursor <= summary.broadcast.value) {
+      extraRanges.push(describeRange(cursor, summary.broadcast.value));
+    }
   }
-  
-  return mask.join('.');
+
+  return {
+    prefixes: prefixes.map(prefix => prefix.toString()),
+    coveredAddresses: covered[n],
+    extraAddresses: best[groups][n],
+    extraRanges,
+  };
 };
 
 /**
- * Converte máscara de sub-rede decimal para notação CIDR
- * @param mask - Máscara de sub-rede (ex: '255.255.255.0')
- * @returns Valor CIDR (0-32)
- * @throws {Error} Se a máscara for inválida
+ * Interpreta um intervalo de endereços no formato 'início - fim'
+ * @param text - Intervalo (ex: '10.0.0.5 - 10.0.1.200')
+ * @returns Extremos do intervalo e quantidade de endereços
+ * @throws {SubnetError} Se o formato for inválido ou o início for maior que o fim
  */
-export const maskToCidr = (mask: string): number => {
-  if (!validateSubnetMask(mask)) {
-    throw new Error('Máscara de sub-rede inválida');
+export const parseAddressRange = (text: string): AddressRange => {
+  const match = /^\s*([\d.]+)\s*-\s*([\d.]+)\s*$/.exec(text);
+  if (!match || !validateIP(match[1]) || !validateIP(match[2])) {
+    throw new SubnetError('INVALID_RANGE', 'Intervalo inválido. Use o formato 10.0.0.5 - 10.0.1.200', { input: text });
   }
-  
-  try {
-    // Remove os pontos e conta os '1's para obter o valor CIDR
-    const binary = ipToBinary(mask).replace(/\./g, '');
-    return (binary.match(/1/g) || []).length;
-  } catch (error) {
-    throw new Error('Falha ao converter máscara para CIDR: ' + error.message);
+
+  const start = IPv4Address.parse(match[1]);
+  const end = IPv4Address.parse(match[2]);
+  if (start.compare(end) > 0) {
+    throw new SubnetError('INVALID_RANGE', 'O endereço inicial deve ser menor ou igual ao final');
   }
+  return describeRange(start.value, end.value);
 };
 
 /**
- * Calcula a máscara wildcard a partir da máscara de sub-rede
- * @param subnetMask - Máscara de sub-rede (ex: '255.255.255.0')
- * @returns Máscara wildcard (ex: '0.0.0.255')
- * @throws {Error} Se a máscara for inválida
+ * Converte um intervalo arbitrário de endereços na menor lista de blocos CIDR
+ * @param start - Primeiro endereço (ex: '10.0.0.5')
+ * @param end - Último endereço, inclusivo (ex: '10.0.1.200')
+ * @returns Prefixos em ordem crescente que cobrem exatamente o intervalo
+ * @throws {SubnetError} Se algum endereço for inválido ou o início for maior que o fim
  */
-export const getWildcardMask = (subnetMask: string): string => {
-  if (!validateSubnetMask(subnetMask)) {
-    throw new Error('Máscara de sub-rede inválida');
-  }
-  
-  try {
-    // A máscara wildcard é o complemento bit a bit da máscara de sub-rede
-    return subnetMask
-      .split('.')
-      .map(octet => (255 - parseInt(octet, 10)).toString())
-      .join('.');
-  } catch (error) {
-    throw new Error('Falha ao calcular máscara wildcard: ' + error.message);
+export const rangeToCidrs = (start: string, end: string): string[] => {
+  const first = IPv4Address.parse(start);
+  const last = IPv4Address.parse(end);
+  if (first.compare(last) > 0) {
+    throw new SubnetError('INVALID_RANGE', 'O endereço inicial deve ser menor ou igual ao final');
   }
+  return rangeToPrefixes(first.value, last.value).map(prefix => prefix.toString());
 };
 
 /**
- * Realiza operação AND bit a bit entre dois IPs
- * @param ip1 - Primeiro IP
- * @param ip2 - Segundo IP
- * @returns Resultado da operação AND bit a bit
+ * Indica se um prefixo contém um endereço ou outro prefixo
+ * @param prefix - Prefixo em notação CIDR (ex: '10.4.0.0/21')
+ * @param target - Endereço IP (ex: '10.4.7.9') ou prefixo CIDR (ex: '10.4.4.0/24')
+ * @returns true se todo o alvo estiver dentro do prefixo
+ * @throws {SubnetError} Se alguma entrada for inválida
  */
-export const bitwiseAnd = (ip1: string, ip2: string): string => {
-  const octets1 = ip1.split('.').map(Number);
-  const octets2 = ip2.split('.').map(Number);
-  
-  return octets1.map((octet, index) => 
-    (octet & octets2[index]).toString()
-  ).join('.');
+export const contains = (prefix: string, target: string): boolean =>
+  IPv4Prefix.parse(prefix).contains(parsePrefixOrHost(target));
+
+/**
+ * Indica se dois prefixos têm algum endereço em comum
+ * @param a - Prefixo CIDR ou IP isolado
+ * @param b - Prefixo CIDR ou IP isolado
+ * @throws {SubnetError} Se alguma entrada for inválida
+ */
+export const overlaps = (a: string, b: string): boolean =>
+  parsePrefixOrHost(a).overlaps(parsePrefixOrHost(b));
+
+/**
+ * Relação entre um prefixo e um alvo:
+ * - contains: o prefixo contém todo o alvo
+ * - overlaps: o alvo é maior e contém o prefixo (sobreposição parcial)
+ * - disjoint: não há endereços em comum
+ */
+export type MembershipRelation = 'contains' | 'overlaps' | 'disjoint';
+
+/**
+ * Monta a matriz de pertinência entre alvos e prefixos
+ * @param prefixes - Prefixos de referência (colunas)
+ * @param targets - Endereços ou prefixos a verificar (linhas)
+ * @returns Matriz [alvo][prefixo] com a relação de cada par
+ * @throws {SubnetError} Se alguma entrada for inválida
+ */
+export const checkMembership = (prefixes: string[], targets: string[]): MembershipRelation[][] => {
+  const columns = prefixes.map(entry => parsePrefixOrHost(entry.trim()));
+
+  return targets.map(entry => {
+    const target = parsePrefixOrHost(entry.trim());
+    return columns.map(prefix => {
+      if (prefix.contains(target)) return 'contains';
+      return prefix.overlaps(target) ? 'overlaps' : 'disjoint';
+    });
+  });
 };
 
 /**
- * Realiza operação OR bit a bit entre dois endereços IP
- * @param ip1 - Primeiro endereço IP
- * @param ip2 - Segundo endereço IP
- * @returns Resultado da operação OR bit a bit
- * @throws {Error} Se algum dos IPs for inválido
+ * Par endereço/wildcard no estilo das ACLs da Cisco: cada bit 1 da wildcard
+ * significa "não importa" e cada bit 0 precisa coincidir com o endereço.
+ * Ao contrário de uma máscara, os bits 1 não precisam ser contíguos.
  */
-export const bitwiseOr = (ip1: string, ip2: string): string => {
-  if (!validateIP(ip1) || !validateIP(ip2)) {
-    throw new Error('Um ou mais endereços IP são inválidos');
+export interface WildcardPattern {
+  /** Endereço base, com os bits "não importa" zerados */
+  address: string;
+  /** Wildcard em notação decimal pontuada */
+  wildcard: string;
+  /** Quantidade de bits livres (bits 1 da wildcard) */
+  freeBits: number;
+  /** Quantidade de endereços que casam com o par (2^bits livres) */
+  matchCount: number;
+  /** Padrão octeto a octeto: '0'/'1' para bits fixos e 'x' para bits livres */
+  pattern: string;
+  /** Prefixo equivalente quando a wildcard é o inverso de uma máscara contígua, ou null */
+  prefix: string | null;
+}
+
+/**
+ * Interpreta um par endereço/wildcard
+ * @returns Endereço base (com os bits livres zerados) e bits livres, como inteiros
+ * @throws {SubnetError} Se o endereço ou a wildcard forem inválidos
+ */
+const parseWildcardPair = (address: string, wildcard: string): { base: number; free: number } => {
+  const value = IPv4Address.parse(address).value;
+  const free = parseIPv4Value(wildcard);
+  if (free === null) {
+    const { reason, octetIndex, octet } = findDottedQuadProblem(wildcard);
+    throw new SubnetError('INVALID_WILDCARD', `Wildcard inválida: ${reason}`, { input: wildcard, octetIndex, octet });
   }
-  
-  try {
-    const octets1 = ip1.split('.').map(Number);
-    const octets2 = ip2.split('.').map(Number);
-    
-    return octets1.map((octet, index) => 
-      (octet | octets2[index]).toString()
-    ).join('.');
-  } catch (error) {
-    throw new Error('Falha ao realizar operação OR: ' + error.message);
+  return { base: (value & ~free) >>> 0, free };
+};
+
+/**
+ * Descreve o conjunto de endereços selecionado por um par endereço/wildcard
+ * @param address - Endereço da regra (ex: '10.0.0.0')
+ * @param wildcard - Wildcard com bits arbitrários (ex: '0.0.254.255' casa só terceiros octetos pares)
+ * @returns Padrão de bits, quantidade de endereços e prefixo equivalente, se houver
+ * @throws {SubnetError} Se o endereço ou a wildcard forem inválidos
+ */
+export const describeWildcard = (address: string, wildcard: string): WildcardPattern => {
+  const { base, free } = parseWildcardPair(address, wildcard);
+  const freeBits = popCount(free);
+
+  let pattern = '';
+  for (let bit = 31; bit >= 0; bit--) {
+    pattern += (free >>> bit) & 1 ? 'x' : String((base >>> bit) & 1);
+    if (bit % 8 === 0 && bit > 0) pattern += '.';
   }
+
+  const length = maskValueToPrefixLength(~free >>> 0);
+  const baseAddress = new IPv4Address(base);
+  return {
+    address: baseAddress.toString(),
+    wildcard: new IPv4Address(free).toString(),
+    freeBits,
+    matchCount: 2 ** freeBits,
+    pattern,
+    prefix: length === null ? null : `${baseAddress}/${length}`,
+  };
 };
 
 /**
- * Incrementa um endereço IP em 1
- * @param ip - Endereço IP a ser incrementado
- * @returns Novo endereço IP incrementado
- * @throws {Error} Se o IP for inválido ou estourar o limite máximo
+ * Indica se um endereço casa com um par endereço/wildcard
+ * @param address - Endereço da regra (ex: '10.0.0.0')
+ * @param wildcard - Wildcard (ex: '0.0.254.255')
+ * @param ip - Endereço a testar (ex: '10.0.4.9')
+ * @returns true se todos os bits fixos do endereço testado coincidirem com os da regra
+ * @throws {SubnetError} Se alguma entrada for inválida
+ */
+export const matchesWildcard = (address: string, wildcard: string, ip: string): boolean => {
+  const { base, free } = parseWildcardPair(address, wildcard);
+  return ((IPv4Address.parse(ip).value & ~free) >>> 0) === base;
+};
+
+/**
+ * Percorre, em ordem crescente e sob demanda, os endereços que casam com um
+ * par endereço/wildcard
+ * @param address - Endereço da regra
+ * @param wildcard - Wildcard
+ * @param start - Posição do primeiro endereço gerado (0 = menor endereço do conjunto)
+ * @param end - Posição final, exclusiva (padrão: até o fim do conjunto)
+ * @returns Iterador com os endereços em notação decimal pontuada
+ * @throws {SubnetError} Se alguma entrada for inválida
  */
-export const incrementIp = (ip: string): string => {
-  if (!validateIP(ip)) {
-    throw new Error('Endereço IP inválido');
+export const iterateWildcardMatches = (
+  address: string,
+  wildcard: string,
+  start = 0,
+  end?: number
+): Generator<string> => {
+  const { base, free } = parseWildcardPair(address, wildcard);
+  assertPositions(start, end);
+
+  // Posições dos bits livres, do menos para o mais significativo
+  const positions: number[] = [];
+  for (let bit = 0; bit < 32; bit++) {
+    if ((free >>> bit) & 1) positions.push(bit);
   }
-  
-  try {
-    let octets = ip.split('.').map(Number);
-    
-    // Percorre os octetos da direita para a esquerda
-    for (let i = 3; i >= 0; i--) {
-      if (octets[i] < 255) {
-        octets[i]++;
-        return octets.join('.');
-      } else {
-        octets[i] = 0;
-        // Se for o último octeto e estiver estourando, lança erro
-        if (i === 0) {
-          throw new Error('Estouro: endereço IP máximo atingido (255.255.255.255)');
-        }
+  const stop = Math.min(end ?? Infinity, 2 ** positions.length);
+
+  return (function* () {
+    for (let index = start; index < stop; index++) {
+      // Cada bit do índice ocupa uma posição livre; assim a ordem dos índices é a ordem dos endereços
+      let value = base;
+      for (let i = 0; i < positions.length; i++) {
+        if (Math.floor(index / 2 ** i) % 2 === 1) value += 2 ** positions[i];
       }
+      yield new IPv4Address(value).toString();
     }
-    
-    return octets.join('.');
-  } catch (error) {
-    throw new Error('Falha ao incrementar IP: ' + error.message);
-  }
+  })();
 };
 
 /**
- * Decrementa um endereço IP em 1
- * @param ip - Endereço IP a ser decrementado
- * @returns Novo endereço IP decrementado
- * @throws {Error} Se o IP for inválido ou estiver no limite mínimo
+ * Conjunto arbitrário de endereços IPv4, imutável e sempre normalizado
+ *
+ * Internamente guarda intervalos ordenados, disjuntos e não adjacentes, de
+ * modo que dois conjuntos com os mesmos endereços têm a mesma representação
+ * e a conversão para CIDR sempre produz a lista mínima.
  */
-export const decrementIp = (ip: string): string => {
-  if (!validateIP(ip)) {
-    throw new Error('Endereço IP inválido');
+export class IPSet {
+  /** Intervalos [início, fim] inclusivos, em ordem crescente */
+  private readonly ranges: ReadonlyArray<readonly [number, number]>;
+
+  private constructor(ranges: ReadonlyArray<readonly [number, number]>) {
+    this.ranges = ranges;
   }
-  
-  try {
-    let octets = ip.split('.').map(Number);
-    
-    // Verifica se já está no IP mínimo
-    if (octets.every(octet => octet === 0)) {
-      throw new Error('Estouro: endereço IP mínimo atingido (0.0.0.0)');
-    }
-    
-    // Percorre os octetos da direita para a esquerda
-    for (let i = 3; i >= 0; i--) {
-      if (octets[i] > 0) {
-        octets[i]--;
-        return octets.join('.');
+
+  /** Ordena e funde intervalos sobrepostos ou adjacentes */
+  private static normalize(ranges: (readonly [number, number])[]): IPSet {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const [start, end] of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1] + 1) {
+        last[1] = Math.max(last[1], end);
       } else {
-        octets[i] = 255;
+        merged.push([start, end]);
+      }
+    }
+    return new IPSet(merged);
+  }
+
+  /** Conjunto vazio */
+  static empty(): IPSet {
+    return new IPSet([]);
+  }
+
+  /** Conjunto com todos os endereços (0.0.0.0/0) */
+  static all(): IPSet {
+    return new IPSet([[0, MAX_IPV4]]);
+  }
+
+  /** Conjunto com os endereços de um prefixo */
+  static fromPrefix(prefix: IPv4Prefix): IPSet {
+    return new IPSet([[prefix.network.value, prefix.broadcast.value]]);
+  }
+
+  /** Conjunto com os endereços de vários prefixos, normalizados de uma só vez */
+  static fromPrefixes(prefixes: IPv4Prefix[]): IPSet {
+    return IPSet.normalize(prefixes.map(prefix => [prefix.network.value, prefix.broadcast.value] as const));
+  }
+
+  /**
+   * Conjunto com os endereços de um intervalo
+   * @throws {SubnetError} Se o início for maior que o fim
+   */
+  static fromRange(start: IPv4Address, end: IPv4Address): IPSet {
+    if (start.compare(end) > 0) {
+      throw new SubnetError('INVALID_RANGE', 'O endereço inicial deve ser menor ou igual ao final');
+    }
+    return new IPSet([[start.value, end.value]]);
+  }
+
+  /**
+   * Cria o conjunto a partir de uma lista de entradas
+   * @param entries - Prefixos CIDR, IPs isolados ou intervalos ('10.0.0.5 - 10.0.1.200')
+   * @throws {SubnetError} Se alguma entrada for inválida
+   */
+  static parse(entries: string[]): IPSet {
+    return IPSet.normalize(
+      entries.map(entry => {
+        if (entry.includes('-')) {
+          const range = parseAddressRange(entry);
+          return [IPv4Address.parse(range.start).value, IPv4Address.parse(range.end).value] as const;
+        }
+        const prefix = parsePrefixOrHost(entry.trim());
+        return [prefix.network.value, prefix.broadcast.value] as const;
+      })
+    );
+  }
+
+  /** Endereços presentes em qualquer um dos conjuntos */
+  union(other: IPSet): IPSet {
+    return IPSet.normalize([...this.ranges, ...other.ranges]);
+  }
+
+  /** Endereços presentes nos dois conjuntos */
+  intersection(other: IPSet): IPSet {
+    const result: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < this.ranges.length && j < other.ranges.length) {
+      const [aStart, aEnd] = this.ranges[i];
+      const [bStart, bEnd] = other.ranges[j];
+      const start = Math.max(aStart, bStart);
+      const end = Math.min(aEnd, bEnd);
+      if (start <= end) result.push([start, end]);
+      // Avança o intervalo que termina primeiro; o outro ainda pode cruzar o próximo
+      if (aEnd < bEnd) i++;
+      else j++;
+    }
+    return new IPSet(result);
+  }
+
+  /** Endereços deste conjunto que não estão no outro */
+  difference(other: IPSet): IPSet {
+    return this.intersection(other.complement());
+  }
+
+  /** Endereços IPv4 que não estão no conjunto */
+  complement(): IPSet {
+    const result: [number, number][] = [];
+    let cursor = 0;
+    for (const [start, end] of this.ranges) {
+      if (start > cursor) result.push([cursor, start - 1]);
+      cursor = end + 1;
+    }
+    if (cursor <= MAX_IPV4) result.push([cursor, MAX_IPV4]);
+    return new IPSet(result);
+  }
+
+  /** Indica se o endereço pertence ao conjunto */
+  contains(address: IPv4Address): boolean {
+    return this.ranges.some(([start, end]) => address.value >= start && address.value <= end);
+  }
+
+  /** Indica se os dois conjuntos têm os mesmos endereços */
+  equals(other: IPSet): boolean {
+    return (
+      this.ranges.length === other.ranges.length &&
+      this.ranges.every(([start, end], i) => start === other.ranges[i][0] && end === other.ranges[i][1])
+    );
+  }
+
+  /** Indica se o conjunto não tem nenhum endereço */
+  get isEmpty(): boolean {
+    return this.ranges.length === 0;
+  }
+
+  /** Quantidade de endereços do conjunto */
+  get size(): number {
+    return this.ranges.reduce((total, [start, end]) => total + end - start + 1, 0);
+  }
+
+  /** Lista mínima de prefixos que representa exatamente o conjunto, em ordem crescente */
+  toPrefixes(): IPv4Prefix[] {
+    return this.ranges.flatMap(([start, end]) => rangeToPrefixes(start, end));
+  }
+
+  /** Lista mínima de prefixos em notação CIDR */
+  toCidrs(): string[] {
+    return this.toPrefixes().map(prefix => prefix.toString());
+  }
+
+  /** Intervalos contínuos do conjunto, em ordem crescente */
+  toRanges(): AddressRange[] {
+    return this.ranges.map(([start, end]) => describeRange(start, end));
+  }
+
+  /**
+   * Percorre os blocos de um tamanho, alinhados ao próprio limite, que cabem
+   * inteiros no conjunto
+   * @param length - Comprimento do prefixo dos blocos (0-32)
+   * @returns Iterador com os blocos em ordem crescente
+   * @throws {SubnetError} Se o comprimento for inválido
+   */
+  *alignedBlocks(length: number): Generator<IPv4Prefix> {
+    const size = new IPv4Prefix(new IPv4Address(0), length).size;
+    for (const [start, end] of this.ranges) {
+      for (let cursor = Math.ceil(start / size) * size; cursor + size - 1 <= end; cursor += size) {
+        yield new IPv4Prefix(new IPv4Address(cursor), length);
       }
     }
-    
-    return octets.join('.');
-  } catch (error) {
-    throw new Error('Falha ao decrementar IP: ' + error.message);
   }
+
+  /**
+   * Conta os blocos de um tamanho, alinhados ao próprio limite, que cabem no conjunto
+   * @param length - Comprimento do prefixo dos blocos (0-32)
+   * @throws {SubnetError} Se o comprimento for inválido
+   */
+  countAlignedBlocks(length: number): number {
+    const size = new IPv4Prefix(new IPv4Address(0), length).size;
+    return this.ranges.reduce(
+      (total, [start, end]) => total + Math.max(0, Math.floor((end + 1) / size) - Math.ceil(start / size)),
+      0
+    );
+  }
+}
+
+/**
+ * Elemento de uma expressão de conjuntos
+ */
+type SetToken = {
+  kind: 'operator' | 'operand' | 'range';
+  value: string;
+  /** Índice do primeiro caractere na expressão */
+  position: number;
 };
 
 /**
- * Calcula informações detalhadas sobre uma sub-rede com base no IP e máscara fornecidos
- * @param ipAddress - Endereço IP (ex: '192.168.1.1')
- * @param subnetMask - Máscara de sub-rede (ex: '255.255.255.0' ou '/24')
- * @returns Objeto com todas as informações da sub-rede
- * @throws {Error} Se o IP ou máscara forem inválidos
+ * Separa uma expressão de conjuntos em operadores, operandos e intervalos entre colchetes
+ * @throws {SubnetError} Se houver um caractere que não pertence à linguagem
  */
-export const calculateSubnet = (ipAddress: string, subnetMask: string): SubnetInfo => {
-  // Valida o endereço IP
-  if (!validateIP(ipAddress)) {
-    throw new Error('Endereço IP inválido');
+const tokenizeSetExpression = (expression: string): SetToken[] => {
+  const tokens: SetToken[] = [];
+  const pattern = /\s*(?:\[([^\]]*)\]|([()+|,&~-])|([^\s()+|,&~[\]-]+))/y;
+
+  while (expression.substring(pattern.lastIndex).trim() !== '') {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(expression);
+    if (!match) {
+      const position = expression.length - expression.substring(start).trimStart().length;
+      throw new SubnetError(
+        'INVALID_EXPRESSION',
+        `Expressão inválida: caractere inesperado "${expression[position]}" na posição ${position + 1}`,
+        { input: expression, position }
+      );
+    }
+
+    const position = match.index + match[0].search(/\S/);
+    if (match[1] !== undefined) tokens.push({ kind: 'range', value: match[1], position });
+    else if (match[2] !== undefined) tokens.push({ kind: 'operator', value: match[2], position });
+    else tokens.push({ kind: 'operand', value: match[3], position });
   }
 
-  // Converte notação CIDR para máscara decimal, se necessário
-  let mask = subnetMask;
-  if (subnetMask.startsWith('/')) {
+  return tokens;
+};
+
+/**
+ * Avalia uma expressão de conjuntos de endereços
+ *
+ * Operadores, do menor para o maior nível de precedência:
+ * - `+`, `|` ou `,`: união; `-`: diferença (associativos à esquerda)
+ * - `&`: interseção
+ * - `~`: complemento (prefixo unário)
+ *
+ * Operandos são prefixos CIDR, IPs isolados ou intervalos entre colchetes
+ * (`[10.0.0.5 - 10.0.1.200]`); parênteses agrupam subexpressões.
+ * @param expression - Expressão (ex: '10.0.0.0/8 - 10.1.0.0/16 - 10.200.0.0/13')
+ * @returns Conjunto resultante
+ * @throws {SubnetError} Se a expressão ou algum operando for inválido, com a posição do erro
+ */
+export const evaluateSetExpression = (expression: string): IPSet => {
+  const tokens = tokenizeSetExpression(expression);
+  let index = 0;
+
+  const fail = (reason: string, token: SetToken | undefined = tokens[index]): SubnetError => {
+    const position = token?.position ?? expression.length;
+    return new SubnetError('INVALID_EXPRESSION', `Expressão inválida: ${reason} (posição ${position + 1})`, {
+      input: expression,
+      position,
+    });
+  };
+
+  // Erros de um operando recebem a posição dele na expressão
+  const parseOperand = (token: SetToken, entry: string): IPSet => {
     try {
-      const cidr = parseInt(subnetMask.substring(1), 10);
-      if (isNaN(cidr) || cidr < 0 || cidr > 32) {
-        throw new Error('Valor CIDR inválido. Deve estar entre 0 e 32');
-      }
-      mask = cidrToMask(cidr);
+      return IPSet.parse([entry]);
     } catch (error) {
-      throw new Error('Falha ao converter CIDR para máscara: ' + error.message);
-    }
-  }
-  
-  // Calculate network address (IP AND Mask)
-  const networkAddress = bitwiseAnd(ipAddress, mask);
-  
-  // Calculate wildcard mask
-  const wildcardMask = getWildcardMask(mask);
-  
-  // Calculate broadcast address (Network OR Wildcard)
-  const broadcastAddress = bitwiseOr(networkAddress, wildcardMask);
-  
-  // Valida a máscara de sub-rede
-  if (!validateSubnetMask(mask)) {
-    throw new Error('Máscara de sub-rede inválida');
-  }
-  
-  try {
-    // Converte IP e máscara para binário para exibição
-    const binaryIP = ipToBinary(ipAddress);
-    const binaryMask = ipToBinary(mask);
-    
-    // Calcula o endereço de rede (IP AND máscara)
-    const networkAddress = bitwiseAnd(ipAddress, mask);
-    
-    // Calcula o endereço de broadcast (rede OR wildcard)
-    const wildcard = getWildcardMask(mask);
-    const broadcastAddress = bitwiseOr(networkAddress, wildcard);
-    
-    // Calcula primeiro e último host utilizáveis
-    let firstHost = incrementIp(networkAddress);
-    let lastHost = decrementIp(broadcastAddress);
-    
-    // Casos especiais para redes /31 e /32 (RFC 3021)
-    const cidr = maskToCidr(mask);
-    if (cidr >= 31) {
-      firstHost = networkAddress;
-      lastHost = broadcastAddress;
-    }
-    
-    // Calcula o número total de hosts e hosts utilizáveis
-    const totalHosts = Math.pow(2, 32 - cidr);
-    let usableHosts = Math.max(0, totalHosts - 2);
-    
-    // Ajusta para redes /31 e /32 que têm regras especiais
-    if (cidr >= 31) {
-      usableHosts = totalHosts;
-    }
-    
-    // Retorna todas as informações da sub-rede
-    return {
-      networkAddress,
-      broadcastAddress,
-      firstHost,
-      lastHost,
-      totalHosts,
-      usableHosts,
-      subnetMask: mask,
-      wildcardMask: wildcard,
-      binaryIP,
-      binaryMask: binaryMask
-    };
-  } catch (error) {
-    throw new Error('Falha ao calcular informações da sub-rede: ' + error.message);
+      if (!(error instanceof SubnetError)) throw error;
+      throw new SubnetError(error.code, error.message, { ...error.details, position: token.position });
+    }
+  };
+
+  const parsePrimary = (): IPSet => {
+    const token = tokens[index++];
+    if (!token) throw fail('falta um operando no fim da expressão');
+
+    if (token.kind === 'range') {
+      if (!token.value.includes('-')) throw fail('use o formato [início - fim] para intervalos', token);
+      return parseOperand(token, token.value);
+    }
+    if (token.kind === 'operand') return parseOperand(token, token.value);
+
+    if (token.value === '(') {
+      const set = parseUnion();
+      if (tokens[index]?.value !== ')') throw fail('falta fechar o parêntese');
+      index++;
+      return set;
+    }
+    throw fail(`"${token.value}" inesperado`, token);
+  };
+
+  const parseUnary = (): IPSet => {
+    if (tokens[index]?.value === '~') {
+      index++;
+      return parseUnary().complement();
+    }
+    return parsePrimary();
+  };
+
+  const parseIntersection = (): IPSet => {
+    let set = parseUnary();
+    while (tokens[index]?.value === '&') {
+      index++;
+      set = set.intersection(parseUnary());
+    }
+    return set;
+  };
+
+  const parseUnion = (): IPSet => {
+    let set = parseIntersection();
+    while (tokens[index]?.kind === 'operator' && ['+', '|', ',', '-'].includes(tokens[index].value)) {
+      const operator = tokens[index++].value;
+      const right = parseIntersection();
+      set = operator === '-' ? set.difference(right) : set.union(right);
+    }
+    return set;
+  };
+
+  if (tokens.length === 0) throw fail('informe ao menos um operando');
+  const result = parseUnion();
+  if (index < tokens.length) throw fail(`"${tokens[index].value}" inesperado`);
+  return result;
+};
+
+/**
+ * Espaço livre de um bloco pai com sub-redes já alocadas
+ */
+export interface FreeSpaceReport {
+  /** Bloco pai normalizado (ex: '10.0.0.0/16') */
+  parent: string;
+  /** Alocações normalizadas, em ordem crescente */
+  allocations: string[];
+  /** Alocações contidas em outra alocação da lista */
+  nested: string[];
+  /** Espaço livre como lista mínima de blocos CIDR */
+  freeBlocks: string[];
+  /** Intervalos contínuos livres */
+  freeRanges: AddressRange[];
+  /** Quantidade de endereços livres */
+  freeAddresses: number;
+  /** Quantidade de endereços alocados */
+  allocatedAddresses: number;
+}
+
+/**
+ * Primeiro bloco livre de um tamanho dentro do bloco pai
+ */
+export interface FreeBlockSearch {
+  /** Primeiro bloco livre alinhado, ou null se nenhum couber */
+  prefix: string | null;
+  /** Quantos blocos desse tamanho ainda cabem no espaço livre */
+  available: number;
+}
+
+/**
+ * Interpreta o bloco pai e as alocações, exigindo que todas estejam dentro
+ * dele, e calcula os conjuntos de endereços usados e livres
+ * @throws {SubnetError} Se alguma entrada for inválida ou estiver fora do bloco pai
+ */
+const analyzeAllocations = (parent: string, allocations: string[]) => {
+  const block = IPv4Prefix.parse(parent.trim());
+  const children = allocations.map(entry => parsePrefixOrHost(entry.trim())).sort((a, b) => a.compare(b));
+
+  const outside = children.find(child => !block.contains(child));
+  if (outside) {
+    throw new SubnetError('INVALID_ARGUMENT', `${outside} não está contido em ${block}`, { input: outside.toString() });
+  }
+
+  const used = IPSet.fromPrefixes(children);
+  return { block, children, used, free: IPSet.fromPrefix(block).difference(used) };
+};
+
+/**
+ * Calcula o espaço ainda livre em um bloco pai, dadas as sub-redes já alocadas
+ * @param parent - Bloco pai em notação CIDR (ex: '10.0.0.0/16')
+ * @param allocations - Prefixos já alocados dentro do bloco (IPs isolados valem como /32)
+ * @returns Espaço livre como lista mínima de blocos CIDR e intervalos
+ * @throws {SubnetError} Se alguma entrada for inválida ou estiver fora do bloco pai
+ */
+export const findFreeSpace = (parent: string, allocations: string[]): FreeSpaceReport => {
+  const { block, children, used, free } = analyzeAllocations(parent, allocations);
+
+  // Com a lista ordenada (rede crescente, prefixo mais curto primeiro), quem contém uma alocação
+  // vem antes dela; basta comparar com a anterior que chega mais longe
+  const nested: IPv4Prefix[] = [];
+  let cover: IPv4Prefix | null = null;
+  for (const child of children) {
+    if (cover?.contains(child)) {
+      nested.push(child);
+    } else if (!cover || child.broadcast.value > cover.broadcast.value) {
+      cover = child;
+    }
+  }
+
+  return {
+    parent: block.toString(),
+    allocations: children.map(child => child.toString()),
+    nested: nested.map(child => child.toString()),
+    freeBlocks: free.toCidrs(),
+    freeRanges: free.toRanges(),
+    freeAddresses: free.size,
+    allocatedAddresses: used.size,
+  };
+};
+
+/**
+ * Procura o primeiro bloco livre de um tamanho, alinhado ao próprio limite
+ * (ex: uma /26 só pode começar em múltiplos de 64)
+ * @param parent - Bloco pai em notação CIDR (ex: '10.0.0.0/16')
+ * @param allocations - Prefixos já alocados dentro do bloco
+ * @param length - Comprimento do bloco procurado (ex: 26)
+ * @throws {SubnetError} Se alguma entrada for inválida ou o bloco procurado for maior que o pai
+ */
+export const findFirstFreeBlock = (parent: string, allocations: string[], length: number): FreeBlockSearch => {
+  const { block, free } = analyzeAllocations(parent, allocations);
+  if (!Number.isInteger(length) || length < block.length || length > 32) {
+    throw new SubnetError(
+      'PREFIX_LENGTH_OUT_OF_RANGE',
+      `O bloco procurado deve estar entre /${block.length} e /32 dentro de ${block}`,
+      { input: String(length) }
+    );
   }
-};
\ No newline at end of file
+
+  const first = free.alignedBlocks(length).next();
+
+  return {
+    prefix: first.done ? null : first.value.toString(),
+    available: free.countAlignedBlocks(length),
+  };
+};
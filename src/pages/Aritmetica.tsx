@@ -0,0 +1,14 @@
+import AritmeticaEnderecos from "@/components/AritmeticaEnderecos";
+import Layout from "@/components/Layout";
+
+const Aritmetica = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <AritmeticaEnderecos />
+      </div>
+    </Layout>
+  );
+};
+
+export default Aritmetica;
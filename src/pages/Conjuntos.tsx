@@ -0,0 +1,14 @@
+import AlgebraConjuntos from "@/components/AlgebraConjuntos";
+import Layout from "@/components/Layout";
+
+const Conjuntos = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <AlgebraConjuntos />
+      </div>
+    </Layout>
+  );
+};
+
+export default Conjuntos;
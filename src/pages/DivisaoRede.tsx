@@ -0,0 +1,14 @@
+import DivisaoSubredes from "@/components/DivisaoSubredes";
+import Layout from "@/components/Layout";
+
+const DivisaoRede = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <DivisaoSubredes />
+      </div>
+    </Layout>
+  );
+};
+
+export default DivisaoRede;
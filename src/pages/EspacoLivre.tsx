@@ -0,0 +1,14 @@
+import BuscaEspacoLivre from "@/components/BuscaEspacoLivre";
+import Layout from "@/components/Layout";
+
+const EspacoLivre = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <BuscaEspacoLivre />
+      </div>
+    </Layout>
+  );
+};
+
+export default EspacoLivre;
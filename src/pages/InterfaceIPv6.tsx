@@ -0,0 +1,14 @@
+import IdentificadorInterface from "@/components/IdentificadorInterface";
+import Layout from "@/components/Layout";
+
+const InterfaceIPv6 = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <IdentificadorInterface />
+      </div>
+    </Layout>
+  );
+};
+
+export default InterfaceIPv6;
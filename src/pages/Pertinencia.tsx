@@ -0,0 +1,14 @@
+import VerificacaoPertinencia from "@/components/VerificacaoPertinencia";
+import Layout from "@/components/Layout";
+
+const Pertinencia = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <VerificacaoPertinencia />
+      </div>
+    </Layout>
+  );
+};
+
+export default Pertinencia;
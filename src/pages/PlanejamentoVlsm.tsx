@@ -0,0 +1,14 @@
+import PlanejadorVlsm from "@/components/PlanejadorVlsm";
+import Layout from "@/components/Layout";
+
+const PlanejamentoVlsm = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <PlanejadorVlsm />
+      </div>
+    </Layout>
+  );
+};
+
+export default PlanejamentoVlsm;
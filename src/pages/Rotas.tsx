@@ -0,0 +1,14 @@
+import TabelaRotas from "@/components/TabelaRotas";
+import Layout from "@/components/Layout";
+
+const Rotas = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <TabelaRotas />
+      </div>
+    </Layout>
+  );
+};
+
+export default Rotas;
@@ -0,0 +1,14 @@
+import SumarizacaoRotas from "@/components/SumarizacaoRotas";
+import Layout from "@/components/Layout";
+
+const Sumarizacao = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <SumarizacaoRotas />
+      </div>
+    </Layout>
+  );
+};
+
+export default Sumarizacao;
@@ -0,0 +1,14 @@
+import TraducaoIPv4IPv6 from "@/components/TraducaoIPv4IPv6";
+import Layout from "@/components/Layout";
+
+const TraducaoIPv6 = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <TraducaoIPv4IPv6 />
+      </div>
+    </Layout>
+  );
+};
+
+export default TraducaoIPv6;
@@ -0,0 +1,14 @@
+import AvaliadorWildcard from "@/components/AvaliadorWildcard";
+import Layout from "@/components/Layout";
+
+const Wildcard = () => {
+  return (
+    <Layout>
+      <div className="container py-8">
+        <AvaliadorWildcard />
+      </div>
+    </Layout>
+  );
+};
+
+export default Wildcard;